@@ -1,33 +1,127 @@
 "use client"
 
-import { useState } from "react"
+import { useState, useEffect } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { Upload, FileSpreadsheet, Users, Briefcase, CheckCircle, Shield, Search, Settings, Brain } from "lucide-react"
+import {
+  Upload,
+  FileSpreadsheet,
+  Users,
+  Briefcase,
+  CheckCircle,
+  Shield,
+  Search,
+  Settings,
+  Brain,
+  GitBranch,
+  SlidersHorizontal,
+  Download,
+  History,
+  Network,
+} from "lucide-react"
 import { FileUploader } from "@/components/file-uploader"
 import { DataGrid } from "@/components/data-grid"
 import { ValidationPanel } from "@/components/validation-panel"
 import { NaturalLanguageSearch } from "@/components/natural-language-search"
 import { RuleManagement } from "@/components/rule-management"
 import { AIAssistant } from "@/components/ai-assistant"
+import { AllocationPanel } from "@/components/allocation-panel"
+import { PrioritizationPanel } from "@/components/prioritization-panel"
+import { ExportPanel } from "@/components/export-panel"
+import { ChangeHistory } from "@/components/change-history"
+import { WorkspaceManager } from "@/components/workspace-manager"
+import { RelationshipView } from "@/components/relationship-view"
+import { GroupSummary } from "@/components/group-summary"
 import { useDataStore } from "@/lib/store"
-import type { Rule } from "@/lib/rule-types"
+import { toList, type EntityType } from "@/lib/schemas"
+import { useRuleStore } from "@/lib/rule-store"
+import { useValidatorStore } from "@/lib/validator-store"
+import { useSuppressionStore } from "@/lib/suppression-store"
+import { createDefaultPrioritization, type PrioritizationConfig } from "@/lib/prioritization"
+import type { Workspace } from "@/lib/persistence"
 
 export default function HomePage() {
-  const { clients, workers, tasks, hasData } = useDataStore()
+  const { clients, workers, tasks, hasData, updateRecord, batch, undo, redo } = useDataStore()
   const [activeTab, setActiveTab] = useState<
-    "upload" | "clients" | "workers" | "tasks" | "validation" | "search" | "rules" | "ai"
+    | "upload"
+    | "clients"
+    | "workers"
+    | "tasks"
+    | "validation"
+    | "search"
+    | "rules"
+    | "ai"
+    | "priorities"
+    | "allocation"
+    | "export"
+    | "history"
+    | "relationships"
   >("upload")
-  const [rules, setRules] = useState<Rule[]>([])
+  // Row the relationship view asked the data grid to jump to
+  const [focus, setFocus] = useState<{ entityType: EntityType; recordId: string } | null>(null)
+  const setRules = useRuleStore((state) => state.setRules)
+  const setValidatorSettings = useValidatorStore((state) => state.setSettings)
+  const setSuppressions = useSuppressionStore((state) => state.setSuppressions)
+  const [prioritization, setPrioritization] = useState<PrioritizationConfig>(createDefaultPrioritization)
 
-  const handleRuleCreate = (rule: Rule) => {
-    setRules((prev) => [...prev, rule])
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) for data edits, registered once for the page. Text fields keep
+  // their native undo, including a grid cell being edited.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return
+      const target = e.target as HTMLElement | null
+      if (target && (["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName) || target.isContentEditable)) return
+
+      const key = e.key.toLowerCase()
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault()
+        redo()
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [undo, redo])
+
+  const handleWorkspaceRestore = (workspace: Workspace) => {
+    setRules(workspace.rules, workspace.ruleRevisions)
+    setPrioritization(workspace.prioritization)
+    setValidatorSettings(workspace.validatorSettings)
+    setSuppressions(workspace.suppressions)
+  }
+
+  const handleNavigate = (entityType: EntityType, recordId: string) => {
+    setFocus({ entityType, recordId })
+    setActiveTab(entityType)
   }
 
   const handleDataCorrection = (correction: any) => {
-    console.log("Applying data correction:", correction)
-    // Implement data correction logic here
-    alert(`Data correction applied: ${correction.type}`)
+    if (correction.type !== "standardize" || !correction.examples?.length) {
+      alert(`Data correction not supported yet: ${correction.type}`)
+      return
+    }
+
+    // Rewrite every spelling variant of the value to the first example, as one undoable step
+    const canonical = String(correction.examples[0])
+    const rows: any[] =
+      correction.entityType === "clients" ? clients : correction.entityType === "workers" ? workers : tasks
+    let changed = 0
+
+    batch(`Standardized ${correction.field} to "${canonical}"`, "ai", () => {
+      rows.forEach((row, index) => {
+        const items = toList(row[correction.field])
+        const standardized = items.map((item) => (item.toLowerCase() === canonical.toLowerCase() ? canonical : item))
+        if (standardized.some((item, i) => item !== items[i])) {
+          updateRecord(correction.entityType, index, correction.field, standardized, "ai")
+          changed++
+        }
+      })
+    })
+
+    alert(`✅ Standardized ${correction.field} in ${changed} ${correction.entityType}`)
   }
 
   const getDataCount = (tab: string) => {
@@ -52,6 +146,8 @@ export default function HomePage() {
           <p className="text-lg text-gray-600">AI-Powered Resource Allocation Configurator</p>
         </div>
 
+        <WorkspaceManager prioritization={prioritization} onRestore={handleWorkspaceRestore} />
+
         {/* Navigation Tabs */}
         <div className="flex flex-wrap gap-2 mb-6 justify-center">
           {[
@@ -59,7 +155,12 @@ export default function HomePage() {
             { id: "ai", label: "AI Assistant", icon: Brain },
             { id: "search", label: "AI Search", icon: Search },
             { id: "validation", label: "Validation", icon: Shield },
+            { id: "relationships", label: "Relationships", icon: Network },
             { id: "rules", label: "Rules", icon: Settings },
+            { id: "priorities", label: "Priorities", icon: SlidersHorizontal },
+            { id: "allocation", label: "Allocation", icon: GitBranch },
+            { id: "export", label: "Export", icon: Download },
+            { id: "history", label: "History", icon: History },
             { id: "clients", label: "Clients", icon: Users },
             { id: "workers", label: "Workers", icon: Users },
             { id: "tasks", label: "Tasks", icon: Briefcase },
@@ -69,7 +170,9 @@ export default function HomePage() {
               variant={activeTab === tab.id ? "default" : "outline"}
               onClick={() => setActiveTab(tab.id as any)}
               className="flex items-center gap-2"
-              disabled={tab.id !== "upload" && tab.id !== "rules" && tab.id !== "ai" && !hasData()}
+              disabled={
+                tab.id !== "upload" && tab.id !== "rules" && tab.id !== "ai" && tab.id !== "priorities" && !hasData()
+              }
             >
               <tab.icon className="w-4 h-4" />
               {tab.label}
@@ -78,6 +181,11 @@ export default function HomePage() {
                 tab.id !== "search" &&
                 tab.id !== "rules" &&
                 tab.id !== "ai" &&
+                tab.id !== "priorities" &&
+                tab.id !== "allocation" &&
+                tab.id !== "export" &&
+                tab.id !== "history" &&
+                tab.id !== "relationships" &&
                 hasData() && (
                   <span className="ml-1 px-2 py-0.5 bg-green-100 text-green-800 rounded-full text-xs">
                     {getDataCount(tab.id)}
@@ -88,6 +196,11 @@ export default function HomePage() {
                 tab.id !== "search" &&
                 tab.id !== "rules" &&
                 tab.id !== "ai" &&
+                tab.id !== "priorities" &&
+                tab.id !== "allocation" &&
+                tab.id !== "export" &&
+                tab.id !== "history" &&
+                tab.id !== "relationships" &&
                 getDataCount(tab.id) > 0 && <CheckCircle className="w-3 h-3 text-green-600" />}
             </Button>
           ))}
@@ -113,15 +226,30 @@ export default function HomePage() {
             </Card>
           )}
 
-          {activeTab === "ai" && (
-            <AIAssistant rules={rules} onRuleCreate={handleRuleCreate} onDataCorrection={handleDataCorrection} />
-          )}
+          {activeTab === "ai" && <AIAssistant onDataCorrection={handleDataCorrection} />}
 
           {activeTab === "search" && hasData() && <NaturalLanguageSearch />}
 
           {activeTab === "validation" && hasData() && <ValidationPanel />}
 
-          {activeTab === "rules" && <RuleManagement initialRules={rules} onRulesChange={setRules} />}
+          {activeTab === "relationships" && hasData() && (
+            <div className="space-y-6">
+              <RelationshipView onNavigate={handleNavigate} />
+              <GroupSummary onNavigate={handleNavigate} />
+            </div>
+          )}
+
+          {activeTab === "rules" && (
+            <RuleManagement prioritization={prioritization} onPrioritizationImport={setPrioritization} />
+          )}
+
+          {activeTab === "priorities" && <PrioritizationPanel config={prioritization} onChange={setPrioritization} />}
+
+          {activeTab === "allocation" && hasData() && <AllocationPanel prioritization={prioritization} />}
+
+          {activeTab === "export" && hasData() && <ExportPanel prioritization={prioritization} />}
+
+          {activeTab === "history" && hasData() && <ChangeHistory />}
 
           {activeTab === "clients" && clients.length > 0 && (
             <Card>
@@ -133,7 +261,7 @@ export default function HomePage() {
                 <CardDescription>View and edit client information. Click on any cell to make changes.</CardDescription>
               </CardHeader>
               <CardContent>
-                <DataGrid data={clients} type="clients" />
+                <DataGrid data={clients} type="clients" focus={focus?.entityType === "clients" ? focus : undefined} />
               </CardContent>
             </Card>
           )}
@@ -148,7 +276,7 @@ export default function HomePage() {
                 <CardDescription>View and edit worker information. Click on any cell to make changes.</CardDescription>
               </CardHeader>
               <CardContent>
-                <DataGrid data={workers} type="workers" />
+                <DataGrid data={workers} type="workers" focus={focus?.entityType === "workers" ? focus : undefined} />
               </CardContent>
             </Card>
           )}
@@ -163,7 +291,7 @@ export default function HomePage() {
                 <CardDescription>View and edit task information. Click on any cell to make changes.</CardDescription>
               </CardHeader>
               <CardContent>
-                <DataGrid data={tasks} type="tasks" />
+                <DataGrid data={tasks} type="tasks" focus={focus?.entityType === "tasks" ? focus : undefined} />
               </CardContent>
             </Card>
           )}
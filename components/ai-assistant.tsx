@@ -20,15 +20,15 @@ import {
 import { useDataStore } from "@/lib/store"
 import { AIEngine, type AIRecommendation } from "@/lib/ai-engine"
 import type { Rule } from "@/lib/rule-types"
+import { useRuleStore } from "@/lib/rule-store"
 
 interface AIAssistantProps {
-  rules: Rule[]
-  onRuleCreate: (rule: Rule) => void
   onDataCorrection: (correction: any) => void
 }
 
-export function AIAssistant({ rules, onRuleCreate, onDataCorrection }: AIAssistantProps) {
+export function AIAssistant({ onDataCorrection }: AIAssistantProps) {
   const { clients, workers, tasks } = useDataStore()
+  const { rules, addRule } = useRuleStore()
   const [aiEngine, setAiEngine] = useState<AIEngine | null>(null)
   const [recommendations, setRecommendations] = useState<AIRecommendation[]>([])
   const [isLoading, setIsLoading] = useState(false)
@@ -77,7 +77,7 @@ export function AIAssistant({ rules, onRuleCreate, onDataCorrection }: AIAssista
           ...result.rule,
         } as Rule
 
-        onRuleCreate(rule)
+        addRule(rule)
         setNaturalLanguageInput("")
 
         // Show success message
@@ -117,7 +117,7 @@ export function AIAssistant({ rules, onRuleCreate, onDataCorrection }: AIAssista
             workerGroup: recommendation.suggestedAction.workerId || "Backend",
             maxSlotsPerPhase: recommendation.suggestedAction.suggestedMaxLoad || 3,
           } as Rule
-          onRuleCreate(loadLimitRule)
+          addRule(loadLimitRule)
           break
       }
 
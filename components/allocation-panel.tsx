@@ -0,0 +1,185 @@
+"use client"
+
+import { useState, useMemo } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { GitBranch, Play, AlertTriangle, CheckCircle, XCircle } from "lucide-react"
+import { useDataStore } from "@/lib/store"
+import { AllocationEngine, type AllocationResult } from "@/lib/allocation-engine"
+import { useRuleStore, selectRules } from "@/lib/rule-store"
+import { CapacityHeatmap } from "@/components/capacity-heatmap"
+import type { PrioritizationConfig } from "@/lib/prioritization"
+
+interface AllocationPanelProps {
+  prioritization?: PrioritizationConfig
+}
+
+export function AllocationPanel({ prioritization }: AllocationPanelProps) {
+  const { clients, workers, tasks } = useDataStore()
+  const rules = useRuleStore(selectRules)
+  const [result, setResult] = useState<AllocationResult | null>(null)
+
+  const runAllocation = () => {
+    const engine = new AllocationEngine(clients, workers, tasks, rules, prioritization)
+    setResult(engine.allocate())
+  }
+
+  const assignmentsByPhase = useMemo(() => {
+    if (!result) return []
+
+    return result.phases
+      .map((phase) => ({
+        phase,
+        assignments: result.assignments.filter((assignment) => assignment.phases.includes(phase)),
+      }))
+      .filter((group) => group.assignments.length > 0)
+  }, [result])
+
+  return (
+    <div className="space-y-6">
+      {/* Header & Summary */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <GitBranch className="w-5 h-5" />
+                Allocation
+              </CardTitle>
+              <CardDescription>
+                Assign requested tasks to workers phase by phase, honouring worker capacity and all enabled rules
+              </CardDescription>
+            </div>
+            <Button onClick={runAllocation} disabled={tasks.length === 0 || workers.length === 0}>
+              <Play className="w-4 h-4 mr-2" />
+              {result ? "Re-run Allocation" : "Run Allocation"}
+            </Button>
+          </div>
+        </CardHeader>
+        {result && (
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="text-center p-4 bg-blue-50 rounded-lg">
+                <div className="text-2xl font-bold text-blue-600">{result.summary.totalRequests}</div>
+                <div className="text-sm text-blue-600">Requested</div>
+              </div>
+              <div className="text-center p-4 bg-green-50 rounded-lg">
+                <div className="text-2xl font-bold text-green-600">{result.summary.assigned}</div>
+                <div className="text-sm text-green-600">Assigned</div>
+              </div>
+              <div className="text-center p-4 bg-red-50 rounded-lg">
+                <div className="text-2xl font-bold text-red-600">{result.summary.unassigned}</div>
+                <div className="text-sm text-red-600">Unassignable</div>
+              </div>
+              <div className="text-center p-4 bg-purple-50 rounded-lg">
+                <div className="text-2xl font-bold text-purple-600">
+                  {Math.round(result.summary.utilization * 100)}%
+                </div>
+                <div className="text-sm text-purple-600">Capacity Used</div>
+              </div>
+            </div>
+
+            {result.summary.unassigned === 0 ? (
+              <Alert className="mt-4 bg-green-50 border-green-200">
+                <CheckCircle className="h-4 w-4 text-green-600" />
+                <AlertDescription className="text-green-800">Every requested task was allocated.</AlertDescription>
+              </Alert>
+            ) : (
+              <Alert className="mt-4 bg-yellow-50 border-yellow-200">
+                <AlertTriangle className="h-4 w-4 text-yellow-600" />
+                <AlertDescription className="text-yellow-800">
+                  {result.summary.unassigned} requests could not be allocated. See the reasons below.
+                </AlertDescription>
+              </Alert>
+            )}
+          </CardContent>
+        )}
+      </Card>
+
+      {/* Capacity Heatmap */}
+      <CapacityHeatmap />
+
+      {/* Assignments by Phase */}
+      {result && assignmentsByPhase.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Assignments by Phase</CardTitle>
+            <CardDescription>Multi-phase tasks appear in every phase they occupy</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-6">
+              {assignmentsByPhase.map((group) => (
+                <div key={group.phase}>
+                  <div className="flex items-center gap-2 mb-2">
+                    <Badge variant="default">Phase {group.phase}</Badge>
+                    <span className="text-sm text-gray-600">{group.assignments.length} assignments</span>
+                  </div>
+                  <div className="border rounded-lg overflow-hidden">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Task</TableHead>
+                          <TableHead>Client</TableHead>
+                          <TableHead>Worker</TableHead>
+                          <TableHead>Phases</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {group.assignments.map((assignment) => (
+                          <TableRow key={assignment.id}>
+                            <TableCell className="text-xs">
+                              <span className="font-medium">{assignment.taskId}</span> {assignment.taskName}
+                            </TableCell>
+                            <TableCell className="text-xs">{assignment.clientId || "—"}</TableCell>
+                            <TableCell className="text-xs">
+                              <span className="font-medium">{assignment.workerId}</span> {assignment.workerName}
+                            </TableCell>
+                            <TableCell className="text-xs">{assignment.phases.join(", ")}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Unassignable Tasks */}
+      {result && result.unassigned.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <XCircle className="w-5 h-5 text-red-600" />
+              Unassignable Tasks
+            </CardTitle>
+            <CardDescription>Requests the solver could not place, with the constraint that blocked them</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3 max-h-96 overflow-y-auto">
+              {result.unassigned.map((item, index) => (
+                <div key={`${item.taskId}-${item.clientId}-${index}`} className="p-3 rounded-lg border bg-red-50">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="font-medium text-sm">{item.taskId}</span>
+                    <span className="text-sm text-gray-600">{item.taskName}</span>
+                    {item.clientId && (
+                      <Badge variant="outline" className="text-xs">
+                        {item.clientId}
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="text-sm text-red-800">{item.reason}</div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,202 @@
+"use client"
+
+import { useState, useMemo } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import { LayoutGrid } from "lucide-react"
+import { useDataStore } from "@/lib/store"
+import { CapacityModel } from "@/lib/capacity-model"
+
+interface HeatmapRow {
+  label: string
+  cells: { phase: number; supply: number; demand?: number }[]
+}
+
+const formatAmount = (value: number) => String(Math.round(value * 10) / 10)
+
+// Green below 70% use, amber up to full, red once demand exceeds supply
+const getUtilizationColor = (demand: number, supply: number) => {
+  if (demand === 0) return "bg-gray-50 text-gray-400"
+  if (supply === 0) return "bg-red-600 text-white"
+
+  const utilization = demand / supply
+  if (utilization > 1.2) return "bg-red-500 text-white"
+  if (utilization > 1) return "bg-red-300 text-red-900"
+  if (utilization > 0.7) return "bg-yellow-200 text-yellow-900"
+  if (utilization > 0.4) return "bg-green-200 text-green-900"
+  return "bg-green-50 text-green-800"
+}
+
+// Groups have no demand of their own, so their cells shade by share of the busiest group-phase
+const getSupplyColor = (supply: number, max: number) => {
+  if (supply === 0) return "bg-gray-50 text-gray-400"
+  const share = supply / max
+  if (share > 0.75) return "bg-blue-500 text-white"
+  if (share > 0.5) return "bg-blue-300 text-blue-900"
+  if (share > 0.25) return "bg-blue-200 text-blue-900"
+  return "bg-blue-50 text-blue-800"
+}
+
+export function CapacityHeatmap() {
+  const { workers, tasks } = useDataStore()
+  const [view, setView] = useState<"skills" | "groups">("skills")
+
+  const model = useMemo(() => new CapacityModel(workers, tasks), [workers, tasks])
+
+  const rows = useMemo((): HeatmapRow[] => {
+    const phases = model.getPhases()
+    const total: HeatmapRow = {
+      label: "All workers",
+      cells: phases.map((capacity) => ({ phase: capacity.phase, supply: capacity.supply, demand: capacity.demand })),
+    }
+
+    if (view === "groups") {
+      return [
+        total,
+        ...model.getGroups().map((group) => ({
+          label: group,
+          cells: phases.map((capacity) => ({ phase: capacity.phase, supply: capacity.supplyByGroup[group] || 0 })),
+        })),
+      ]
+    }
+
+    return [
+      total,
+      ...model.getSkills().map((skill) => ({
+        label: skill,
+        cells: phases.map((capacity) => ({
+          phase: capacity.phase,
+          supply: capacity.supplyBySkill[skill] || 0,
+          demand: capacity.demandBySkill[skill] || 0,
+        })),
+      })),
+    ]
+  }, [model, view])
+
+  const maxGroupSupply = useMemo(
+    () => Math.max(1, ...rows.slice(1).map((row) => Math.max(0, ...row.cells.map((cell) => cell.supply)))),
+    [rows],
+  )
+
+  if (model.phases.length === 0) return null
+
+  const totals = model.getTotals()
+  const shortfalls = model.getSkillShortfalls()
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <LayoutGrid className="w-5 h-5" />
+              Capacity by Phase
+            </CardTitle>
+            <CardDescription>
+              Task slots needed against worker slots available in each phase. Multi-phase tasks are spread over the
+              consecutive phases they can run in.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant={view === "skills" ? "default" : "outline"} onClick={() => setView("skills")}>
+              By skill
+            </Button>
+            <Button size="sm" variant={view === "groups" ? "default" : "outline"} onClick={() => setView("groups")}>
+              By worker group
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap gap-2 mb-4">
+          <Badge variant="outline">
+            {formatAmount(totals.demand)} / {formatAmount(totals.supply)} slots overall
+          </Badge>
+          {shortfalls.length > 0 && (
+            <Badge variant="outline" className="bg-red-50 text-red-700">
+              {shortfalls.length} skill shortfalls
+            </Badge>
+          )}
+          {model.unplaceableTasks.length > 0 && (
+            <Badge variant="outline" className="bg-yellow-50 text-yellow-700">
+              {model.unplaceableTasks.length} tasks don't fit their phases
+            </Badge>
+          )}
+        </div>
+
+        <TooltipProvider>
+          <div className="overflow-x-auto max-h-[28rem] overflow-y-auto border rounded-lg">
+            <table className="w-full text-xs border-collapse">
+              <thead className="sticky top-0 bg-white">
+                <tr>
+                  <th className="text-left p-2 font-medium text-gray-600">{view === "skills" ? "Skill" : "Group"}</th>
+                  {model.phases.map((phase) => (
+                    <th key={phase} className="p-2 font-medium text-gray-600 text-center">
+                      P{phase}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, rowIndex) => (
+                  <tr key={row.label} className={rowIndex === 0 ? "border-b-2" : "border-b"}>
+                    <td className={`p-2 whitespace-nowrap ${rowIndex === 0 ? "font-semibold" : ""}`}>{row.label}</td>
+                    {row.cells.map((cell) => (
+                      <td key={cell.phase} className="p-0.5">
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <div
+                              className={`rounded px-1 py-1.5 text-center cursor-default ${
+                                cell.demand === undefined
+                                  ? getSupplyColor(cell.supply, maxGroupSupply)
+                                  : getUtilizationColor(cell.demand, cell.supply)
+                              }`}
+                            >
+                              {cell.demand === undefined
+                                ? formatAmount(cell.supply)
+                                : `${formatAmount(cell.demand)}/${formatAmount(cell.supply)}`}
+                            </div>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            <div className="text-xs">
+                              <div className="font-medium">
+                                {row.label}, phase {cell.phase}
+                              </div>
+                              {cell.demand !== undefined && <div>Needed: {formatAmount(cell.demand)} slots</div>}
+                              <div>Available: {formatAmount(cell.supply)} slots</div>
+                            </div>
+                          </TooltipContent>
+                        </Tooltip>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </TooltipProvider>
+
+        <div className="flex flex-wrap items-center gap-3 mt-3 text-xs text-gray-600">
+          {view === "skills" ? (
+            <>
+              <span className="flex items-center gap-1">
+                <span className="w-3 h-3 rounded bg-green-200" /> under 70%
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="w-3 h-3 rounded bg-yellow-200" /> 70-100%
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="w-3 h-3 rounded bg-red-300" /> over capacity
+              </span>
+              <span>Cells show needed / available slots</span>
+            </>
+          ) : (
+            <span>Cells show the slots each group offers; the first row compares them with what tasks need</span>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
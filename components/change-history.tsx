@@ -0,0 +1,126 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { History, Undo2, Redo2, Trash2 } from "lucide-react"
+import { useDataStore, type ChangeSource, type HistoryStep } from "@/lib/store"
+
+const SOURCE_LABELS: Record<ChangeSource, string> = {
+  manual: "Manual edit",
+  "auto-fix": "Auto-fix",
+  ai: "AI correction",
+  import: "Import",
+}
+
+export function ChangeHistory() {
+  const { past, future, undo, redo, clearHistory } = useDataStore()
+
+  const getSourceColor = (source: ChangeSource) => {
+    switch (source) {
+      case "manual":
+        return "bg-blue-100 text-blue-800"
+      case "auto-fix":
+        return "bg-green-100 text-green-800"
+      case "ai":
+        return "bg-purple-100 text-purple-800"
+      default:
+        return "bg-gray-100 text-gray-800"
+    }
+  }
+
+  const formatValue = (value: any) => {
+    if (value === null || value === undefined || value === "") return <span className="text-gray-400">empty</span>
+    if (Array.isArray(value)) return value.join(", ")
+    if (typeof value === "object") return JSON.stringify(value)
+    return String(value)
+  }
+
+  const renderStep = (step: HistoryStep, undone: boolean) => (
+    <div key={step.id} className={`p-3 border rounded-lg space-y-2 ${undone ? "opacity-50 bg-gray-50" : "bg-white"}`}>
+      <div className="flex items-center gap-2">
+        <span className="font-medium text-sm flex-1">{step.label}</span>
+        {undone && <Badge variant="outline">undone</Badge>}
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getSourceColor(step.source)}`}>
+          {SOURCE_LABELS[step.source]}
+        </span>
+        <span className="text-xs text-gray-500">{step.timestamp.toLocaleTimeString()}</span>
+      </div>
+
+      {step.changes.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="h-8 text-xs">Entity</TableHead>
+              <TableHead className="h-8 text-xs">Record</TableHead>
+              <TableHead className="h-8 text-xs">Field</TableHead>
+              <TableHead className="h-8 text-xs">Old Value</TableHead>
+              <TableHead className="h-8 text-xs">New Value</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {step.changes.map((change, index) => (
+              <TableRow key={index}>
+                <TableCell className="py-1 text-xs capitalize">{change.entityType}</TableCell>
+                <TableCell className="py-1 text-xs font-medium">{change.recordId}</TableCell>
+                <TableCell className="py-1 text-xs">{change.field}</TableCell>
+                <TableCell className="py-1 text-xs text-red-700 max-w-0 truncate">
+                  {formatValue(change.oldValue)}
+                </TableCell>
+                <TableCell className="py-1 text-xs text-green-700 max-w-0 truncate">
+                  {formatValue(change.newValue)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <History className="w-5 h-5" />
+              Change History
+            </CardTitle>
+            <CardDescription>Every edit, auto-fix and AI correction, newest first</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={undo} disabled={past.length === 0}>
+              <Undo2 className="w-4 h-4 mr-2" />
+              Undo
+            </Button>
+            <Button size="sm" variant="outline" onClick={redo} disabled={future.length === 0}>
+              <Redo2 className="w-4 h-4 mr-2" />
+              Redo
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={clearHistory}
+              disabled={past.length === 0 && future.length === 0}
+              className="text-gray-500 hover:text-red-600"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {past.length === 0 && future.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">No changes yet</div>
+        ) : (
+          <div className="space-y-3 max-h-[32rem] overflow-y-auto">
+            {[...future].reverse().map((step) => renderStep(step, true))}
+            {[...past].reverse().map((step) => renderStep(step, false))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
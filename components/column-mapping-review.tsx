@@ -0,0 +1,172 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Columns, Sparkles, RefreshCw, CheckCircle, AlertTriangle } from "lucide-react"
+import { HeaderMapper, type HeaderMapping } from "@/lib/header-mapper"
+import { AIEngine } from "@/lib/ai-engine"
+
+interface ColumnMappingReviewProps {
+  fileName: string
+  entityType: "clients" | "workers" | "tasks"
+  headers: string[]
+  sampleRows: any[]
+  initialMapping: HeaderMapping
+  confidence: Record<string, number>
+  onConfirm: (mapping: HeaderMapping) => void
+  onCancel: () => void
+}
+
+// Radix Select cannot use an empty string as an item value
+const KEEP_ORIGINAL = "__keep__"
+
+export function ColumnMappingReview({
+  fileName,
+  entityType,
+  headers,
+  sampleRows,
+  initialMapping,
+  confidence,
+  onConfirm,
+  onCancel,
+}: ColumnMappingReviewProps) {
+  const [mapping, setMapping] = useState<HeaderMapping>(initialMapping)
+  const [isSuggesting, setIsSuggesting] = useState(false)
+  const [aiExplanation, setAiExplanation] = useState<string | null>(null)
+
+  const fields = HeaderMapper.getCanonicalFields(entityType)
+  const missingFields = HeaderMapper.getMissingFields(mapping, entityType)
+  const duplicateTargets = fields.filter((field) => Object.values(mapping).filter((v) => v === field).length > 1)
+
+  const setFieldFor = (header: string, value: string) => {
+    setMapping((prev) => ({ ...prev, [header]: value === KEEP_ORIGINAL ? null : value }))
+  }
+
+  const handleAISuggest = async () => {
+    setIsSuggesting(true)
+    try {
+      const engine = new AIEngine([], [], [])
+      const result = await engine.suggestHeaderMapping(headers, entityType, sampleRows)
+
+      if (result.success && result.mapping) {
+        setMapping(result.mapping)
+        setAiExplanation(result.explanation)
+      } else {
+        setAiExplanation(`❌ ${result.explanation}`)
+      }
+    } finally {
+      setIsSuggesting(false)
+    }
+  }
+
+  const getConfidenceBadge = (header: string) => {
+    if (mapping[header] !== initialMapping[header]) {
+      return <Badge variant="outline">edited</Badge>
+    }
+
+    const score = confidence[header] || 0
+    if (score >= 0.9) return <Badge className="bg-green-100 text-green-800">{Math.round(score * 100)}%</Badge>
+    if (score >= 0.6) return <Badge className="bg-yellow-100 text-yellow-800">{Math.round(score * 100)}%</Badge>
+    return <Badge variant="secondary">no match</Badge>
+  }
+
+  return (
+    <Card className="border-blue-200">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Columns className="w-5 h-5" />
+              Review Column Mapping
+            </CardTitle>
+            <CardDescription>
+              {fileName} → <span className="capitalize">{entityType}</span>. Confirm how each column maps to the
+              canonical schema.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleAISuggest} disabled={isSuggesting}>
+            {isSuggesting ? <RefreshCw className="w-4 h-4 mr-2 animate-spin" /> : <Sparkles className="w-4 h-4 mr-2" />}
+            Suggest with AI
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {aiExplanation && <div className="text-sm text-purple-700 bg-purple-50 p-2 rounded">{aiExplanation}</div>}
+
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Source Column</TableHead>
+                  <TableHead>Sample</TableHead>
+                  <TableHead>Maps To</TableHead>
+                  <TableHead className="w-24">Match</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {headers.map((header) => (
+                  <TableRow key={header}>
+                    <TableCell className="text-xs font-medium">{header}</TableCell>
+                    <TableCell className="text-xs text-gray-500 max-w-0 truncate">
+                      {sampleRows[0] ? String(sampleRows[0][header] ?? "") : ""}
+                    </TableCell>
+                    <TableCell>
+                      <Select value={mapping[header] || KEEP_ORIGINAL} onValueChange={(v) => setFieldFor(header, v)}>
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={KEEP_ORIGINAL}>Keep as "{header}"</SelectItem>
+                          {fields.map((field) => (
+                            <SelectItem key={field} value={field}>
+                              {field}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>{getConfidenceBadge(header)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          {duplicateTargets.length > 0 && (
+            <Alert className="bg-red-50 border-red-200">
+              <AlertTriangle className="h-4 w-4 text-red-600" />
+              <AlertDescription className="text-red-800">
+                Several columns map to {duplicateTargets.join(", ")}. Each field can only be used once.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {missingFields.length > 0 && (
+            <Alert className="bg-yellow-50 border-yellow-200">
+              <AlertTriangle className="h-4 w-4 text-yellow-600" />
+              <AlertDescription className="text-yellow-800">
+                No column mapped to: {missingFields.join(", ")}. Validation will flag these as missing.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="flex gap-2">
+            <Button onClick={() => onConfirm(mapping)} disabled={duplicateTargets.length > 0}>
+              <CheckCircle className="w-4 h-4 mr-2" />
+              Confirm Mapping
+            </Button>
+            <Button variant="outline" onClick={onCancel}>
+              Skip File
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
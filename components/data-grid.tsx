@@ -1,33 +1,33 @@
 "use client"
 
-import { useState, useMemo, useEffect } from "react"
+import { useState, useMemo, useEffect, useRef } from "react"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { Search, Edit2, Save, X, AlertTriangle } from "lucide-react"
+import { Search, Edit2, Save, X, AlertTriangle, Undo2, Redo2 } from "lucide-react"
 import { useDataStore } from "@/lib/store"
-import { ValidationEngine, type ValidationError } from "@/lib/validation-engine"
+import { getRecordKeys } from "@/lib/schemas"
+import type { ValidationError } from "@/lib/validation-engine"
+import { useValidation } from "@/lib/validation-store"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 
 interface DataGridProps {
   data: any[]
   type: "clients" | "workers" | "tasks"
+  // Scrolls to and highlights this record; pass a new object to jump again
+  focus?: { recordId: string }
 }
 
-export function DataGrid({ data, type }: DataGridProps) {
+export function DataGrid({ data, type, focus }: DataGridProps) {
   const [searchTerm, setSearchTerm] = useState("")
+  const [highlighted, setHighlighted] = useState<string | null>(null)
+  const tableRef = useRef<HTMLDivElement>(null)
   const [editingCell, setEditingCell] = useState<{ row: number; col: string } | null>(null)
   const [editValue, setEditValue] = useState("")
-  const [validationErrors, setValidationErrors] = useState<ValidationError[]>([])
-  const { updateRecord, clients, workers, tasks } = useDataStore()
-
-  // Run validation when data changes
-  useEffect(() => {
-    const engine = new ValidationEngine(clients, workers, tasks)
-    const result = engine.validateAll()
-    setValidationErrors([...result.errors, ...result.warnings])
-  }, [clients, workers, tasks, data])
+  const { updateRecord, undo, redo, past, future } = useDataStore()
+  const { index } = useValidation()
+  const issueCounts = index.getCounts(type)
 
   // Filter data based on search term
   const filteredData = useMemo(() => {
@@ -38,6 +38,31 @@ export function DataGrid({ data, type }: DataGridProps) {
     )
   }, [data, searchTerm])
 
+  // Position and record key of each row in the full dataset, so filtered rows map back without a scan per cell
+  const rowPositions = useMemo(() => new Map(data.map((row, index) => [row, index])), [data])
+  const recordKeys = useMemo(() => {
+    const keys = getRecordKeys(type, data)
+    return new Map(data.map((row, index) => [row, keys[index]]))
+  }, [data, type])
+
+  // Jumping to a record clears the search so the row is guaranteed to be visible
+  useEffect(() => {
+    if (!focus) return
+    setSearchTerm("")
+    setHighlighted(focus.recordId)
+  }, [focus])
+
+  useEffect(() => {
+    if (!highlighted) return
+    const rows = tableRef.current?.querySelectorAll<HTMLElement>("[data-record-key]") || []
+    for (let i = 0; i < rows.length; i++) {
+      if (rows[i].dataset.recordKey === highlighted) {
+        rows[i].scrollIntoView({ block: "center" })
+        break
+      }
+    }
+  }, [highlighted, filteredData])
+
   // Get column headers
   const columns = useMemo(() => {
     if (data.length === 0) return []
@@ -52,7 +77,7 @@ export function DataGrid({ data, type }: DataGridProps) {
   const saveEdit = () => {
     if (!editingCell) return
 
-    const actualRowIndex = data.findIndex((row) => row === filteredData[editingCell.row])
+    const actualRowIndex = rowPositions.get(filteredData[editingCell.row]) ?? -1
     if (actualRowIndex !== -1) {
       updateRecord(type, actualRowIndex, editingCell.col, editValue)
     }
@@ -68,10 +93,8 @@ export function DataGrid({ data, type }: DataGridProps) {
 
   // Check if a cell has validation errors
   const getCellErrors = (rowIndex: number, column: string) => {
-    const actualRowIndex = data.findIndex((row) => row === filteredData[rowIndex])
-    return validationErrors.filter(
-      (error) => error.entityType === type && error.rowIndex === actualRowIndex && error.field === column,
-    )
+    const recordKey = recordKeys.get(filteredData[rowIndex])
+    return recordKey === undefined ? [] : index.getCellErrors(type, recordKey, column)
   }
 
   // Enhanced cell styling with better visual feedback
@@ -184,18 +207,25 @@ export function DataGrid({ data, type }: DataGridProps) {
         <div className="text-sm text-gray-500">
           Showing {filteredData.length} of {data.length} records
         </div>
-        {validationErrors.filter((e) => e.entityType === type).length > 0 && (
+        <div className="flex items-center gap-1 ml-auto">
+          <Button size="sm" variant="outline" onClick={undo} disabled={past.length === 0} title="Undo (Ctrl+Z)">
+            <Undo2 className="w-4 h-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={redo} disabled={future.length === 0} title="Redo (Ctrl+Shift+Z)">
+            <Redo2 className="w-4 h-4" />
+          </Button>
+        </div>
+        {issueCounts.errors + issueCounts.warnings > 0 && (
           <div className="flex items-center gap-1 text-sm text-red-600">
             <AlertTriangle className="w-4 h-4" />
-            {validationErrors.filter((e) => e.entityType === type && e.type === "error").length} errors,{" "}
-            {validationErrors.filter((e) => e.entityType === type && e.type === "warning").length} warnings
+            {issueCounts.errors} errors, {issueCounts.warnings} warnings
           </div>
         )}
       </div>
 
       {/* Table */}
       <div className="border rounded-lg overflow-hidden">
-        <div className="overflow-x-auto max-h-96">
+        <div className="overflow-x-auto max-h-96" ref={tableRef}>
           <Table>
             <TableHeader className="sticky top-0 bg-white z-10">
               <TableRow>
@@ -209,7 +239,15 @@ export function DataGrid({ data, type }: DataGridProps) {
             </TableHeader>
             <TableBody>
               {filteredData.map((row, rowIndex) => (
-                <TableRow key={rowIndex} className="hover:bg-gray-50">
+                <TableRow
+                  key={rowIndex}
+                  data-record-key={recordKeys.get(row)}
+                  className={
+                    highlighted && recordKeys.get(row) === highlighted
+                      ? "bg-blue-50 outline outline-2 outline-blue-400"
+                      : "hover:bg-gray-50"
+                  }
+                >
                   {columns.map((column) => {
                     const cellErrors = getCellErrors(rowIndex, column)
                     return (
@@ -0,0 +1,63 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Layers, CheckCircle } from "lucide-react"
+import type { ResolvedRules } from "@/lib/rule-precedence"
+
+interface EffectiveRulesProps {
+  resolved: ResolvedRules
+}
+
+export function EffectiveRules({ resolved }: EffectiveRulesProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="w-5 h-5" />
+          Effective Rules
+        </CardTitle>
+        <CardDescription>
+          Which rule wins where several constrain the same task or group. Precedence rules decide first, then priority.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap gap-2 mb-4">
+          <Badge variant="outline">{resolved.effective.length} constraints in effect</Badge>
+          <Badge variant="outline">{resolved.contested.length} contested targets</Badge>
+        </div>
+
+        {resolved.contested.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-green-700">
+            <CheckCircle className="w-4 h-4" />
+            No two rules constrain the same task or group, so every enabled rule applies.
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {resolved.contested.map((contested) => (
+              <div key={contested.target.key} className="p-3 border rounded-lg">
+                <div className="font-medium text-sm mb-2">{contested.target.label}</div>
+                <div className="space-y-1 text-sm">
+                  {contested.winners.map((rule) => (
+                    <div key={rule.id} className="flex items-center gap-2">
+                      <Badge className="bg-green-100 text-green-800">Applies</Badge>
+                      <span>{rule.name}</span>
+                      <span className="text-xs text-gray-500">Priority {rule.priority}</span>
+                    </div>
+                  ))}
+                  {contested.shadowed.map((resolution) => (
+                    <div key={resolution.rule.id} className="flex items-center gap-2 text-gray-600">
+                      <Badge variant="secondary">Shadowed</Badge>
+                      <span className="line-through">{resolution.rule.name}</span>
+                      <span className="text-xs text-gray-500">{resolution.reason}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
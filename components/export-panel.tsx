@@ -0,0 +1,173 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Download, PackageOpen, FileSpreadsheet, FileText, CheckCircle, XCircle, RefreshCw } from "lucide-react"
+import { useDataStore } from "@/lib/store"
+import { useValidation } from "@/lib/validation-store"
+import { DataExporter } from "@/lib/data-exporter"
+import type { EntityType } from "@/lib/schemas"
+import { useRuleStore, selectRules } from "@/lib/rule-store"
+import { useSuppressionStore, selectSuppressions } from "@/lib/suppression-store"
+import type { PrioritizationConfig } from "@/lib/prioritization"
+
+interface ExportPanelProps {
+  prioritization?: PrioritizationConfig
+}
+
+export function ExportPanel({ prioritization }: ExportPanelProps) {
+  const { clients, workers, tasks } = useDataStore()
+  const rules = useRuleStore(selectRules)
+  const suppressions = useSuppressionStore(selectSuppressions)
+  const { result: validationResult } = useValidation()
+  const [exportAnyway, setExportAnyway] = useState(false)
+  const [isBundling, setIsBundling] = useState(false)
+
+  // Until the first run finishes we don't know the data is clean, so exports stay blocked
+  const blocked = !validationResult?.isValid && !exportAnyway
+
+  const entities: { type: EntityType; data: any[] }[] = [
+    { type: "clients", data: clients },
+    { type: "workers", data: workers },
+    { type: "tasks", data: tasks },
+  ]
+
+  const exportCSV = (type: EntityType, data: any[]) => {
+    DataExporter.download(DataExporter.toCSV(type, data), `${type}.csv`, "text/csv")
+  }
+
+  const exportXLSX = (type: EntityType, data: any[]) => {
+    DataExporter.download(DataExporter.toXLSX(type, data), `${type}.xlsx`)
+  }
+
+  const exportWorkbook = () => {
+    DataExporter.download(DataExporter.toWorkbookXLSX({ clients, workers, tasks }), "data-alchemist.xlsx")
+  }
+
+  const exportEverything = async () => {
+    setIsBundling(true)
+    try {
+      const bundle = await DataExporter.createBundle({
+        clients,
+        workers,
+        tasks,
+        rules,
+        prioritization,
+        suppressions,
+        suppressedIssues: validationResult?.suppressed,
+      })
+      DataExporter.download(bundle, `data-alchemist-export-${Date.now()}.zip`)
+    } catch (error) {
+      alert(`❌ Export failed: ${error instanceof Error ? error.message : "Unknown error"}`)
+    } finally {
+      setIsBundling(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Bundle Export */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <PackageOpen className="w-5 h-5" />
+                Export Everything
+              </CardTitle>
+              <CardDescription>
+                Download clients.csv, workers.csv, tasks.csv and rules.json together as a single zip (plus
+                suppressions.json when issues were acknowledged or suppressed), or all three entities as sheets of one
+                XLSX workbook
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={exportWorkbook} disabled={blocked}>
+                <FileSpreadsheet className="w-4 h-4 mr-2" />
+                Single Workbook
+              </Button>
+              <Button onClick={exportEverything} disabled={blocked || isBundling}>
+                <Download className="w-4 h-4 mr-2" />
+                {isBundling ? "Bundling..." : "Export All"}
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!validationResult ? (
+            <Alert>
+              <RefreshCw className="h-4 w-4 animate-spin" />
+              <AlertDescription>Validating data before export...</AlertDescription>
+            </Alert>
+          ) : validationResult.isValid ? (
+            <Alert className="bg-green-50 border-green-200">
+              <CheckCircle className="h-4 w-4 text-green-600" />
+              <AlertDescription className="text-green-800">
+                All validation checks passed. Your data is ready for export.
+                {validationResult.suppressed.length > 0 &&
+                  ` ${validationResult.suppressed.length} acknowledged or suppressed issues are recorded in suppressions.json.`}
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <div className="space-y-3">
+              <Alert className="bg-red-50 border-red-200">
+                <XCircle className="h-4 w-4 text-red-600" />
+                <AlertDescription className="text-red-800">
+                  Validation found {validationResult.summary.totalErrors} errors. Fix them in the Validation tab before
+                  exporting, or export anyway if downstream tools can cope.
+                </AlertDescription>
+              </Alert>
+              <div className="flex items-center space-x-2">
+                <Switch id="export-anyway" checked={exportAnyway} onCheckedChange={setExportAnyway} />
+                <Label htmlFor="export-anyway">Export anyway despite validation errors</Label>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Per-entity Export */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5" />
+            Individual Files
+          </CardTitle>
+          <CardDescription>Export each cleaned entity in canonical column order as CSV or XLSX</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {entities.map((entity) => (
+              <div key={entity.type} className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg">
+                <FileText className="w-4 h-4 text-gray-500" />
+                <span className="flex-1 font-medium text-sm capitalize">{entity.type}</span>
+                <Badge variant="outline">{entity.data.length} records</Badge>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => exportCSV(entity.type, entity.data)}
+                  disabled={blocked || entity.data.length === 0}
+                >
+                  CSV
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => exportXLSX(entity.type, entity.data)}
+                  disabled={blocked || entity.data.length === 0}
+                >
+                  XLSX
+                </Button>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -6,16 +6,25 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { Progress } from "@/components/ui/progress"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { Upload, FileSpreadsheet, CheckCircle, AlertCircle, X } from "lucide-react"
-import { parseCSV, parseXLSX } from "@/lib/file-parser"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Upload, FileSpreadsheet, CheckCircle, AlertCircle, AlertTriangle, X } from "lucide-react"
+import { parseFile } from "@/lib/file-parser"
+import { EntityDetector, type EntityDetection } from "@/lib/entity-detector"
 import { useDataStore } from "@/lib/store"
+import { HeaderMapper, type HeaderMapping, type MappingProposal } from "@/lib/header-mapper"
+import { ColumnMappingReview } from "@/components/column-mapping-review"
 
 interface UploadedFile {
   file: File
   type: "clients" | "workers" | "tasks" | "unknown"
-  status: "pending" | "processing" | "success" | "error"
+  status: "analyzing" | "pending" | "processing" | "mapping" | "success" | "error"
   error?: string
   recordCount?: number
+  data?: any[]
+  headers?: string[]
+  proposal?: MappingProposal
+  detection?: EntityDetection
+  sheetName?: string
 }
 
 export function FileUploader() {
@@ -23,22 +32,80 @@ export function FileUploader() {
   const [isProcessing, setIsProcessing] = useState(false)
   const { setClients, setWorkers, setTasks } = useDataStore()
 
-  const detectFileType = (filename: string): "clients" | "workers" | "tasks" | "unknown" => {
-    const name = filename.toLowerCase()
-    if (name.includes("client")) return "clients"
-    if (name.includes("worker")) return "workers"
-    if (name.includes("task")) return "tasks"
-    return "unknown"
+  const storeData = (type: UploadedFile["type"], data: any[]) => {
+    switch (type) {
+      case "clients":
+        setClients(data)
+        break
+      case "workers":
+        setWorkers(data)
+        break
+      case "tasks":
+        setTasks(data)
+        break
+    }
+  }
+
+  const getHeaders = (data: any[]): string[] => {
+    const headers: string[] = []
+    data.forEach((row) => {
+      Object.keys(row).forEach((key) => {
+        if (!headers.includes(key)) headers.push(key)
+      })
+    })
+    return headers
   }
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     const newFiles: UploadedFile[] = acceptedFiles.map((file) => ({
       file,
-      type: detectFileType(file.name),
-      status: "pending",
+      type: EntityDetector.detectFromFilename(file.name),
+      status: "analyzing",
     }))
 
     setUploadedFiles((prev) => [...prev, ...newFiles])
+
+    // Parse straight away so the type can be detected from content and reviewed before processing
+    acceptedFiles.forEach(async (file) => {
+      try {
+        const sheets = await parseFile(file)
+        const isWorkbook = !file.name.toLowerCase().endsWith(".csv")
+
+        // A workbook expands into one entry per sheet so each can be loaded into its own slice
+        const entries: UploadedFile[] = sheets.map((sheet) => {
+          // Sheet names like "Clients" are a better hint than the workbook's filename
+          const nameHint =
+            isWorkbook && EntityDetector.detectFromFilename(sheet.name) !== "unknown" ? sheet.name : file.name
+          const detection = EntityDetector.detect(sheet.data, nameHint)
+          return {
+            file,
+            type: detection.type,
+            status: "pending",
+            data: sheet.data,
+            recordCount: sheet.data.length,
+            detection,
+            sheetName: isWorkbook ? sheet.name : undefined,
+          }
+        })
+
+        setUploadedFiles((prev) =>
+          prev.reduce<UploadedFile[]>((acc, f) => {
+            if (f.file !== file) return [...acc, f]
+            return entries.length > 0
+              ? [...acc, ...entries]
+              : [...acc, { ...f, status: "error", error: "File contains no data rows" }]
+          }, []),
+        )
+      } catch (error) {
+        setUploadedFiles((prev) =>
+          prev.map((f) =>
+            f.file === file
+              ? { ...f, status: "error", error: error instanceof Error ? error.message : "Unknown error" }
+              : f,
+          ),
+        )
+      }
+    })
   }, [])
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
@@ -57,36 +124,31 @@ export function FileUploader() {
     for (let i = 0; i < uploadedFiles.length; i++) {
       const uploadedFile = uploadedFiles[i]
 
-      if (uploadedFile.status !== "pending") continue
+      // Files without a type stay pending until the user picks one
+      if (uploadedFile.status !== "pending" || uploadedFile.type === "unknown") continue
 
       // Update status to processing
       setUploadedFiles((prev) => prev.map((f, idx) => (idx === i ? { ...f, status: "processing" } : f)))
 
       try {
-        let data: any[] = []
+        const data = uploadedFile.data || []
 
-        if (uploadedFile.file.name.endsWith(".csv")) {
-          data = await parseCSV(uploadedFile.file)
-        } else if (uploadedFile.file.name.endsWith(".xlsx") || uploadedFile.file.name.endsWith(".xls")) {
-          data = await parseXLSX(uploadedFile.file)
-        }
+        // Propose a header mapping; exact and previously confirmed mappings skip the review step
+        const headers = getHeaders(data)
+        const proposal = HeaderMapper.proposeMapping(headers, uploadedFile.type)
 
-        // Store data based on type
-        switch (uploadedFile.type) {
-          case "clients":
-            setClients(data)
-            break
-          case "workers":
-            setWorkers(data)
-            break
-          case "tasks":
-            setTasks(data)
-            break
+        if (proposal.source === "heuristic") {
+          setUploadedFiles((prev) =>
+            prev.map((f, idx) => (idx === i ? { ...f, status: "mapping", data, headers, proposal } : f)),
+          )
+          continue
         }
 
+        storeData(uploadedFile.type, HeaderMapper.applyMapping(data, proposal.mapping))
+
         // Update status to success
         setUploadedFiles((prev) =>
-          prev.map((f, idx) => (idx === i ? { ...f, status: "success", recordCount: data.length } : f)),
+          prev.map((f, idx) => (idx === i ? { ...f, status: "success", recordCount: data.length, proposal } : f)),
         )
       } catch (error) {
         // Update status to error
@@ -107,6 +169,42 @@ export function FileUploader() {
     setIsProcessing(false)
   }
 
+  const confirmMapping = (index: number, mapping: HeaderMapping) => {
+    const uploadedFile = uploadedFiles[index]
+    if (!uploadedFile?.data || !uploadedFile.headers || uploadedFile.type === "unknown") return
+
+    HeaderMapper.saveMapping(uploadedFile.headers, uploadedFile.type, mapping)
+    storeData(uploadedFile.type, HeaderMapper.applyMapping(uploadedFile.data, mapping))
+
+    setUploadedFiles((prev) =>
+      prev.map((f, idx) =>
+        idx === index ? { ...f, status: "success", recordCount: uploadedFile.data!.length, data: undefined } : f,
+      ),
+    )
+  }
+
+  const skipMapping = (index: number) => {
+    setUploadedFiles((prev) =>
+      prev.map((f, idx) =>
+        idx === index
+          ? { ...f, status: "error", error: "Skipped: column mapping was not confirmed", data: undefined }
+          : f,
+      ),
+    )
+  }
+
+  const getDisplayName = (uploadedFile: UploadedFile) =>
+    uploadedFile.sheetName ? `${uploadedFile.file.name} › ${uploadedFile.sheetName}` : uploadedFile.file.name
+
+  // Slices that more than one pending file or sheet would load into; the last one processed wins
+  const contestedTypes = ["clients", "workers", "tasks"].filter(
+    (type) => uploadedFiles.filter((f) => f.status === "pending" && f.type === type).length > 1,
+  )
+
+  const overrideType = (index: number, type: UploadedFile["type"]) => {
+    setUploadedFiles((prev) => prev.map((f, idx) => (idx === index ? { ...f, type } : f)))
+  }
+
   const removeFile = (index: number) => {
     setUploadedFiles((prev) => prev.filter((_, i) => i !== index))
   }
@@ -118,7 +216,10 @@ export function FileUploader() {
       case "error":
         return <AlertCircle className="w-4 h-4 text-red-600" />
       case "processing":
+      case "analyzing":
         return <div className="w-4 h-4 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
+      case "mapping":
+        return <AlertCircle className="w-4 h-4 text-yellow-600" />
       default:
         return <FileSpreadsheet className="w-4 h-4 text-gray-400" />
     }
@@ -170,33 +271,81 @@ export function FileUploader() {
             <div className="space-y-3">
               <div className="flex items-center justify-between">
                 <h3 className="font-medium">Uploaded Files</h3>
-                {uploadedFiles.some((f) => f.status === "pending") && (
+                {uploadedFiles.some((f) => f.status === "pending" && f.type !== "unknown") && (
                   <Button onClick={processFiles} disabled={isProcessing} size="sm">
                     {isProcessing ? "Processing..." : "Process Files"}
                   </Button>
                 )}
               </div>
 
+              {contestedTypes.length > 0 && (
+                <Alert className="bg-yellow-50 border-yellow-200">
+                  <AlertTriangle className="h-4 w-4 text-yellow-600" />
+                  <AlertDescription className="text-yellow-800 text-xs">
+                    Several files or sheets will load into {contestedTypes.join(", ")}. Only the last one processed is
+                    kept, so set the others to unknown to skip them.
+                  </AlertDescription>
+                </Alert>
+              )}
+
               {uploadedFiles.map((uploadedFile, index) => (
                 <div key={index} className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg">
                   {getStatusIcon(uploadedFile.status)}
 
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2 mb-1">
-                      <span className="font-medium text-sm truncate">{uploadedFile.file.name}</span>
-                      <span
-                        className={`px-2 py-0.5 rounded-full text-xs font-medium ${getTypeColor(uploadedFile.type)}`}
-                      >
-                        {uploadedFile.type}
-                      </span>
+                      <span className="font-medium text-sm truncate">{getDisplayName(uploadedFile)}</span>
+                      {uploadedFile.status === "pending" ? (
+                        <Select
+                          value={uploadedFile.type}
+                          onValueChange={(value) => overrideType(index, value as UploadedFile["type"])}
+                        >
+                          <SelectTrigger className={`h-6 w-28 text-xs ${getTypeColor(uploadedFile.type)}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="clients">clients</SelectItem>
+                            <SelectItem value="workers">workers</SelectItem>
+                            <SelectItem value="tasks">tasks</SelectItem>
+                            <SelectItem value="unknown">unknown</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <span
+                          className={`px-2 py-0.5 rounded-full text-xs font-medium ${getTypeColor(uploadedFile.type)}`}
+                        >
+                          {uploadedFile.type}
+                        </span>
+                      )}
                     </div>
 
                     <div className="text-xs text-gray-500">
                       {(uploadedFile.file.size / 1024).toFixed(1)} KB
                       {uploadedFile.recordCount && <span className="ml-2">• {uploadedFile.recordCount} records</span>}
+                      {uploadedFile.status === "mapping" && <span className="ml-2">• awaiting column mapping</span>}
+                      {uploadedFile.status === "success" && uploadedFile.proposal?.source === "saved" && (
+                        <span className="ml-2">• remembered column mapping applied</span>
+                      )}
                     </div>
 
-                    {uploadedFile.status === "processing" && <Progress value={50} className="mt-2 h-1" />}
+                    {uploadedFile.status === "pending" && uploadedFile.detection?.mismatch && (
+                      <div className="flex items-center gap-1 mt-1 text-xs text-yellow-700">
+                        <AlertTriangle className="w-3 h-3" />
+                        Filename suggests {uploadedFile.detection.filenameType}, but the content looks like{" "}
+                        {uploadedFile.detection.type} ({Math.round(uploadedFile.detection.confidence * 100)}% match)
+                      </div>
+                    )}
+
+                    {uploadedFile.status === "pending" && uploadedFile.type === "unknown" && (
+                      <div className="flex items-center gap-1 mt-1 text-xs text-yellow-700">
+                        <AlertTriangle className="w-3 h-3" />
+                        Could not tell what this file contains. Pick a type to include it.
+                      </div>
+                    )}
+
+                    {(uploadedFile.status === "processing" || uploadedFile.status === "analyzing") && (
+                      <Progress value={50} className="mt-2 h-1" />
+                    )}
 
                     {uploadedFile.error && (
                       <Alert className="mt-2">
@@ -221,12 +370,33 @@ export function FileUploader() {
         </Card>
       )}
 
+      {/* Column Mapping Review */}
+      {uploadedFiles.map(
+        (uploadedFile, index) =>
+          uploadedFile.status === "mapping" &&
+          uploadedFile.type !== "unknown" &&
+          uploadedFile.proposal && (
+            <ColumnMappingReview
+              key={`${uploadedFile.file.name}-${index}`}
+              fileName={getDisplayName(uploadedFile)}
+              entityType={uploadedFile.type}
+              headers={uploadedFile.headers || []}
+              sampleRows={(uploadedFile.data || []).slice(0, 3)}
+              initialMapping={uploadedFile.proposal.mapping}
+              confidence={uploadedFile.proposal.confidence}
+              onConfirm={(mapping) => confirmMapping(index, mapping)}
+              onCancel={() => skipMapping(index)}
+            />
+          ),
+      )}
+
       {/* Instructions */}
       <Alert>
         <FileSpreadsheet className="h-4 w-4" />
         <AlertDescription>
-          <strong>File naming tips:</strong> Name your files with keywords like "clients", "workers", or "tasks" for
-          automatic detection. Supported formats: CSV, XLSX, XLS.
+          <strong>Type detection:</strong> Each file's type is detected from its columns and values, with keywords like
+          "clients", "workers", or "tasks" in the filename as a fallback. Check the type before processing and change it
+          if needed. Supported formats: CSV, XLSX, XLS.
         </AlertDescription>
       </Alert>
     </div>
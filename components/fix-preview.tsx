@@ -0,0 +1,51 @@
+"use client"
+
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { FixProposal } from "@/lib/fix-providers"
+
+interface FixPreviewProps {
+  proposals: FixProposal[]
+  limit?: number
+}
+
+export function FixPreview({ proposals, limit = 10 }: FixPreviewProps) {
+  const edits = proposals.reduce<FixProposal["edits"]>((acc, proposal) => acc.concat(proposal.edits), [])
+  const shown = edits.slice(0, limit)
+
+  const formatValue = (value: any) => {
+    if (value === null || value === undefined || value === "") return <span className="text-gray-400">empty</span>
+    if (Array.isArray(value)) return `[${value.join(", ")}]`
+    if (typeof value === "object") return JSON.stringify(value)
+    return String(value)
+  }
+
+  return (
+    <div className="bg-white rounded border text-gray-800">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="h-8 text-xs">Record</TableHead>
+            <TableHead className="h-8 text-xs">Field</TableHead>
+            <TableHead className="h-8 text-xs">Before</TableHead>
+            <TableHead className="h-8 text-xs">After</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {shown.map((edit, index) => (
+            <TableRow key={index}>
+              <TableCell className="py-1 text-xs font-medium">{edit.recordId}</TableCell>
+              <TableCell className="py-1 text-xs">{edit.field}</TableCell>
+              <TableCell className="py-1 text-xs text-red-700 line-through max-w-0 truncate">
+                {formatValue(edit.before)}
+              </TableCell>
+              <TableCell className="py-1 text-xs text-green-700 max-w-0 truncate">{formatValue(edit.after)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {edits.length > shown.length && (
+        <div className="px-3 py-2 text-xs text-gray-500 border-t">and {edits.length - shown.length} more changes</div>
+      )}
+    </div>
+  )
+}
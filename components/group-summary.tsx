@@ -0,0 +1,169 @@
+"use client"
+
+import { useState, useMemo } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Users, AlertTriangle } from "lucide-react"
+import { useDataStore } from "@/lib/store"
+import { useRuleStore, selectRules } from "@/lib/rule-store"
+import { GroupModel, type GroupKind, type GroupSummary as Group } from "@/lib/group-model"
+import type { EntityType } from "@/lib/schemas"
+
+interface GroupSummaryProps {
+  onNavigate: (entityType: EntityType, recordId: string) => void
+}
+
+const MEMBER_PREVIEW = 12
+
+const describeRule = (rule: Group["rules"][number]) => {
+  if (rule.type === "loadLimit") return `At most ${rule.maxSlotsPerPhase} slots per phase`
+  if (rule.type === "slotRestriction") return `At least ${rule.minCommonSlots} common slots`
+  return rule.type
+}
+
+export function GroupSummary({ onNavigate }: GroupSummaryProps) {
+  const { clients, workers, tasks } = useDataStore()
+  const rules = useRuleStore(selectRules)
+  const [kind, setKind] = useState<GroupKind>("worker")
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  const model = useMemo(() => new GroupModel(clients, workers, tasks, rules), [clients, workers, tasks, rules])
+  const groups = model.getGroups(kind)
+
+  // Suspect group name -> the group it probably should be
+  const nearDuplicates = useMemo(() => {
+    const byName = new Map<string, string>()
+    model
+      .findNearDuplicates()
+      .filter((duplicate) => duplicate.group.kind === kind)
+      .forEach((duplicate) => byName.set(duplicate.group.name, duplicate.similarTo.name))
+    return byName
+  }, [model, kind])
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="w-5 h-5" />
+              Groups
+            </CardTitle>
+            <CardDescription>Members, shared slots and the rules that apply to each group</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant={kind === "worker" ? "default" : "outline"} onClick={() => setKind("worker")}>
+              Worker groups ({model.getGroups("worker").length})
+            </Button>
+            <Button size="sm" variant={kind === "client" ? "default" : "outline"} onClick={() => setKind("client")}>
+              Client groups ({model.getGroups("client").length})
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {groups.length === 0 ? (
+          <div className="text-sm text-gray-500">
+            No {kind === "worker" ? "WorkerGroup" : "GroupTag"} values in the {kind}s data.
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {groups.map((group) => {
+              const isExpanded = expanded === group.name
+              const similarTo = nearDuplicates.get(group.name)
+              const phases = Object.keys(group.slotsByPhase)
+                .map(Number)
+                .sort((a, b) => a - b)
+
+              return (
+                <div key={group.name} className="border rounded-lg">
+                  <button
+                    className="w-full flex flex-wrap items-center gap-2 p-3 text-left hover:bg-gray-50"
+                    onClick={() => setExpanded(isExpanded ? null : group.name)}
+                  >
+                    <span className="font-medium">{group.name}</span>
+                    <Badge variant="outline">{group.members.length} members</Badge>
+                    <Badge variant="outline">
+                      {group.commonSlots.length > 0
+                        ? `Common slots ${group.commonSlots.join(", ")}`
+                        : "No common slots"}
+                    </Badge>
+                    {kind === "worker" ? (
+                      <Badge variant="outline">{group.totalSlots} slots in total</Badge>
+                    ) : (
+                      <Badge variant="outline">{group.requestedTasks.length} tasks requested</Badge>
+                    )}
+                    {group.rules.length > 0 && <Badge variant="secondary">{group.rules.length} rules</Badge>}
+                    {similarTo && (
+                      <Badge variant="outline" className="bg-yellow-50 text-yellow-700">
+                        <AlertTriangle className="w-3 h-3 mr-1" />
+                        Similar to {similarTo}
+                      </Badge>
+                    )}
+                  </button>
+
+                  {isExpanded && (
+                    <div className="border-t p-3 space-y-3 text-sm">
+                      <div>
+                        <div className="text-xs font-medium text-gray-600 mb-1">Members</div>
+                        <div className="flex flex-wrap gap-1">
+                          {group.members.slice(0, MEMBER_PREVIEW).map((member) => (
+                            <Button
+                              key={member.recordId}
+                              size="sm"
+                              variant="outline"
+                              className="h-7 text-xs"
+                              onClick={() => onNavigate(group.entityType, member.recordId)}
+                            >
+                              {member.recordId}
+                            </Button>
+                          ))}
+                          {group.members.length > MEMBER_PREVIEW && (
+                            <span className="text-xs text-gray-500 self-center">
+                              +{group.members.length - MEMBER_PREVIEW} more
+                            </span>
+                          )}
+                        </div>
+                      </div>
+
+                      {kind === "worker" && phases.length > 0 && (
+                        <div>
+                          <div className="text-xs font-medium text-gray-600 mb-1">Capacity by phase</div>
+                          <div className="flex flex-wrap gap-1">
+                            {phases.map((phase) => (
+                              <Badge key={phase} variant="outline" className="text-xs">
+                                P{phase}: {group.slotsByPhase[phase]}
+                              </Badge>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
+                      <div>
+                        <div className="text-xs font-medium text-gray-600 mb-1">Constraints</div>
+                        {group.rules.length === 0 ? (
+                          <div className="text-xs text-gray-500">No rules target this group.</div>
+                        ) : (
+                          <ul className="space-y-1">
+                            {group.rules.map((rule) => (
+                              <li key={rule.id} className="flex items-center gap-2 text-xs">
+                                <span className="font-medium">{rule.name}</span>
+                                <span className="text-gray-600">{describeRule(rule)}</span>
+                                {!rule.enabled && <Badge variant="outline">Disabled</Badge>}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -9,6 +9,7 @@ import { Search, Mic, History, Sparkles, Filter, Download, X } from "lucide-reac
 import { QueryParser, type ParsedQuery } from "@/lib/query-parser"
 import { useDataStore } from "@/lib/store"
 import { DataGrid } from "@/components/data-grid"
+import { DataExporter } from "@/lib/data-exporter"
 
 interface SearchResult {
   type: "clients" | "workers" | "tasks"
@@ -163,18 +164,7 @@ export function NaturalLanguageSearch() {
   const exportResults = () => {
     const allResults = searchResults.flatMap((result) => result.data.map((item) => ({ ...item, _type: result.type })))
 
-    const csvContent = [
-      Object.keys(allResults[0] || {}).join(","),
-      ...allResults.map((row) => Object.values(row).join(",")),
-    ].join("\n")
-
-    const blob = new Blob([csvContent], { type: "text/csv" })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement("a")
-    a.href = url
-    a.download = `search-results-${Date.now()}.csv`
-    a.click()
-    URL.revokeObjectURL(url)
+    DataExporter.download(DataExporter.recordsToCSV(allResults), `search-results-${Date.now()}.csv`, "text/csv")
   }
 
   return (
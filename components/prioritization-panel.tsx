@@ -0,0 +1,261 @@
+"use client"
+
+import { useState, useMemo } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { SlidersHorizontal, ListOrdered, Scale, GripVertical, AlertTriangle } from "lucide-react"
+import {
+  PRIORITY_CRITERIA,
+  PRIORITIZATION_PRESETS,
+  normalizeWeights,
+  weightsFromRanking,
+  computeAHPWeights,
+  comparisonKey,
+  type PrioritizationConfig,
+  type PrioritizationMode,
+  type PriorityCriterion,
+} from "@/lib/prioritization"
+
+interface PrioritizationPanelProps {
+  config: PrioritizationConfig
+  onChange: (config: PrioritizationConfig) => void
+}
+
+// Slider position (-8..8) <-> Saaty judgement (1/9..9)
+const toSaaty = (position: number) => (position >= 0 ? position + 1 : 1 / (1 - position))
+const fromSaaty = (value: number) => (value >= 1 ? Math.round(value - 1) : Math.round(1 - 1 / value))
+
+export function PrioritizationPanel({ config, onChange }: PrioritizationPanelProps) {
+  const [draggedCriterion, setDraggedCriterion] = useState<PriorityCriterion | null>(null)
+
+  const criterionLabel = (id: PriorityCriterion) => PRIORITY_CRITERIA.find((c) => c.id === id)?.label || id
+
+  const pairs = useMemo(() => {
+    const result: [PriorityCriterion, PriorityCriterion][] = []
+    PRIORITY_CRITERIA.forEach((a, i) => {
+      PRIORITY_CRITERIA.slice(i + 1).forEach((b) => result.push([a.id, b.id]))
+    })
+    return result
+  }, [])
+
+  const ahp = useMemo(() => computeAHPWeights(config.comparisons), [config.comparisons])
+
+  const update = (changes: Partial<PrioritizationConfig>) => {
+    onChange({ ...config, ...changes, updatedAt: new Date() })
+  }
+
+  const handleModeChange = (mode: PrioritizationMode) => {
+    switch (mode) {
+      case "ranking":
+        update({ mode, weights: weightsFromRanking(config.ranking), preset: undefined })
+        break
+      case "pairwise":
+        update({ mode, weights: ahp.weights, preset: undefined })
+        break
+      default:
+        update({ mode })
+    }
+  }
+
+  const handleSliderChange = (criterion: PriorityCriterion, value: number) => {
+    // Sliders edit raw percentages; the stored weights are always normalized
+    const raw = { ...config.weights, [criterion]: value / 100 }
+    update({ weights: normalizeWeights(raw), preset: undefined })
+  }
+
+  const handleDrop = (target: PriorityCriterion) => {
+    if (!draggedCriterion || draggedCriterion === target) return
+
+    const ranking = config.ranking.filter((id) => id !== draggedCriterion)
+    ranking.splice(ranking.indexOf(target), 0, draggedCriterion)
+    update({ ranking, weights: weightsFromRanking(ranking), preset: undefined })
+    setDraggedCriterion(null)
+  }
+
+  const handleComparisonChange = (a: PriorityCriterion, b: PriorityCriterion, position: number) => {
+    const comparisons = { ...config.comparisons, [comparisonKey(a, b)]: toSaaty(position) }
+    delete comparisons[comparisonKey(b, a)]
+    update({ comparisons, weights: computeAHPWeights(comparisons).weights, preset: undefined })
+  }
+
+  const applyPreset = (presetId: string) => {
+    const preset = PRIORITIZATION_PRESETS.find((p) => p.id === presetId)
+    if (!preset) return
+
+    const weights = normalizeWeights(preset.weights)
+    const ranking = [...PRIORITY_CRITERIA.map((c) => c.id)].sort((a, b) => weights[b] - weights[a])
+    update({ mode: "sliders", weights, ranking, preset: preset.id })
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header & Presets */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <SlidersHorizontal className="w-5 h-5" />
+            Prioritization
+          </CardTitle>
+          <CardDescription>
+            Decide what the allocator should favour. Weights are saved with your rules and exported in rules.json.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <h4 className="font-medium mb-2">Preset Templates</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {PRIORITIZATION_PRESETS.map((preset) => (
+              <div
+                key={preset.id}
+                className={`p-3 border rounded-lg cursor-pointer transition-colors ${
+                  config.preset === preset.id ? "bg-blue-50 border-blue-300" : "hover:bg-gray-50"
+                }`}
+                onClick={() => applyPreset(preset.id)}
+              >
+                <div className="font-medium text-sm">{preset.name}</div>
+                <div className="text-xs text-gray-600">{preset.description}</div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Weight Editor */}
+      <Card>
+        <CardHeader>
+          <div className="flex gap-2">
+            {[
+              { id: "sliders", label: "Sliders", icon: SlidersHorizontal },
+              { id: "ranking", label: "Ranking", icon: ListOrdered },
+              { id: "pairwise", label: "Pairwise (AHP)", icon: Scale },
+            ].map((mode) => (
+              <Button
+                key={mode.id}
+                variant={config.mode === mode.id ? "default" : "outline"}
+                onClick={() => handleModeChange(mode.id as PrioritizationMode)}
+                className="flex items-center gap-2"
+              >
+                <mode.icon className="w-4 h-4" />
+                {mode.label}
+              </Button>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {config.mode === "sliders" && (
+            <div className="space-y-4">
+              {PRIORITY_CRITERIA.map((criterion) => (
+                <div key={criterion.id} className="space-y-1">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor={`weight-${criterion.id}`}>{criterion.label}</Label>
+                    <span className="text-sm font-medium">{Math.round(config.weights[criterion.id] * 100)}%</span>
+                  </div>
+                  <input
+                    id={`weight-${criterion.id}`}
+                    type="range"
+                    min="0"
+                    max="100"
+                    value={Math.round(config.weights[criterion.id] * 100)}
+                    onChange={(e) => handleSliderChange(criterion.id, Number(e.target.value))}
+                    className="w-full"
+                  />
+                  <div className="text-xs text-gray-500">{criterion.description}</div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {config.mode === "ranking" && (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-600 mb-2">Drag criteria to rank them, most important first.</p>
+              {config.ranking.map((criterion, index) => (
+                <div
+                  key={criterion}
+                  draggable
+                  onDragStart={() => setDraggedCriterion(criterion)}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={() => handleDrop(criterion)}
+                  className={`flex items-center gap-3 p-3 border rounded-lg bg-white cursor-move ${
+                    draggedCriterion === criterion ? "opacity-50" : ""
+                  }`}
+                >
+                  <GripVertical className="w-4 h-4 text-gray-400" />
+                  <Badge variant="outline">#{index + 1}</Badge>
+                  <span className="flex-1 text-sm font-medium">{criterionLabel(criterion)}</span>
+                  <span className="text-sm text-gray-600">{Math.round(config.weights[criterion] * 100)}%</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {config.mode === "pairwise" && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                For each pair, slide towards the criterion that matters more (1 = equal, 9 = extremely more important).
+              </p>
+              {pairs.map(([a, b]) => {
+                const stored = config.comparisons[comparisonKey(a, b)]
+                const inverse = config.comparisons[comparisonKey(b, a)]
+                const value = stored || (inverse ? 1 / inverse : 1)
+                const position = fromSaaty(value)
+
+                return (
+                  <div key={comparisonKey(a, b)} className="space-y-1">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className={position > 0 ? "font-medium" : ""}>{criterionLabel(a)}</span>
+                      <span className="text-xs text-gray-500">
+                        {position === 0 ? "equal" : `${Math.abs(position) + 1}×`}
+                      </span>
+                      <span className={position < 0 ? "font-medium" : ""}>{criterionLabel(b)}</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="-8"
+                      max="8"
+                      value={-position}
+                      onChange={(e) => handleComparisonChange(a, b, -Number(e.target.value))}
+                      className="w-full"
+                    />
+                  </div>
+                )
+              })}
+
+              {ahp.consistencyRatio > 0.1 && (
+                <Alert className="bg-yellow-50 border-yellow-200">
+                  <AlertTriangle className="h-4 w-4 text-yellow-600" />
+                  <AlertDescription className="text-yellow-800">
+                    Judgements are inconsistent (CR = {ahp.consistencyRatio.toFixed(2)}). Values above 0.10 usually
+                    mean some comparisons contradict each other.
+                  </AlertDescription>
+                </Alert>
+              )}
+            </div>
+          )}
+
+          {/* Resulting Weights */}
+          <div className="mt-6">
+            <h4 className="font-medium mb-2">Resulting Weights</h4>
+            <div className="space-y-2">
+              {PRIORITY_CRITERIA.map((criterion) => (
+                <div key={criterion.id} className="flex items-center gap-3">
+                  <span className="w-40 text-sm">{criterion.label}</span>
+                  <div className="flex-1 bg-gray-200 rounded-full h-2">
+                    <div
+                      className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+                      style={{ width: `${config.weights[criterion.id] * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-12 text-right text-sm font-medium">
+                    {Math.round(config.weights[criterion.id] * 100)}%
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,249 @@
+"use client"
+
+import { useState, useMemo } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Network, Unlink, ExternalLink, Search, CheckCircle } from "lucide-react"
+import { useDataStore } from "@/lib/store"
+import { useRuleStore, selectRules } from "@/lib/rule-store"
+import {
+  RelationshipGraph,
+  ORPHAN_KINDS,
+  type GraphEdge,
+  type GraphNode,
+  type GraphNodeKind,
+  type GraphRelation,
+  type OrphanKind,
+} from "@/lib/relationship-graph"
+import type { EntityType } from "@/lib/schemas"
+
+interface RelationshipViewProps {
+  onNavigate: (entityType: EntityType, recordId: string) => void
+}
+
+const KIND_LABELS: Record<GraphNodeKind, string> = {
+  client: "Client",
+  task: "Task",
+  worker: "Worker",
+  skill: "Skill",
+  clientGroup: "Client group",
+  workerGroup: "Worker group",
+  rule: "Rule",
+}
+
+const OUTGOING_LABELS: Record<GraphRelation, string> = {
+  requests: "Requests",
+  requires: "Requires skills",
+  hasSkill: "Has skills",
+  memberOf: "Member of",
+  constrains: "Constrains",
+}
+
+const INCOMING_LABELS: Record<GraphRelation, string> = {
+  requests: "Requested by",
+  requires: "Required by",
+  hasSkill: "Workers with this skill",
+  memberOf: "Members",
+  constrains: "Constrained by",
+}
+
+const SEARCH_LIMIT = 20
+
+export function RelationshipView({ onNavigate }: RelationshipViewProps) {
+  const { clients, workers, tasks } = useDataStore()
+  const rules = useRuleStore(selectRules)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [search, setSearch] = useState("")
+  const [openKind, setOpenKind] = useState<OrphanKind | null>(null)
+
+  const graph = useMemo(() => new RelationshipGraph(clients, workers, tasks, rules), [clients, workers, tasks, rules])
+  const orphans = useMemo(() => graph.findOrphans(), [graph])
+  const selected = selectedId ? graph.getNode(selectedId) : undefined
+
+  const orphanGroups = useMemo(
+    () =>
+      (Object.keys(ORPHAN_KINDS) as OrphanKind[])
+        .map((kind) => ({ kind, orphans: orphans.filter((orphan) => orphan.kind === kind) }))
+        .filter((group) => group.orphans.length > 0),
+    [orphans],
+  )
+
+  const searchResults = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    if (!term) return []
+    return graph
+      .getNodes()
+      .filter((node) => node.label.toLowerCase().includes(term))
+      .slice(0, SEARCH_LIMIT)
+  }, [graph, search])
+
+  // Neighbours of the selected node, grouped by relation and direction
+  const neighbourGroups = useMemo(() => {
+    if (!selected) return []
+
+    const groups: { label: string; nodes: GraphNode[] }[] = []
+    const collect = (edges: GraphEdge[], labels: Record<GraphRelation, string>, end: "from" | "to") => {
+      const byRelation = new Map<GraphRelation, GraphNode[]>()
+      edges.forEach((edge) => {
+        const node = graph.getNode(edge[end])
+        if (node) byRelation.set(edge.relation, [...(byRelation.get(edge.relation) || []), node])
+      })
+      byRelation.forEach((nodes, relation) => groups.push({ label: labels[relation], nodes }))
+    }
+
+    collect(graph.getOutgoing(selected.id), OUTGOING_LABELS, "to")
+    collect(graph.getIncoming(selected.id), INCOMING_LABELS, "from")
+    return groups
+  }, [graph, selected])
+
+  const inspect = (node: GraphNode) => {
+    setSelectedId(node.id)
+    setSearch("")
+  }
+
+  const openRow = (node: GraphNode) => {
+    if (node.entityType && node.recordId) onNavigate(node.entityType, node.recordId)
+  }
+
+  const nodeChip = (node: GraphNode) => (
+    <Button
+      key={node.id}
+      size="sm"
+      variant="outline"
+      className={`h-7 text-xs ${node.missing ? "border-red-300 text-red-700" : ""}`}
+      onClick={() => inspect(node)}
+      title={node.missing ? "Referenced but not defined" : KIND_LABELS[node.kind]}
+    >
+      {node.label}
+    </Button>
+  )
+
+  return (
+    <div className="space-y-6">
+      {/* Orphans */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Unlink className="w-5 h-5" />
+            Referential Integrity
+          </CardTitle>
+          <CardDescription>
+            Records nothing points at, and references that point at nothing, across clients, tasks, workers, skills,
+            groups and rules
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {orphanGroups.length === 0 ? (
+            <div className="flex items-center gap-2 text-sm text-green-700">
+              <CheckCircle className="w-4 h-4" />
+              Every record is connected and every reference resolves.
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {orphanGroups.map((group) => (
+                <div key={group.kind} className="border rounded-lg">
+                  <button
+                    className="w-full flex items-center justify-between p-3 text-left hover:bg-gray-50"
+                    onClick={() => setOpenKind(openKind === group.kind ? null : group.kind)}
+                  >
+                    <span className="text-sm font-medium">{ORPHAN_KINDS[group.kind]}</span>
+                    <Badge variant="outline">{group.orphans.length}</Badge>
+                  </button>
+                  {openKind === group.kind && (
+                    <div className="border-t max-h-64 overflow-y-auto divide-y">
+                      {group.orphans.map((orphan) => (
+                        <div key={orphan.node.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                          <span className="flex-1">{orphan.message}</span>
+                          <Button size="sm" variant="ghost" onClick={() => inspect(orphan.node)}>
+                            Inspect
+                          </Button>
+                          {orphan.node.entityType && (
+                            <Button size="sm" variant="outline" onClick={() => openRow(orphan.node)}>
+                              <ExternalLink className="w-3 h-3 mr-1" />
+                              Open row
+                            </Button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Explorer */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Network className="w-5 h-5" />
+            Relationship Explorer
+          </CardTitle>
+          <CardDescription>
+            {graph.getNodes().length} nodes and {graph.getEdges().length} links. Find a record, skill, group or rule and
+            follow its links.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="relative mb-3">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <Input
+              placeholder="Search by ID, name, skill, group or rule..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          {searchResults.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-4">
+              {searchResults.map((node) => (
+                <Button key={node.id} size="sm" variant="outline" className="h-7 text-xs" onClick={() => inspect(node)}>
+                  <span className="text-gray-500 mr-1">{KIND_LABELS[node.kind]}</span>
+                  {node.label}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {selected ? (
+            <div className="p-4 border rounded-lg space-y-4">
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary">{KIND_LABELS[selected.kind]}</Badge>
+                <span className="font-medium">{selected.label}</span>
+                {selected.missing && (
+                  <Badge variant="outline" className="bg-red-50 text-red-700">
+                    Not defined
+                  </Badge>
+                )}
+                {selected.entityType && (
+                  <Button size="sm" variant="outline" className="ml-auto" onClick={() => openRow(selected)}>
+                    <ExternalLink className="w-3 h-3 mr-1" />
+                    Open row
+                  </Button>
+                )}
+              </div>
+              {neighbourGroups.length === 0 ? (
+                <div className="text-sm text-gray-500">No links to or from this node.</div>
+              ) : (
+                neighbourGroups.map((group) => (
+                  <div key={group.label}>
+                    <div className="text-xs font-medium text-gray-600 mb-1">
+                      {group.label} ({group.nodes.length})
+                    </div>
+                    <div className="flex flex-wrap gap-1">{group.nodes.map(nodeChip)}</div>
+                  </div>
+                ))
+              )}
+            </div>
+          ) : (
+            <div className="text-sm text-gray-500">Search above or inspect an orphan to see its links.</div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { useState, useEffect } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -9,7 +9,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Textarea } from "@/components/ui/textarea"
 import { Switch } from "@/components/ui/switch"
 import { Badge } from "@/components/ui/badge"
-import { Plus, X, AlertTriangle } from "lucide-react"
+import { Plus, X, AlertTriangle, Save, Info } from "lucide-react"
 import { useDataStore } from "@/lib/store"
 import type {
   Rule,
@@ -18,16 +18,26 @@ import type {
   LoadLimitRule,
   PhaseWindowRule,
   PatternMatchRule,
+  PrecedenceRule,
+  ExclusionRule,
+  MinQualificationRule,
+  AffinityRule,
 } from "@/lib/rule-types"
 import { RuleValidator } from "@/lib/rule-types"
+import { useRuleStore } from "@/lib/rule-store"
+import { RuleHistory } from "@/lib/rule-history"
 
 interface RuleBuilderProps {
-  onRuleCreate: (rule: Rule) => void
-  existingRules: Rule[]
+  // Edit mode: the form starts from this rule and saving replaces it, keeping its id and createdAt
+  rule?: Rule
+  onRuleCreate?: (rule: Rule) => void
+  onRuleUpdate?: (rule: Rule) => void
+  onCancel?: () => void
 }
 
-export function RuleBuilder({ onRuleCreate, existingRules }: RuleBuilderProps) {
+export function RuleBuilder({ rule: editing, onRuleCreate, onRuleUpdate, onCancel }: RuleBuilderProps = {}) {
   const { clients, workers, tasks } = useDataStore()
+  const { rules: existingRules, addRule, editRule } = useRuleStore()
   const [ruleType, setRuleType] = useState<string>("")
   const [ruleName, setRuleName] = useState("")
   const [ruleDescription, setRuleDescription] = useState("")
@@ -60,6 +70,25 @@ export function RuleBuilder({ onRuleCreate, existingRules }: RuleBuilderProps) {
   const [entityType, setEntityType] = useState<"clients" | "workers" | "tasks">("tasks")
   const [action, setAction] = useState<"allow" | "deny" | "flag">("flag")
 
+  // Precedence rule state
+  const [globalRules, setGlobalRules] = useState<string[]>([])
+  const [specificRules, setSpecificRules] = useState<string[]>([])
+  const [conflictResolution, setConflictResolution] = useState<"global" | "specific" | "merge">("specific")
+
+  // Exclusion rule state
+  const [excludedWorkerId, setExcludedWorkerId] = useState("")
+  const [exclusionTargetType, setExclusionTargetType] = useState<"client" | "task">("client")
+  const [exclusionTargetId, setExclusionTargetId] = useState("")
+
+  // Minimum qualification rule state
+  const [qualificationTaskId, setQualificationTaskId] = useState("")
+  const [minLevel, setMinLevel] = useState(1)
+
+  // Affinity rule state
+  const [affinityClientId, setAffinityClientId] = useState("")
+  const [affinityGroup, setAffinityGroup] = useState("")
+  const [affinityStrict, setAffinityStrict] = useState(false)
+
   const [validationErrors, setValidationErrors] = useState<string[]>([])
 
   const resetForm = () => {
@@ -84,17 +113,90 @@ export function RuleBuilder({ onRuleCreate, existingRules }: RuleBuilderProps) {
     setField("")
     setEntityType("tasks")
     setAction("flag")
+    setGlobalRules([])
+    setSpecificRules([])
+    setConflictResolution("specific")
+    setExcludedWorkerId("")
+    setExclusionTargetType("client")
+    setExclusionTargetId("")
+    setQualificationTaskId("")
+    setMinLevel(1)
+    setAffinityClientId("")
+    setAffinityGroup("")
+    setAffinityStrict(false)
     setValidationErrors([])
   }
 
+  const loadRule = (rule: Rule) => {
+    resetForm()
+    setRuleType(rule.type)
+    setRuleName(rule.name)
+    setRuleDescription(rule.description || "")
+    setPriority(rule.priority)
+    setEnabled(rule.enabled)
+
+    switch (rule.type) {
+      case "coRun":
+        setSelectedTasks(rule.tasks)
+        setMustRunTogether(rule.mustRunTogether)
+        break
+      case "slotRestriction":
+        setTargetType(rule.targetType)
+        setGroupName(rule.groupName)
+        setMinCommonSlots(rule.minCommonSlots)
+        setRestrictionPhases(rule.phases || [])
+        break
+      case "loadLimit":
+        setWorkerGroup(rule.workerGroup)
+        setMaxSlotsPerPhase(rule.maxSlotsPerPhase)
+        setLoadLimitPhases(rule.phases || [])
+        break
+      case "phaseWindow":
+        setSelectedTaskId(rule.taskId)
+        setAllowedPhases(rule.allowedPhases)
+        setStrictMode(rule.strictMode)
+        break
+      case "patternMatch":
+        setPattern(rule.pattern)
+        setField(rule.field)
+        setEntityType(rule.entityType)
+        setAction(rule.action)
+        break
+      case "precedence":
+        setGlobalRules(rule.globalRules)
+        setSpecificRules(rule.specificRules)
+        setConflictResolution(rule.conflictResolution)
+        break
+      case "exclusion":
+        setExcludedWorkerId(rule.workerId)
+        setExclusionTargetType(rule.targetType)
+        setExclusionTargetId(rule.targetId)
+        break
+      case "minQualification":
+        setQualificationTaskId(rule.taskId)
+        setMinLevel(rule.minLevel)
+        break
+      case "affinity":
+        setAffinityClientId(rule.clientId)
+        setAffinityGroup(rule.workerGroup)
+        setAffinityStrict(rule.strictMode)
+        break
+    }
+  }
+
+  // Only when a different rule is opened, so store updates to the same rule don't wipe unsaved changes
+  useEffect(() => {
+    if (editing) loadRule(editing)
+  }, [editing?.id])
+
   const buildRule = (): Rule | null => {
     const baseRule = {
-      id: `rule_${Date.now()}`,
+      id: editing?.id ?? `rule_${Date.now()}`,
       name: ruleName,
       description: ruleDescription,
       enabled,
       priority,
-      createdAt: new Date(),
+      createdAt: editing?.createdAt ?? new Date(),
       updatedAt: new Date(),
     }
 
@@ -143,25 +245,73 @@ export function RuleBuilder({ onRuleCreate, existingRules }: RuleBuilderProps) {
           field,
           entityType,
           action,
+          // The builder has no editor for parameters, so an edit keeps whatever the rule had
+          parameters: editing?.type === "patternMatch" ? editing.parameters : undefined,
         } as PatternMatchRule
 
+      case "precedence":
+        return {
+          ...baseRule,
+          type: "precedence",
+          globalRules,
+          specificRules,
+          conflictResolution,
+        } as PrecedenceRule
+
+      case "exclusion":
+        return {
+          ...baseRule,
+          type: "exclusion",
+          workerId: excludedWorkerId,
+          targetType: exclusionTargetType,
+          targetId: exclusionTargetId,
+        } as ExclusionRule
+
+      case "minQualification":
+        return {
+          ...baseRule,
+          type: "minQualification",
+          taskId: qualificationTaskId,
+          minLevel,
+        } as MinQualificationRule
+
+      case "affinity":
+        return {
+          ...baseRule,
+          type: "affinity",
+          clientId: affinityClientId,
+          workerGroup: affinityGroup,
+          strictMode: affinityStrict,
+        } as AffinityRule
+
       default:
         return null
     }
   }
 
-  const handleCreateRule = () => {
+  const draft = buildRule()
+  const competing = draft ? RuleValidator.findCompeting(draft, existingRules) : []
+
+  const handleSaveRule = () => {
     const rule = buildRule()
     if (!rule) return
 
+    // findConflicts skips rules with the same id, so an edited rule isn't compared with its old self
     const validation = RuleValidator.validateRule(rule, existingRules)
     if (!validation.isValid) {
       setValidationErrors(validation.errors)
       return
     }
 
-    onRuleCreate(rule)
-    resetForm()
+    if (editing) {
+      // Saving without changes shouldn't add an empty revision
+      if (RuleHistory.diff(editing, rule).length > 0) editRule(rule)
+      onRuleUpdate?.(rule)
+    } else {
+      addRule(rule)
+      onRuleCreate?.(rule)
+      resetForm()
+    }
     setValidationErrors([])
   }
 
@@ -185,6 +335,21 @@ export function RuleBuilder({ onRuleCreate, existingRules }: RuleBuilderProps) {
     setPhases(phases.filter((p) => p !== phase))
   }
 
+  // A rule is either global or specific, so picking it on one side removes it from the other
+  const togglePrecedenceRule = (side: "global" | "specific", ruleId: string) => {
+    const [selected, setSelected, other, setOther] =
+      side === "global"
+        ? [globalRules, setGlobalRules, specificRules, setSpecificRules]
+        : [specificRules, setSpecificRules, globalRules, setGlobalRules]
+
+    if (selected.includes(ruleId)) {
+      setSelected(selected.filter((id) => id !== ruleId))
+    } else {
+      setSelected([...selected, ruleId])
+      setOther(other.filter((id) => id !== ruleId))
+    }
+  }
+
   const getUniqueGroups = (type: "client" | "worker") => {
     const data = type === "client" ? clients : workers
     const groupField = type === "client" ? "GroupTag" : "WorkerGroup"
@@ -201,8 +366,12 @@ export function RuleBuilder({ onRuleCreate, existingRules }: RuleBuilderProps) {
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Create New Rule</CardTitle>
-        <CardDescription>Build business rules using our visual interface</CardDescription>
+        <CardTitle>{editing ? "Edit Rule" : "Create New Rule"}</CardTitle>
+        <CardDescription>
+          {editing
+            ? `Changing "${editing.name}". Saving keeps its id and records a revision you can revert to.`
+            : "Build business rules using our visual interface"}
+        </CardDescription>
       </CardHeader>
       <CardContent>
         <div className="space-y-6">
@@ -220,6 +389,10 @@ export function RuleBuilder({ onRuleCreate, existingRules }: RuleBuilderProps) {
                   <SelectItem value="loadLimit">Load Limit</SelectItem>
                   <SelectItem value="phaseWindow">Phase Window</SelectItem>
                   <SelectItem value="patternMatch">Pattern Match</SelectItem>
+                  <SelectItem value="precedence">Precedence</SelectItem>
+                  <SelectItem value="exclusion">Worker Exclusion</SelectItem>
+                  <SelectItem value="minQualification">Minimum Qualification</SelectItem>
+                  <SelectItem value="affinity">Client Affinity</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -474,6 +647,210 @@ export function RuleBuilder({ onRuleCreate, existingRules }: RuleBuilderProps) {
             </div>
           )}
 
+          {ruleType === "precedence" && (
+            <div className="space-y-4">
+              <h4 className="font-medium">Precedence Configuration</h4>
+              {existingRules.filter((rule) => rule.type !== "precedence").length < 2 ? (
+                <p className="text-sm text-gray-600">Create at least two other rules to set precedence between them.</p>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {(["global", "specific"] as const).map((side) => {
+                    const selected = side === "global" ? globalRules : specificRules
+                    return (
+                      <div key={side} className="space-y-2">
+                        <Label>{side === "global" ? "Global Rules" : "Specific Rules"}</Label>
+                        <div className="space-y-1 max-h-40 overflow-y-auto">
+                          {existingRules
+                            .filter((rule) => rule.type !== "precedence")
+                            .map((rule) => (
+                              <div
+                                key={rule.id}
+                                className={`p-2 border rounded cursor-pointer text-sm ${
+                                  selected.includes(rule.id) ? "bg-blue-100 border-blue-300" : "hover:bg-gray-100"
+                                }`}
+                                onClick={() => togglePrecedenceRule(side, rule.id)}
+                              >
+                                {rule.name} <span className="text-xs text-gray-500">({rule.type})</span>
+                              </div>
+                            ))}
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>When a global and a specific rule compete</Label>
+                <Select
+                  value={conflictResolution}
+                  onValueChange={(value: "global" | "specific" | "merge") => setConflictResolution(value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="specific">Specific rule wins</SelectItem>
+                    <SelectItem value="global">Global rule wins</SelectItem>
+                    <SelectItem value="merge">Apply both</SelectItem>
+                  </SelectContent>
+                </Select>
+                {conflictResolution === "merge" && (
+                  <p className="text-xs text-gray-500">
+                    Phase windows and affinities hold one value each, so they can't be merged.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {ruleType === "exclusion" && (
+            <div className="space-y-4">
+              <h4 className="font-medium">Exclusion Configuration</h4>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>Worker</Label>
+                  <Select value={excludedWorkerId} onValueChange={setExcludedWorkerId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select worker" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {workers.map((worker) => (
+                        <SelectItem key={worker.WorkerID} value={worker.WorkerID}>
+                          {worker.WorkerID}: {worker.WorkerName}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Keep Away From</Label>
+                  <Select
+                    value={exclusionTargetType}
+                    onValueChange={(value: "client" | "task") => {
+                      setExclusionTargetType(value)
+                      setExclusionTargetId("")
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="client">A client's tasks</SelectItem>
+                      <SelectItem value="task">A task, for every client</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>{exclusionTargetType === "client" ? "Client" : "Task"}</Label>
+                  <Select value={exclusionTargetId} onValueChange={setExclusionTargetId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder={`Select ${exclusionTargetType}`} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {exclusionTargetType === "client"
+                        ? clients.map((client) => (
+                            <SelectItem key={client.ClientID} value={client.ClientID}>
+                              {client.ClientID}: {client.ClientName}
+                            </SelectItem>
+                          ))
+                        : tasks.map((task) => (
+                            <SelectItem key={task.TaskID} value={task.TaskID}>
+                              {task.TaskID}: {task.TaskName}
+                            </SelectItem>
+                          ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {ruleType === "minQualification" && (
+            <div className="space-y-4">
+              <h4 className="font-medium">Minimum Qualification Configuration</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Task</Label>
+                  <Select value={qualificationTaskId} onValueChange={setQualificationTaskId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select task" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {tasks.map((task) => (
+                        <SelectItem key={task.TaskID} value={task.TaskID}>
+                          {task.TaskID}: {task.TaskName}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Minimum QualificationLevel</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={minLevel}
+                    onChange={(e) => setMinLevel(Number.parseInt(e.target.value))}
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
+          {ruleType === "affinity" && (
+            <div className="space-y-4">
+              <h4 className="font-medium">Affinity Configuration</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Client</Label>
+                  <Select value={affinityClientId} onValueChange={setAffinityClientId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select client" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {clients.map((client) => (
+                        <SelectItem key={client.ClientID} value={client.ClientID}>
+                          {client.ClientID}: {client.ClientName}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Preferred Worker Group</Label>
+                  <Select value={affinityGroup} onValueChange={setAffinityGroup}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select worker group" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {getUniqueGroups("worker").map((group) => (
+                        <SelectItem key={group} value={group}>
+                          {group}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch checked={affinityStrict} onCheckedChange={setAffinityStrict} />
+                <Label>Strict (only this group may work for the client)</Label>
+              </div>
+            </div>
+          )}
+
+          {/* Competing rules: allowed, but only one of them applies */}
+          {competing.length > 0 && (
+            <div className="space-y-2">
+              {competing.map((note, idx) => (
+                <div key={idx} className="flex items-center gap-2 text-amber-700 text-sm">
+                  <Info className="w-4 h-4" />
+                  {note}
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Validation Errors */}
           {validationErrors.length > 0 && (
             <div className="space-y-2">
@@ -488,13 +865,18 @@ export function RuleBuilder({ onRuleCreate, existingRules }: RuleBuilderProps) {
 
           {/* Actions */}
           <div className="flex gap-2">
-            <Button onClick={handleCreateRule} disabled={!ruleType || !ruleName}>
-              <Plus className="w-4 h-4 mr-2" />
-              Create Rule
+            <Button onClick={handleSaveRule} disabled={!ruleType || !ruleName}>
+              {editing ? <Save className="w-4 h-4 mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+              {editing ? "Save Changes" : "Create Rule"}
             </Button>
-            <Button variant="outline" onClick={resetForm}>
+            <Button variant="outline" onClick={() => (editing ? loadRule(editing) : resetForm())}>
               Reset
             </Button>
+            {onCancel && (
+              <Button variant="ghost" onClick={onCancel}>
+                Cancel
+              </Button>
+            )}
           </div>
         </div>
       </CardContent>
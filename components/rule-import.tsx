@@ -0,0 +1,210 @@
+"use client"
+
+import { useState, useRef } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Upload, AlertTriangle, CheckCircle, X } from "lucide-react"
+import { useRuleStore } from "@/lib/rule-store"
+import { RuleSetImporter, type RuleImportMode, type RuleSetImport } from "@/lib/rule-set-schema"
+import type { PrioritizationConfig } from "@/lib/prioritization"
+
+interface RuleImportProps {
+  onClose: () => void
+  onPrioritizationImport?: (config: PrioritizationConfig) => void
+}
+
+export function RuleImport({ onClose, onPrioritizationImport }: RuleImportProps) {
+  const { rules, setRules } = useRuleStore()
+  const [fileName, setFileName] = useState("")
+  const [text, setText] = useState("")
+  const [mode, setMode] = useState<RuleImportMode>("merge")
+  const [parsed, setParsed] = useState<RuleSetImport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [includePrioritization, setIncludePrioritization] = useState(true)
+  const [applied, setApplied] = useState<string | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  // Which rules are valid depends on the mode: merged rules may reference rules already in the workspace
+  const parseFile = (json: string, nextMode: RuleImportMode) => {
+    setParsed(null)
+    setError(null)
+    try {
+      setParsed(RuleSetImporter.parse(json, rules, nextMode))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not read rules.json")
+    }
+  }
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name)
+    setApplied(null)
+    const json = await file.text()
+    setText(json)
+    parseFile(json, mode)
+  }
+
+  const handleModeChange = (nextMode: RuleImportMode) => {
+    setMode(nextMode)
+    if (parsed) parseFile(text, nextMode)
+  }
+
+  const handleApply = () => {
+    if (!parsed) return
+
+    const result = RuleSetImporter.apply(rules, parsed.rules, mode)
+    setRules(result.rules)
+    if (includePrioritization && parsed.prioritization) onPrioritizationImport?.(parsed.prioritization)
+
+    setApplied(
+      mode === "replace"
+        ? `Replaced your rules with ${result.added} imported rules`
+        : `Added ${result.added} rules and updated ${result.updated} existing ones`,
+    )
+    setParsed(null)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Upload className="w-5 h-5" />
+              Import Rules
+            </CardTitle>
+            <CardDescription>
+              Load a rules.json exported earlier. Older versions are migrated automatically.
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-3">
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) handleFile(file)
+              e.target.value = ""
+            }}
+          />
+          <Button variant="outline" onClick={() => inputRef.current?.click()}>
+            <Upload className="w-4 h-4 mr-2" />
+            Choose rules.json
+          </Button>
+          {fileName && <span className="text-sm text-gray-600">{fileName}</span>}
+        </div>
+
+        {error && (
+          <Alert className="border-red-200 bg-red-50">
+            <AlertTriangle className="h-4 w-4 text-red-600" />
+            <AlertDescription className="text-red-800">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {applied && (
+          <Alert className="border-green-200 bg-green-50">
+            <CheckCircle className="h-4 w-4 text-green-600" />
+            <AlertDescription className="text-green-800">{applied}</AlertDescription>
+          </Alert>
+        )}
+
+        {parsed && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline" className="bg-green-50 text-green-700">
+                {parsed.rules.length} valid rules
+              </Badge>
+              {parsed.invalid.length > 0 && (
+                <Badge variant="outline" className="bg-red-50 text-red-700">
+                  {parsed.invalid.length} invalid rules skipped
+                </Badge>
+              )}
+              {parsed.migratedFrom && (
+                <Badge variant="outline">
+                  Migrated from {parsed.migratedFrom === "0" ? "an unversioned file" : `v${parsed.migratedFrom}`} to v
+                  {parsed.version}
+                </Badge>
+              )}
+            </div>
+
+            {parsed.invalid.length > 0 && (
+              <div className="border rounded-lg divide-y max-h-48 overflow-y-auto">
+                {parsed.invalid.map((rule) => (
+                  <div key={rule.index} className="p-2 text-sm">
+                    <div className="font-medium">
+                      Rule {rule.index + 1}
+                      {rule.name ? `: ${rule.name}` : ""}
+                      {rule.id && <span className="text-xs text-gray-500 ml-2">{rule.id}</span>}
+                    </div>
+                    <ul className="text-xs text-red-700 list-disc ml-5">
+                      {rule.errors.map((message, i) => (
+                        <li key={i}>{message}</li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {parsed.prioritizationErrors && (
+              <Alert className="border-yellow-200 bg-yellow-50">
+                <AlertTriangle className="h-4 w-4 text-yellow-600" />
+                <AlertDescription className="text-yellow-800">
+                  The prioritization weights in this file are invalid and won't be loaded:{" "}
+                  {parsed.prioritizationErrors.join("; ")}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {parsed.prioritization && onPrioritizationImport && (
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="import-prioritization"
+                  checked={includePrioritization}
+                  onCheckedChange={setIncludePrioritization}
+                />
+                <Label htmlFor="import-prioritization">Also load the prioritization weights from this file</Label>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              {(
+                [
+                  ["merge", "Merge with current rules"],
+                  ["replace", "Replace current rules"],
+                ] as const
+              ).map(([value, label]) => (
+                <Button
+                  key={value}
+                  size="sm"
+                  variant={mode === value ? "default" : "outline"}
+                  onClick={() => handleModeChange(value)}
+                >
+                  {label}
+                </Button>
+              ))}
+              <Button size="sm" onClick={handleApply} disabled={parsed.rules.length === 0} className="ml-auto">
+                Import {parsed.rules.length} rules
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500">
+              Merging updates rules with the same id and adds the rest; replacing discards your {rules.length} current
+              rules.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
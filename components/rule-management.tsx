@@ -5,20 +5,54 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Switch } from "@/components/ui/switch"
-import { Settings, Download, Trash2, Edit, CheckCircle, Zap, FileText, Copy } from "lucide-react"
+import {
+  Settings,
+  Download,
+  Trash2,
+  Edit,
+  CheckCircle,
+  Zap,
+  FileText,
+  Copy,
+  ArrowUp,
+  ArrowDown,
+  Upload,
+  FileJson,
+} from "lucide-react"
 import { RuleBuilder } from "@/components/rule-builder"
-import type { Rule } from "@/lib/rule-types"
+import { EffectiveRules } from "@/components/effective-rules"
+import { RuleImport } from "@/components/rule-import"
+import { RuleRevisions } from "@/components/rule-revisions"
 import { RuleValidator } from "@/lib/rule-types"
+import type { PrioritizationConfig } from "@/lib/prioritization"
+import { useRuleStore } from "@/lib/rule-store"
+import { PrecedenceResolver, sortByPriority } from "@/lib/rule-precedence"
+import { RuleSetImporter } from "@/lib/rule-set-schema"
+import { DataExporter } from "@/lib/data-exporter"
 
 interface RuleManagementProps {
-  initialRules?: Rule[]
-  onRulesChange?: (rules: Rule[]) => void
+  prioritization?: PrioritizationConfig
+  onPrioritizationImport?: (config: PrioritizationConfig) => void
 }
 
-export function RuleManagement({ initialRules = [], onRulesChange }: RuleManagementProps = {}) {
-  const [rules, setRules] = useState<Rule[]>(initialRules)
+export function RuleManagement({ prioritization, onPrioritizationImport }: RuleManagementProps = {}) {
+  const { rules, revisions, toggleRule, deleteRule, duplicateRule, moveRule } = useRuleStore()
   const [showBuilder, setShowBuilder] = useState(false)
-  const [selectedRule, setSelectedRule] = useState<Rule | null>(null)
+  const [showImport, setShowImport] = useState(false)
+  // Rule open in the editor; looked up by id so the editor closes if the rule is deleted
+  const [selectedRuleId, setSelectedRuleId] = useState<string | null>(null)
+  const selectedRule = rules.find((rule) => rule.id === selectedRuleId)
+
+  const orderedRules = useMemo(() => sortByPriority(rules), [rules])
+  const resolved = useMemo(() => PrecedenceResolver.resolve(rules), [rules])
+  const shadowedBy = useMemo(() => {
+    const byRule = new Map<string, string>()
+    resolved.resolutions.forEach((resolution) => {
+      if (resolution.status === "shadowed") byRule.set(resolution.rule.id, resolution.reason || "")
+    })
+    return byRule
+  }, [resolved])
+  const getRuleName = (id: string) => rules.find((rule) => rule.id === id)?.name ?? id
 
   const ruleStats = useMemo(() => {
     const enabled = rules.filter((r) => r.enabled).length
@@ -38,42 +72,8 @@ export function RuleManagement({ initialRules = [], onRulesChange }: RuleManagem
     }
   }, [rules])
 
-  const handleCreateRule = (rule: Rule) => {
-    const newRules = [...rules, rule]
-    setRules(newRules)
-    onRulesChange?.(newRules)
-    setShowBuilder(false)
-  }
-
-  const handleToggleRule = (ruleId: string) => {
-    const newRules = rules.map((rule) =>
-      rule.id === ruleId ? { ...rule, enabled: !rule.enabled, updatedAt: new Date() } : rule,
-    )
-    setRules(newRules)
-    onRulesChange?.(newRules)
-  }
-
-  const handleDeleteRule = (ruleId: string) => {
-    const newRules = rules.filter((rule) => rule.id !== ruleId)
-    setRules(newRules)
-    onRulesChange?.(newRules)
-  }
-
-  const handleDuplicateRule = (rule: Rule) => {
-    const duplicatedRule: Rule = {
-      ...rule,
-      id: `rule_${Date.now()}`,
-      name: `${rule.name} (Copy)`,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    }
-    const newRules = [...rules, duplicatedRule]
-    setRules(newRules)
-    onRulesChange?.(newRules)
-  }
-
   const generateRuleSet = () => {
-    const ruleSet = RuleValidator.generateRuleSet(rules)
+    const ruleSet = RuleValidator.generateRuleSet(rules, prioritization)
     const jsonString = JSON.stringify(ruleSet, null, 2)
 
     const blob = new Blob([jsonString], { type: "application/json" })
@@ -93,6 +93,9 @@ export function RuleManagement({ initialRules = [], onRulesChange }: RuleManagem
       phaseWindow: "bg-purple-100 text-purple-800",
       patternMatch: "bg-red-100 text-red-800",
       precedence: "bg-gray-100 text-gray-800",
+      exclusion: "bg-orange-100 text-orange-800",
+      minQualification: "bg-indigo-100 text-indigo-800",
+      affinity: "bg-teal-100 text-teal-800",
     }
     return colors[type as keyof typeof colors] || "bg-gray-100 text-gray-800"
   }
@@ -111,6 +114,12 @@ export function RuleManagement({ initialRules = [], onRulesChange }: RuleManagem
         return "🔍"
       case "precedence":
         return "📋"
+      case "exclusion":
+        return "⛔"
+      case "minQualification":
+        return "🎓"
+      case "affinity":
+        return "🤝"
       default:
         return "⚙️"
     }
@@ -130,9 +139,19 @@ export function RuleManagement({ initialRules = [], onRulesChange }: RuleManagem
               <CardDescription>Create and manage business rules for your resource allocation system</CardDescription>
             </div>
             <div className="flex gap-2">
-              <Button variant="outline" onClick={() => setShowBuilder(!showBuilder)}>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setSelectedRuleId(null)
+                  setShowBuilder(!showBuilder)
+                }}
+              >
                 {showBuilder ? "Hide Builder" : "New Rule"}
               </Button>
+              <Button variant="outline" onClick={() => setShowImport(!showImport)}>
+                <Upload className="w-4 h-4 mr-2" />
+                Import Rules
+              </Button>
               <Button onClick={generateRuleSet} disabled={rules.length === 0}>
                 <Download className="w-4 h-4 mr-2" />
                 Export Rules
@@ -176,8 +195,25 @@ export function RuleManagement({ initialRules = [], onRulesChange }: RuleManagem
         </CardContent>
       </Card>
 
+      {showImport && (
+        <RuleImport onClose={() => setShowImport(false)} onPrioritizationImport={onPrioritizationImport} />
+      )}
+
       {/* Rule Builder */}
-      {showBuilder && <RuleBuilder onRuleCreate={handleCreateRule} existingRules={rules} />}
+      {showBuilder && <RuleBuilder onRuleCreate={() => setShowBuilder(false)} />}
+
+      {/* Rule Editor: remounted after a revert so the form shows the restored version */}
+      {selectedRule && (
+        <>
+          <RuleBuilder
+            key={`${selectedRule.id}:${revisions[selectedRule.id]?.length ?? 0}`}
+            rule={selectedRule}
+            onRuleUpdate={() => setSelectedRuleId(null)}
+            onCancel={() => setSelectedRuleId(null)}
+          />
+          <RuleRevisions rule={selectedRule} />
+        </>
+      )}
 
       {/* Rules List */}
       {rules.length > 0 ? (
@@ -190,90 +226,148 @@ export function RuleManagement({ initialRules = [], onRulesChange }: RuleManagem
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              {rules
-                .sort((a, b) => b.priority - a.priority)
-                .map((rule) => (
-                  <div
-                    key={rule.id}
-                    className={`p-4 border rounded-lg transition-colors ${
-                      rule.enabled ? "bg-white" : "bg-gray-50 opacity-75"
-                    }`}
-                  >
-                    <div className="flex items-start justify-between">
-                      <div className="flex-1">
-                        <div className="flex items-center gap-3 mb-2">
-                          <span className="text-lg">{getRuleTypeIcon(rule.type)}</span>
-                          <h4 className="font-medium">{rule.name}</h4>
-                          <Badge className={getRuleTypeColor(rule.type)}>{rule.type}</Badge>
-                          <Badge variant="outline">Priority: {rule.priority}</Badge>
-                          {rule.enabled ? (
-                            <Badge variant="default" className="bg-green-100 text-green-800">
-                              <CheckCircle className="w-3 h-3 mr-1" />
-                              Enabled
-                            </Badge>
-                          ) : (
-                            <Badge variant="secondary">Disabled</Badge>
-                          )}
-                        </div>
+              {orderedRules.map((rule, index) => (
+                <div
+                  key={rule.id}
+                  className={`p-4 border rounded-lg transition-colors ${
+                    rule.enabled ? "bg-white" : "bg-gray-50 opacity-75"
+                  } ${rule.id === selectedRuleId ? "ring-2 ring-blue-300" : ""}`}
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-3 mb-2">
+                        <span className="text-lg">{getRuleTypeIcon(rule.type)}</span>
+                        <h4 className="font-medium">{rule.name}</h4>
+                        <Badge className={getRuleTypeColor(rule.type)}>{rule.type}</Badge>
+                        <Badge variant="outline">Priority: {rule.priority}</Badge>
+                        {rule.enabled ? (
+                          <Badge variant="default" className="bg-green-100 text-green-800">
+                            <CheckCircle className="w-3 h-3 mr-1" />
+                            Enabled
+                          </Badge>
+                        ) : (
+                          <Badge variant="secondary">Disabled</Badge>
+                        )}
+                        {shadowedBy.has(rule.id) && (
+                          <Badge
+                            variant="outline"
+                            className="bg-yellow-50 text-yellow-700"
+                            title={shadowedBy.get(rule.id)}
+                          >
+                            Shadowed
+                          </Badge>
+                        )}
+                      </div>
 
-                        {rule.description && <p className="text-sm text-gray-600 mb-2">{rule.description}</p>}
+                      {rule.description && <p className="text-sm text-gray-600 mb-2">{rule.description}</p>}
 
-                        {/* Rule-specific details */}
-                        <div className="text-xs text-gray-500 space-y-1">
-                          {rule.type === "coRun" && (
-                            <div>
-                              Tasks: {rule.tasks.join(", ")} •{" "}
-                              {rule.mustRunTogether ? "Must run together" : "Cannot run together"}
-                            </div>
-                          )}
-                          {rule.type === "slotRestriction" && (
-                            <div>
-                              {rule.targetType} group: {rule.groupName} • Min slots: {rule.minCommonSlots}
-                            </div>
-                          )}
-                          {rule.type === "loadLimit" && (
-                            <div>
-                              Worker group: {rule.workerGroup} • Max slots: {rule.maxSlotsPerPhase}
-                            </div>
-                          )}
-                          {rule.type === "phaseWindow" && (
-                            <div>
-                              Task: {rule.taskId} • Phases: {rule.allowedPhases.join(", ")} •{" "}
-                              {rule.strictMode ? "Strict" : "Flexible"}
-                            </div>
-                          )}
-                          {rule.type === "patternMatch" && (
-                            <div>
-                              {rule.entityType}.{rule.field} matches /{rule.pattern}/ → {rule.action}
-                            </div>
-                          )}
+                      {/* Rule-specific details */}
+                      <div className="text-xs text-gray-500 space-y-1">
+                        {rule.type === "coRun" && (
                           <div>
-                            Created: {rule.createdAt.toLocaleDateString()} • Updated:{" "}
-                            {rule.updatedAt.toLocaleDateString()}
+                            Tasks: {rule.tasks.join(", ")} •{" "}
+                            {rule.mustRunTogether ? "Must run together" : "Cannot run together"}
                           </div>
+                        )}
+                        {rule.type === "slotRestriction" && (
+                          <div>
+                            {rule.targetType} group: {rule.groupName} • Min slots: {rule.minCommonSlots}
+                          </div>
+                        )}
+                        {rule.type === "loadLimit" && (
+                          <div>
+                            Worker group: {rule.workerGroup} • Max slots: {rule.maxSlotsPerPhase}
+                          </div>
+                        )}
+                        {rule.type === "phaseWindow" && (
+                          <div>
+                            Task: {rule.taskId} • Phases: {rule.allowedPhases.join(", ")} •{" "}
+                            {rule.strictMode ? "Strict" : "Flexible"}
+                          </div>
+                        )}
+                        {rule.type === "precedence" && (
+                          <div>
+                            Global: {rule.globalRules.map(getRuleName).join(", ")} • Specific:{" "}
+                            {rule.specificRules.map(getRuleName).join(", ")} •{" "}
+                            {rule.conflictResolution === "merge" ? "Both apply" : `${rule.conflictResolution} wins`}
+                          </div>
+                        )}
+                        {rule.type === "patternMatch" && (
+                          <div>
+                            {rule.entityType}.{rule.field} matches /{rule.pattern}/ → {rule.action}
+                          </div>
+                        )}
+                        {rule.type === "exclusion" && (
+                          <div>
+                            Worker {rule.workerId} never works on{" "}
+                            {rule.targetType === "client" ? `client ${rule.targetId}'s tasks` : `task ${rule.targetId}`}
+                          </div>
+                        )}
+                        {rule.type === "minQualification" && (
+                          <div>
+                            Task: {rule.taskId} • QualificationLevel ≥ {rule.minLevel}
+                          </div>
+                        )}
+                        {rule.type === "affinity" && (
+                          <div>
+                            Client: {rule.clientId} • Worker group: {rule.workerGroup} •{" "}
+                            {rule.strictMode ? "Only this group" : "Preferred"}
+                          </div>
+                        )}
+                        <div>
+                          Created: {rule.createdAt.toLocaleDateString()} • Updated:{" "}
+                          {rule.updatedAt.toLocaleDateString()}
+                          {revisions[rule.id] && ` • ${revisions[rule.id].length} revisions`}
                         </div>
                       </div>
+                    </div>
 
-                      <div className="flex items-center gap-2">
-                        <Switch checked={rule.enabled} onCheckedChange={() => handleToggleRule(rule.id)} />
-                        <Button variant="ghost" size="sm" onClick={() => handleDuplicateRule(rule)}>
-                          <Copy className="w-4 h-4" />
-                        </Button>
-                        <Button variant="ghost" size="sm" onClick={() => setSelectedRule(rule)}>
-                          <Edit className="w-4 h-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleDeleteRule(rule.id)}
-                          className="text-red-600 hover:text-red-700"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
-                      </div>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => moveRule(rule.id, "up")}
+                        disabled={index === 0}
+                        title="Move up"
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => moveRule(rule.id, "down")}
+                        disabled={index === orderedRules.length - 1}
+                        title="Move down"
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </Button>
+                      <Switch checked={rule.enabled} onCheckedChange={() => toggleRule(rule.id)} />
+                      <Button variant="ghost" size="sm" onClick={() => duplicateRule(rule.id)}>
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          setShowBuilder(false)
+                          setSelectedRuleId(rule.id)
+                        }}
+                        title="Edit rule"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteRule(rule.id)}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
                     </div>
                   </div>
-                ))}
+                </div>
+              ))}
             </div>
           </CardContent>
         </Card>
@@ -295,6 +389,8 @@ export function RuleManagement({ initialRules = [], onRulesChange }: RuleManagem
         </Card>
       )}
 
+      {rules.length > 0 && <EffectiveRules resolved={resolved} />}
+
       {/* Rule Preview/Export */}
       {rules.length > 0 && (
         <Card>
@@ -308,7 +404,7 @@ export function RuleManagement({ initialRules = [], onRulesChange }: RuleManagem
           <CardContent>
             <div className="bg-gray-50 rounded-lg p-4 max-h-60 overflow-y-auto">
               <pre className="text-xs text-gray-700">
-                {JSON.stringify(RuleValidator.generateRuleSet(rules), null, 2)}
+                {JSON.stringify(RuleValidator.generateRuleSet(rules, prioritization), null, 2)}
               </pre>
             </div>
             <div className="mt-4 flex gap-2">
@@ -319,13 +415,22 @@ export function RuleManagement({ initialRules = [], onRulesChange }: RuleManagem
               <Button
                 variant="outline"
                 onClick={() => {
-                  const ruleSet = RuleValidator.generateRuleSet(rules)
+                  const ruleSet = RuleValidator.generateRuleSet(rules, prioritization)
                   navigator.clipboard.writeText(JSON.stringify(ruleSet, null, 2))
                 }}
               >
                 <Copy className="w-4 h-4 mr-2" />
                 Copy to Clipboard
               </Button>
+              <Button
+                variant="outline"
+                onClick={() =>
+                  DataExporter.download(RuleSetImporter.toSchemaJSON(), "rules.schema.json", "application/json")
+                }
+              >
+                <FileJson className="w-4 h-4 mr-2" />
+                JSON Schema
+              </Button>
             </div>
           </CardContent>
         </Card>
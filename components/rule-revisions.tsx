@@ -0,0 +1,147 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { History, RotateCcw, AlertTriangle } from "lucide-react"
+import { useRuleStore, selectRuleRevisions } from "@/lib/rule-store"
+import { RuleHistory, type RevisionSource, type RuleRevision } from "@/lib/rule-history"
+import { RuleValidator, type Rule } from "@/lib/rule-types"
+
+const SOURCE_LABELS: Record<RevisionSource, string> = {
+  original: "Original",
+  edit: "Edited",
+  revert: "Reverted",
+}
+
+interface RuleRevisionsProps {
+  rule: Rule
+}
+
+export function RuleRevisions({ rule }: RuleRevisionsProps) {
+  const revisions = useRuleStore(selectRuleRevisions(rule.id))
+  const { rules, revertRule } = useRuleStore()
+  const [errors, setErrors] = useState<{ revisionId: string; messages: string[] } | null>(null)
+
+  const formatValue = (value: any) => {
+    if (value === null || value === undefined || value === "") return <span className="text-gray-400">empty</span>
+    if (Array.isArray(value)) return value.join(", ")
+    if (typeof value === "object") return JSON.stringify(value)
+    return String(value)
+  }
+
+  // A revision may clash with rules added since it was saved, so it's re-validated like any edit
+  const handleRevert = (revision: RuleRevision) => {
+    const validation = RuleValidator.validateRule(RuleHistory.restore(revision, rule), rules)
+    if (!validation.isValid) {
+      setErrors({ revisionId: revision.id, messages: validation.errors })
+      return
+    }
+    setErrors(null)
+    revertRule(rule.id, revision.id)
+  }
+
+  const renderRevision = (revision: RuleRevision, index: number) => {
+    const previous = revisions[index - 1]
+    const changes = previous ? RuleHistory.diff(previous.rule, revision.rule) : []
+    // Toggling or moving a rule doesn't add a revision, so the latest one can lag behind the live rule
+    const isLatest = index === revisions.length - 1
+    const sinceSaved = isLatest ? RuleHistory.diff(revision.rule, rule) : []
+    const isCurrent = isLatest && sinceSaved.length === 0
+    const pending = RuleHistory.diff(rule, RuleHistory.restore(revision, rule))
+    const restored = revision.revertedFrom && revisions.find((r) => r.id === revision.revertedFrom)
+
+    return (
+      <div key={revision.id} className={`p-3 border rounded-lg space-y-2 ${isCurrent ? "bg-white" : "bg-gray-50"}`}>
+        <div className="flex items-center gap-2">
+          <span className="font-medium text-sm flex-1">
+            Revision {index + 1}
+            {restored && (
+              <span className="text-xs text-gray-500 ml-2">restores revision {revisions.indexOf(restored) + 1}</span>
+            )}
+          </span>
+          {isCurrent && <Badge className="bg-green-100 text-green-800">Current</Badge>}
+          {isLatest && !isCurrent && (
+            <Badge variant="outline" className="bg-yellow-50 text-yellow-700">
+              Since changed: {sinceSaved.map((change) => change.field).join(", ")}
+            </Badge>
+          )}
+          <Badge variant="outline">{SOURCE_LABELS[revision.source]}</Badge>
+          <span className="text-xs text-gray-500">{revision.savedAt.toLocaleString()}</span>
+          {!isCurrent && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleRevert(revision)}
+              disabled={pending.length === 0}
+              title={
+                pending.length === 0
+                  ? "Matches the current rule apart from enabled and priority, which a revert keeps"
+                  : "Restore this revision, keeping the current enabled state and priority"
+              }
+            >
+              <RotateCcw className="w-3 h-3 mr-1" />
+              Revert
+            </Button>
+          )}
+        </div>
+
+        {changes.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="h-8 text-xs">Field</TableHead>
+                <TableHead className="h-8 text-xs">Before</TableHead>
+                <TableHead className="h-8 text-xs">After</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {changes.map((change) => (
+                <TableRow key={change.field}>
+                  <TableCell className="py-1 text-xs font-mono">{change.field}</TableCell>
+                  <TableCell className="py-1 text-xs text-red-700">{formatValue(change.before)}</TableCell>
+                  <TableCell className="py-1 text-xs text-green-700">{formatValue(change.after)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {errors?.revisionId === revision.id && (
+          <div className="space-y-1">
+            {errors.messages.map((message, i) => (
+              <div key={i} className="flex items-center gap-2 text-red-600 text-xs">
+                <AlertTriangle className="w-3 h-3" />
+                {message}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="w-5 h-5" />
+          Revision History
+        </CardTitle>
+        <CardDescription>
+          Every saved version of "{rule.name}", oldest first. Reverting saves the old version as a new revision and
+          keeps the rule's current enabled state and priority.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {revisions.length === 0 ? (
+          <p className="text-sm text-gray-600">No edits yet. The first save keeps the current version as revision 1.</p>
+        ) : (
+          <div className="space-y-3 max-h-96 overflow-y-auto">{revisions.map(renderRevision)}</div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,82 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CheckCircle, EyeOff } from "lucide-react"
+import type { ValidationError } from "@/lib/validation-engine"
+import type { SuppressionKind, SuppressionScope } from "@/lib/suppressions"
+import { useSuppressionStore } from "@/lib/suppression-store"
+import { ValidatorRegistry } from "@/lib/validator-registry"
+
+interface SuppressionFormProps {
+  issue: ValidationError
+  onDone?: () => void
+}
+
+export function SuppressionForm({ issue, onDone }: SuppressionFormProps) {
+  const addSuppression = useSuppressionStore((state) => state.addSuppression)
+  const [scope, setScope] = useState<SuppressionScope>("issue")
+  const [reason, setReason] = useState("")
+  const checkName = ValidatorRegistry.get(issue.checkId || "")?.name ?? issue.checkId
+
+  const submit = (kind: SuppressionKind) => {
+    if (!issue.checkId || !reason.trim()) return
+
+    addSuppression({
+      kind,
+      scope,
+      checkId: issue.checkId,
+      entityType: scope === "check" ? undefined : issue.entityType,
+      recordId: scope === "check" ? undefined : issue.recordId,
+      issueId: scope === "issue" ? issue.id : undefined,
+      reason: reason.trim(),
+    })
+    setReason("")
+    onDone?.()
+  }
+
+  return (
+    <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+      <div className="text-sm font-medium">Acknowledge or suppress</div>
+      <Select value={scope} onValueChange={(value) => setScope(value as SuppressionScope)}>
+        <SelectTrigger className="h-8 text-sm bg-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="issue">Only this issue</SelectItem>
+          {issue.recordId && (
+            <SelectItem value="record">
+              Every {checkName} issue on {issue.recordId}
+            </SelectItem>
+          )}
+          <SelectItem value="check">Every {checkName} issue, for all records</SelectItem>
+        </SelectContent>
+      </Select>
+      <div className="space-y-1">
+        <Label htmlFor={`reason-${issue.id}`} className="text-xs">
+          Reason (required)
+        </Label>
+        <Textarea
+          id={`reason-${issue.id}`}
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="e.g. Intentional: this task runs in parallel across teams"
+          className="text-sm bg-white min-h-[60px]"
+        />
+      </div>
+      <div className="flex gap-2">
+        <Button size="sm" variant="outline" disabled={!reason.trim()} onClick={() => submit("acknowledged")}>
+          <CheckCircle className="w-3 h-3 mr-1" />
+          Acknowledge
+        </Button>
+        <Button size="sm" variant="outline" disabled={!reason.trim()} onClick={() => submit("suppressed")}>
+          <EyeOff className="w-3 h-3 mr-1" />
+          Suppress
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,168 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CheckCircle, XCircle, MinusCircle, Settings, RotateCcw } from "lucide-react"
+import { ValidatorRegistry, VALIDATOR_CATEGORIES, type ValidatorCategory } from "@/lib/validator-registry"
+import { useValidatorStore } from "@/lib/validator-store"
+import type { CheckResult } from "@/lib/validation-engine"
+
+interface ValidationChecksProps {
+  checks: CheckResult[]
+}
+
+export function ValidationChecks({ checks }: ValidationChecksProps) {
+  const { settings, setEnabled, setSeverity, setParam, resetValidator } = useValidatorStore()
+  const [expandedCheck, setExpandedCheck] = useState<string | null>(null)
+
+  const categories = Object.keys(VALIDATOR_CATEGORIES) as ValidatorCategory[]
+
+  const getStatusIcon = (check: CheckResult) => {
+    switch (check.status) {
+      case "passed":
+        return <CheckCircle className="w-4 h-4 text-green-600" />
+      case "failed":
+        return <XCircle className={`w-4 h-4 ${check.errorCount > 0 ? "text-red-600" : "text-yellow-600"}`} />
+      default:
+        return <MinusCircle className="w-4 h-4 text-gray-400" />
+    }
+  }
+
+  const getStatusText = (check: CheckResult) => {
+    if (check.status === "disabled") return "Disabled"
+    if (check.status === "passed") return "Passed"
+    return [
+      check.errorCount > 0 && `${check.errorCount} errors`,
+      check.warningCount > 0 && `${check.warningCount} warnings`,
+    ]
+      .filter(Boolean)
+      .join(", ")
+  }
+
+  return (
+    <div className="space-y-4">
+      {categories.map((category) => {
+        const categoryChecks = checks.filter((check) => check.category === category)
+        if (categoryChecks.length === 0) return null
+
+        const failed = categoryChecks.filter((check) => check.status === "failed").length
+
+        return (
+          <div key={category} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h5 className="text-sm font-medium text-gray-700">{VALIDATOR_CATEGORIES[category]}</h5>
+              <span className="text-xs text-gray-500">
+                {failed === 0 ? "All passed" : `${failed} of ${categoryChecks.length} checks failing`}
+              </span>
+            </div>
+
+            {categoryChecks.map((check) => {
+              const validator = ValidatorRegistry.get(check.id)
+              const setting = settings[check.id]
+              const isExpanded = expandedCheck === check.id
+              const params = validator ? ValidatorRegistry.getParams(validator, setting) : {}
+
+              return (
+                <div
+                  key={check.id}
+                  className={`p-3 rounded-lg border ${check.status === "disabled" ? "bg-gray-50 opacity-60" : "bg-white"}`}
+                >
+                  <div className="flex items-center gap-3">
+                    {getStatusIcon(check)}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-sm">{check.name}</span>
+                        {!ValidatorRegistry.isBuiltIn(check.id) && <Badge variant="outline">custom</Badge>}
+                        {setting?.severity && (
+                          <Badge variant="outline" className="text-xs">
+                            {check.severity}
+                          </Badge>
+                        )}
+                      </div>
+                      {validator && <div className="text-xs text-gray-500 truncate">{validator.description}</div>}
+                    </div>
+                    <span className="text-xs text-gray-600 whitespace-nowrap">{getStatusText(check)}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setExpandedCheck(isExpanded ? null : check.id)}
+                      title="Configure check"
+                    >
+                      <Settings className="w-4 h-4" />
+                    </Button>
+                    <Switch
+                      checked={check.status !== "disabled"}
+                      onCheckedChange={(enabled) => setEnabled(check.id, enabled)}
+                    />
+                  </div>
+
+                  {isExpanded && validator && (
+                    <div className="mt-3 pt-3 border-t grid grid-cols-1 md:grid-cols-3 gap-3">
+                      <div className="space-y-1">
+                        <Label className="text-xs">Severity</Label>
+                        <Select
+                          value={setting?.severity ?? "default"}
+                          onValueChange={(value) =>
+                            setSeverity(check.id, value === "default" ? undefined : (value as CheckResult["severity"]))
+                          }
+                        >
+                          <SelectTrigger className="h-8 text-sm">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="default">Default ({validator.defaultSeverity})</SelectItem>
+                            <SelectItem value="high">High (blocks export)</SelectItem>
+                            <SelectItem value="medium">Medium</SelectItem>
+                            <SelectItem value="low">Low (warning only)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      {(validator.parameters || []).map((parameter) => (
+                        <div key={parameter.key} className="space-y-1">
+                          <Label className="text-xs">{parameter.label}</Label>
+                          <Input
+                            type="number"
+                            className="h-8 text-sm"
+                            min={parameter.min}
+                            max={parameter.max}
+                            step={parameter.step}
+                            value={params[parameter.key]}
+                            onChange={(e) =>
+                              setParam(
+                                check.id,
+                                parameter.key,
+                                e.target.value === "" ? undefined : Number.parseFloat(e.target.value),
+                              )
+                            }
+                          />
+                        </div>
+                      ))}
+
+                      <div className="flex items-end">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => resetValidator(check.id)}
+                          disabled={!setting}
+                        >
+                          <RotateCcw className="w-3 h-3 mr-1" />
+                          Reset to defaults
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -1,81 +1,58 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useMemo } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { AlertTriangle, CheckCircle, XCircle, Info, RefreshCw, Zap, AlertCircle, TrendingUp } from "lucide-react"
-import { ValidationEngine, type ValidationResult, type ValidationError } from "@/lib/validation-engine"
+import {
+  AlertTriangle,
+  CheckCircle,
+  XCircle,
+  Info,
+  RefreshCw,
+  Zap,
+  AlertCircle,
+  TrendingUp,
+  RotateCcw,
+  FileText,
+  FileJson,
+} from "lucide-react"
+import type { ValidationError } from "@/lib/validation-engine"
+import { useValidation } from "@/lib/validation-store"
+import { useRuleStore, selectRules } from "@/lib/rule-store"
+import { useValidatorStore, selectValidatorSettings } from "@/lib/validator-store"
+import { ValidatorRegistry } from "@/lib/validator-registry"
+import { FixEngine, type FixProposal } from "@/lib/fix-providers"
+import { FixPreview } from "@/components/fix-preview"
+import { ValidationChecks } from "@/components/validation-checks"
+import { SuppressionForm } from "@/components/suppression-form"
+import { useSuppressionStore, selectSuppressions } from "@/lib/suppression-store"
+import type { Suppression } from "@/lib/suppressions"
+import { ValidationReport } from "@/lib/validation-report"
+import { DataExporter } from "@/lib/data-exporter"
 import { useDataStore } from "@/lib/store"
 
 export function ValidationPanel() {
-  const { clients, workers, tasks, updateRecord } = useDataStore()
-  const [validationResult, setValidationResult] = useState<ValidationResult | null>(null)
-  const [isValidating, setIsValidating] = useState(false)
+  const { clients, workers, tasks, updateRecord, batch } = useDataStore()
+  const validatorSettings = useValidatorStore(selectValidatorSettings)
+  const rules = useRuleStore(selectRules)
   const [selectedError, setSelectedError] = useState<ValidationError | null>(null)
+  const [previewKind, setPreviewKind] = useState<string | null>(null)
+  const [issueFilter, setIssueFilter] = useState<"open" | "acknowledged" | "suppressed">("open")
+  const suppressions = useSuppressionStore(selectSuppressions)
+  const removeSuppression = useSuppressionStore((state) => state.removeSuppression)
+  const { result: validationResult, changes, isValidating, revalidate: runValidation } = useValidation()
 
-  const runValidation = async () => {
-    setIsValidating(true)
-
-    // Simulate validation processing time
-    await new Promise((resolve) => setTimeout(resolve, 500))
-
-    const engine = new ValidationEngine(clients, workers, tasks)
-    const result = engine.validateAll()
-    setValidationResult(result)
-    setIsValidating(false)
-  }
-
-  useEffect(() => {
-    if (clients.length > 0 || workers.length > 0 || tasks.length > 0) {
-      runValidation()
-    }
-  }, [clients, workers, tasks])
-
-  // Add this after the existing useEffect
-  useEffect(() => {
-    // Real-time validation with debouncing
-    const timeoutId = setTimeout(() => {
-      if (clients.length > 0 || workers.length > 0 || tasks.length > 0) {
-        runValidation()
-      }
-    }, 300) // 300ms debounce
-
-    return () => clearTimeout(timeoutId)
-  }, [clients, workers, tasks])
-
-  // Enhanced validation summary with progress indicators
+  // Share of enabled checks that came back clean
   const getValidationProgress = () => {
     if (!validationResult) return 0
 
-    const totalChecks = 12 // Total number of validation rules
-    const passedChecks = totalChecks - validationResult.summary.totalErrors - validationResult.summary.totalWarnings
-    return Math.round((passedChecks / totalChecks) * 100)
-  }
-
-  // Add validation rule breakdown
-  const getValidationBreakdown = () => {
-    if (!validationResult) return []
+    const enabledChecks = validationResult.checks.filter((check) => check.status !== "disabled")
+    if (enabledChecks.length === 0) return 100
 
-    const ruleCategories = [
-      { name: "Data Structure", rules: ["missing-column", "duplicate-id", "malformed"] },
-      { name: "Data Quality", rules: ["range", "broken-json", "unknown"] },
-      { name: "Business Logic", rules: ["overloaded", "skill-coverage", "max-concurrency"] },
-      { name: "Advanced Rules", rules: ["circular", "conflicting", "phase-saturation"] },
-    ]
-
-    return ruleCategories.map((category) => {
-      const categoryErrors = [...validationResult.errors, ...validationResult.warnings].filter((error) =>
-        category.rules.some((rule) => error.id.includes(rule)),
-      )
-
-      return {
-        ...category,
-        errorCount: categoryErrors.length,
-        status: categoryErrors.length === 0 ? "✅" : "❌",
-      }
-    })
+    const passedChecks = enabledChecks.filter((check) => check.status === "passed").length
+    return Math.round((passedChecks / enabledChecks.length) * 100)
   }
 
   const getSeverityIcon = (severity: string) => {
@@ -104,31 +81,97 @@ export function ValidationPanel() {
     }
   }
 
-  const handleAutoFix = async (error: ValidationError) => {
-    // Implement auto-fix logic based on error type
-    switch (error.id.split("-")[0]) {
-      case "duplicate":
-        // Generate new unique ID
-        const newId = `${error.entityType.slice(0, 1).toUpperCase()}${Date.now()}`
-        updateRecord(error.entityType, error.rowIndex, error.field, newId)
-        break
-
-      case "priority":
-        // Fix priority to valid range
-        updateRecord(error.entityType, error.rowIndex, error.field, 3)
-        break
-
-      case "duration":
-        // Fix duration to minimum valid value
-        updateRecord(error.entityType, error.rowIndex, error.field, 1)
-        break
+  const allIssues = useMemo(
+    () => (validationResult ? [...validationResult.errors, ...validationResult.warnings] : []),
+    [validationResult],
+  )
 
-      default:
-        console.log("Auto-fix not implemented for this error type")
-    }
+  // Concrete fixes for every fixable issue, computed against the data the result was produced from
+  const proposals = useMemo(() => {
+    const byIssue = new Map<string, FixProposal>()
+    FixEngine.proposeAll(allIssues, { clients, workers, tasks }, validatorSettings).forEach((proposal) =>
+      byIssue.set(proposal.issueId, proposal),
+    )
+    return byIssue
+  }, [allIssues, clients, workers, tasks, validatorSettings])
+
+  const suppressionsById = useMemo(
+    () => new Map(suppressions.map((suppression) => [suppression.id, suppression])),
+    [suppressions],
+  )
+
+  const acknowledgedIssues = useMemo(
+    () =>
+      (validationResult?.suppressed || []).filter(
+        (issue) => suppressionsById.get(issue.suppressionId || "")?.kind === "acknowledged",
+      ),
+    [validationResult, suppressionsById],
+  )
+  const suppressedIssues = useMemo(
+    () =>
+      (validationResult?.suppressed || []).filter(
+        (issue) => suppressionsById.get(issue.suppressionId || "")?.kind === "suppressed",
+      ),
+    [validationResult, suppressionsById],
+  )
+  // Acknowledged issues stay in the open list, after the active ones, but don't count towards it
+  const openIssues = useMemo(() => [...allIssues, ...acknowledgedIssues], [allIssues, acknowledgedIssues])
+  const listedIssues =
+    issueFilter === "acknowledged" ? acknowledgedIssues : issueFilter === "suppressed" ? suppressedIssues : openIssues
+
+  const describeSuppression = (suppression: Suppression) => {
+    const checkName = ValidatorRegistry.get(suppression.checkId)?.name ?? suppression.checkId
+    if (suppression.scope === "issue") return "this issue"
+    if (suppression.scope === "record") return `all ${checkName} issues on ${suppression.recordId}`
+    return `all ${checkName} issues`
+  }
 
-    // Re-run validation after fix
-    setTimeout(runValidation, 100)
+  const newIssueIds = useMemo(() => new Set(changes ? changes.added.map((issue) => issue.id) : []), [changes])
+
+  const fixKinds = useMemo(() => {
+    const kinds = new Map<string, ValidationError[]>()
+    allIssues.forEach((issue) => {
+      if (!proposals.has(issue.id) || !issue.checkId) return
+      kinds.set(issue.checkId, [...(kinds.get(issue.checkId) || []), issue])
+    })
+    return Array.from(kinds.entries()).map(([checkId, issues]) => ({
+      checkId,
+      name: ValidatorRegistry.get(checkId)?.name ?? checkId,
+      issues,
+    }))
+  }, [allIssues, proposals])
+
+  // All fixes land in one history step so a single undo reverts them
+  const applyFixes = (issues: ValidationError[], label: string) => {
+    batch(label, "auto-fix", () => {
+      FixEngine.applyAll(
+        issues,
+        () => useDataStore.getState(),
+        (edit) => updateRecord(edit.entityType, edit.rowIndex, edit.field, edit.after, "auto-fix"),
+        validatorSettings,
+      )
+    })
+    setSelectedError(null)
+  }
+
+  const handleAutoFix = (error: ValidationError) => {
+    const proposal = proposals.get(error.id)
+    if (proposal) applyFixes([error], proposal.label)
+  }
+
+  const handleFixAll = () => {
+    const fixable = allIssues.filter((issue) => proposals.has(issue.id))
+    applyFixes(fixable, `Auto-fixed ${fixable.length} issues`)
+  }
+
+  // Reports are built from the result as shown, so suppressed items land in their own section
+  const downloadReport = (format: "html" | "json") => {
+    if (!validationResult) return
+
+    const report = ValidationReport.build({ result: validationResult, clients, workers, tasks, rules, suppressions })
+    const filename = `validation-report-${report.fingerprint.dataset}.${format}`
+    if (format === "html") DataExporter.download(ValidationReport.toHTML(report), filename, "text/html")
+    else DataExporter.download(ValidationReport.toJSON(report), filename, "application/json")
   }
 
   if (!validationResult && !isValidating) {
@@ -161,10 +204,31 @@ export function ValidationPanel() {
               )}
               Data Validation
             </CardTitle>
-            <Button onClick={runValidation} disabled={isValidating} size="sm">
-              <RefreshCw className="w-4 h-4 mr-2" />
-              Re-validate
-            </Button>
+            <div className="flex gap-2">
+              <Button
+                onClick={() => downloadReport("html")}
+                disabled={!validationResult || isValidating}
+                size="sm"
+                variant="outline"
+                title="Standalone report; print it to save as PDF"
+              >
+                <FileText className="w-4 h-4 mr-2" />
+                Report
+              </Button>
+              <Button
+                onClick={() => downloadReport("json")}
+                disabled={!validationResult || isValidating}
+                size="sm"
+                variant="outline"
+              >
+                <FileJson className="w-4 h-4 mr-2" />
+                JSON
+              </Button>
+              <Button onClick={runValidation} disabled={isValidating} size="sm">
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Re-validate
+              </Button>
+            </div>
           </div>
           <CardDescription>
             {isValidating ? "Running validation checks..." : "Real-time data quality analysis"}
@@ -232,22 +296,10 @@ export function ValidationPanel() {
                 </div>
               </div>
 
-              {/* Validation Rule Breakdown */}
+              {/* Validation Checks */}
               <div className="space-y-3">
-                <h4 className="font-medium text-gray-900">Validation Categories</h4>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                  {getValidationBreakdown().map((category, idx) => (
-                    <div key={idx} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-                      <div className="flex items-center gap-2">
-                        <span className="text-lg">{category.status}</span>
-                        <span className="font-medium text-sm">{category.name}</span>
-                      </div>
-                      <div className="text-sm text-gray-600">
-                        {category.errorCount === 0 ? "All passed" : `${category.errorCount} issues`}
-                      </div>
-                    </div>
-                  ))}
-                </div>
+                <h4 className="font-medium text-gray-900">Validation Checks</h4>
+                <ValidationChecks checks={validationResult.checks} />
               </div>
 
               {/* Status Alert */}
@@ -280,18 +332,111 @@ export function ValidationPanel() {
       </Card>
 
       {/* Error List */}
-      {validationResult && (validationResult.errors.length > 0 || validationResult.warnings.length > 0) && (
+      {validationResult && (allIssues.length > 0 || validationResult.suppressed.length > 0) && (
         <Card>
           <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <AlertTriangle className="w-5 h-5" />
-              Issues Found
-            </CardTitle>
-            <CardDescription>Click on any issue to see details and suggested fixes</CardDescription>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <AlertTriangle className="w-5 h-5" />
+                  Issues Found
+                </CardTitle>
+                <CardDescription>Click on any issue to see details and suggested fixes</CardDescription>
+                {changes && (changes.added.length > 0 || changes.resolved.length > 0) && (
+                  <div className="flex gap-2 mt-2">
+                    {changes.added.length > 0 && (
+                      <Badge variant="outline" className="text-xs bg-red-50 text-red-700">
+                        {changes.added.length} new
+                      </Badge>
+                    )}
+                    {changes.resolved.length > 0 && (
+                      <Badge variant="outline" className="text-xs bg-green-50 text-green-700">
+                        {changes.resolved.length} resolved
+                      </Badge>
+                    )}
+                    <span className="text-xs text-gray-500">since the last check</span>
+                  </div>
+                )}
+              </div>
+              {issueFilter === "open" && proposals.size > 0 && (
+                <Button size="sm" variant="outline" onClick={handleFixAll}>
+                  <Zap className="w-4 h-4 mr-2" />
+                  Fix All ({proposals.size})
+                </Button>
+              )}
+            </div>
           </CardHeader>
           <CardContent>
+            {/* Open / acknowledged / suppressed filter */}
+            <div className="flex gap-2 mb-4">
+              {(
+                [
+                  [
+                    "open",
+                    "Open",
+                    acknowledgedIssues.length > 0
+                      ? `${allIssues.length} + ${acknowledgedIssues.length} acknowledged`
+                      : allIssues.length,
+                  ],
+                  ["acknowledged", "Acknowledged", acknowledgedIssues.length],
+                  ["suppressed", "Suppressed", suppressedIssues.length],
+                ] as const
+              ).map(([filter, label, count]) => (
+                <Button
+                  key={filter}
+                  size="sm"
+                  variant={issueFilter === filter ? "default" : "outline"}
+                  onClick={() => setIssueFilter(filter)}
+                >
+                  {label} ({count})
+                </Button>
+              ))}
+            </div>
+
+            {/* Fixes grouped by kind */}
+            {issueFilter === "open" && fixKinds.length > 0 && (
+              <div className="mb-4 space-y-2">
+                {fixKinds.map((kind) => (
+                  <div key={kind.checkId} className="p-3 bg-gray-50 rounded-lg border">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm">
+                        <span className="font-medium">{kind.name}</span>: {kind.issues.length} fixable
+                      </span>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setPreviewKind(previewKind === kind.checkId ? null : kind.checkId)}
+                        >
+                          {previewKind === kind.checkId ? "Hide" : "Preview"}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() =>
+                            applyFixes(kind.issues, `Auto-fixed ${kind.issues.length} ${kind.name} issues`)
+                          }
+                        >
+                          <Zap className="w-3 h-3 mr-1" />
+                          Fix all {kind.issues.length}
+                        </Button>
+                      </div>
+                    </div>
+                    {previewKind === kind.checkId && (
+                      <div className="mt-3">
+                        <FixPreview proposals={kind.issues.map((issue) => proposals.get(issue.id)!)} />
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
             <div className="space-y-3 max-h-96 overflow-y-auto">
-              {[...validationResult.errors, ...validationResult.warnings].map((error, index) => (
+              {listedIssues.length === 0 && (
+                <div className="text-sm text-gray-500 text-center py-6">No {issueFilter} issues</div>
+              )}
+              {listedIssues.map((error) => (
                 <div
                   key={error.id}
                   className={`p-4 rounded-lg border cursor-pointer transition-colors ${
@@ -310,13 +455,38 @@ export function ValidationPanel() {
                           <Badge variant="outline" className="text-xs">
                             {error.entityType}
                           </Badge>
-                          {error.rowIndex >= 0 && (
+                          {error.recordId && (
                             <Badge variant="outline" className="text-xs">
-                              Row {error.rowIndex + 1}
+                              {error.recordId}
+                            </Badge>
+                          )}
+                          {newIssueIds.has(error.id) && (
+                            <Badge variant="outline" className="text-xs bg-red-50 text-red-700">
+                              New
+                            </Badge>
+                          )}
+                          {suppressionsById.get(error.suppressionId || "")?.kind === "acknowledged" && (
+                            <Badge variant="outline" className="text-xs bg-green-50 text-green-700">
+                              Acknowledged
+                            </Badge>
+                          )}
+                          {error.ruleId && (
+                            <Badge variant="outline" className="text-xs bg-purple-50 text-purple-700">
+                              Rule: {rules.find((rule) => rule.id === error.ruleId)?.name ?? error.ruleId}
                             </Badge>
                           )}
                         </div>
                         <div className="text-sm opacity-75">Field: {error.field}</div>
+                        {error.suppressionId && suppressionsById.has(error.suppressionId) && (
+                          <div className="text-sm mt-1">
+                            🗒️{" "}
+                            {suppressionsById.get(error.suppressionId)!.kind === "acknowledged"
+                              ? "Acknowledged"
+                              : "Suppressed"}{" "}
+                            {describeSuppression(suppressionsById.get(error.suppressionId)!)}:{" "}
+                            <span className="italic">{suppressionsById.get(error.suppressionId)!.reason}</span>
+                          </div>
+                        )}
 
                         {selectedError?.id === error.id && (
                           <div className="mt-3 pt-3 border-t border-current/20">
@@ -327,18 +497,45 @@ export function ValidationPanel() {
                               </div>
                             )}
 
-                            {error.autoFixable && (
+                            {proposals.has(error.id) && (
+                              <div className="space-y-2">
+                                <div className="text-sm font-medium">
+                                  🔧 Proposed fix: {proposals.get(error.id)!.label}
+                                </div>
+                                <FixPreview proposals={[proposals.get(error.id)!]} />
+                                <Button
+                                  size="sm"
+                                  onClick={(e) => {
+                                    e.stopPropagation()
+                                    handleAutoFix(error)
+                                  }}
+                                  className="mr-2"
+                                >
+                                  <Zap className="w-3 h-3 mr-1" />
+                                  Apply Fix
+                                </Button>
+                              </div>
+                            )}
+
+                            {error.suppressionId ? (
                               <Button
                                 size="sm"
+                                variant="outline"
                                 onClick={(e) => {
                                   e.stopPropagation()
-                                  handleAutoFix(error)
+                                  removeSuppression(error.suppressionId!)
+                                  setSelectedError(null)
                                 }}
-                                className="mr-2"
                               >
-                                <Zap className="w-3 h-3 mr-1" />
-                                Auto Fix
+                                <RotateCcw className="w-3 h-3 mr-1" />
+                                Reopen
                               </Button>
+                            ) : (
+                              error.checkId && (
+                                <div className="mt-3">
+                                  <SuppressionForm issue={error} onDone={() => setSelectedError(null)} />
+                                </div>
+                              )
                             )}
                           </div>
                         )}
@@ -349,7 +546,7 @@ export function ValidationPanel() {
                       <Badge variant={error.type === "error" ? "destructive" : "secondary"} className="text-xs">
                         {error.type}
                       </Badge>
-                      {error.autoFixable && (
+                      {proposals.has(error.id) && (
                         <Badge variant="outline" className="text-xs">
                           <Zap className="w-3 h-3 mr-1" />
                           Fixable
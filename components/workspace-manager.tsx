@@ -0,0 +1,310 @@
+"use client"
+
+import { useState, useEffect, useRef } from "react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Database, FolderOpen, Plus, Trash2, RotateCcw, Pencil, Check } from "lucide-react"
+import { useDataStore } from "@/lib/store"
+import { WorkspacePersistence, type Workspace, type WorkspaceSummary } from "@/lib/persistence"
+import { useRuleStore } from "@/lib/rule-store"
+import { useValidatorStore } from "@/lib/validator-store"
+import { useSuppressionStore } from "@/lib/suppression-store"
+import type { PrioritizationConfig } from "@/lib/prioritization"
+
+interface WorkspaceManagerProps {
+  prioritization: PrioritizationConfig
+  onRestore: (workspace: Workspace) => void
+}
+
+const AUTOSAVE_DELAY = 800
+
+export function WorkspaceManager({ prioritization, onRestore }: WorkspaceManagerProps) {
+  const { clients, workers, tasks, loadSnapshot } = useDataStore()
+  const rules = useRuleStore((state) => state.rules)
+  const ruleRevisions = useRuleStore((state) => state.revisions)
+  const validatorSettings = useValidatorStore((state) => state.settings)
+  const suppressions = useSuppressionStore((state) => state.suppressions)
+  const [active, setActive] = useState<{ id: string; name: string } | null>(null)
+  const [restoreCandidate, setRestoreCandidate] = useState<WorkspaceSummary | null>(null)
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([])
+  const [showList, setShowList] = useState(false)
+  const [isRenaming, setIsRenaming] = useState(false)
+  const [nameDraft, setNameDraft] = useState("")
+  const [status, setStatus] = useState<"idle" | "saving" | "saved" | "error" | "unavailable">("idle")
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null)
+  // Autosave stays off until the user has answered the restore prompt, so an empty session can't overwrite it
+  const [ready, setReady] = useState(false)
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const buildWorkspace = (target: { id: string; name: string }): Workspace => ({
+    ...WorkspacePersistence.createWorkspace(target.name),
+    id: target.id,
+    data: { clients, workers, tasks },
+    rules,
+    ruleRevisions,
+    prioritization,
+    validatorSettings,
+    suppressions,
+  })
+
+  const refreshList = async () => {
+    try {
+      setWorkspaces(await WorkspacePersistence.listWorkspaces())
+    } catch (error) {
+      console.error("Failed to list workspaces:", error)
+    }
+  }
+
+  const startFresh = (name = `Workspace ${new Date().toLocaleDateString()}`) => {
+    const workspace = WorkspacePersistence.createWorkspace(name)
+    setActive({ id: workspace.id, name: workspace.name })
+    setRestoreCandidate(null)
+    setReady(true)
+    return workspace
+  }
+
+  // 1. Offer to restore the last session on first load
+  useEffect(() => {
+    if (!WorkspacePersistence.isAvailable()) {
+      setStatus("unavailable")
+      return
+    }
+
+    const checkLastSession = async () => {
+      try {
+        const lastId = await WorkspacePersistence.getLastActiveId()
+        const summaries = await WorkspacePersistence.listWorkspaces()
+        setWorkspaces(summaries)
+
+        const last = summaries.find((summary) => summary.id === lastId)
+        const hasContent = last && !last.error && Object.values(last.counts).some((count) => count > 0)
+        if (last && hasContent) {
+          setRestoreCandidate(last)
+        } else {
+          startFresh()
+        }
+      } catch (error) {
+        console.error("Failed to check for a previous session:", error)
+        setStatus("error")
+        startFresh()
+      }
+    }
+
+    checkLastSession()
+  }, [])
+
+  // 2. Debounced autosave of data, rules and their history, priorities, validator settings and suppressions
+  useEffect(() => {
+    if (!ready || !active || status === "unavailable") return
+
+    if (saveTimer.current) clearTimeout(saveTimer.current)
+    saveTimer.current = setTimeout(async () => {
+      setStatus("saving")
+      try {
+        await WorkspacePersistence.saveWorkspace(buildWorkspace(active))
+        setStatus("saved")
+        setLastSavedAt(new Date())
+      } catch (error) {
+        console.error("Failed to save workspace:", error)
+        setStatus("error")
+      }
+    }, AUTOSAVE_DELAY)
+
+    return () => {
+      if (saveTimer.current) clearTimeout(saveTimer.current)
+    }
+  }, [clients, workers, tasks, rules, ruleRevisions, prioritization, validatorSettings, suppressions, active, ready])
+
+  const openWorkspace = async (id: string) => {
+    try {
+      // Flush the current workspace before switching so nothing typed in the last moments is lost
+      if (active && ready) await WorkspacePersistence.saveWorkspace(buildWorkspace(active))
+
+      const workspace = await WorkspacePersistence.loadWorkspace(id)
+      if (!workspace) {
+        alert("❌ Workspace not found")
+        return
+      }
+
+      loadSnapshot(workspace.data)
+      onRestore(workspace)
+      setActive({ id: workspace.id, name: workspace.name })
+      setRestoreCandidate(null)
+      setShowList(false)
+      setReady(true)
+      await WorkspacePersistence.setLastActiveId(workspace.id)
+    } catch (error) {
+      alert(`❌ Failed to open workspace: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  const createWorkspace = async () => {
+    if (active && ready) await WorkspacePersistence.saveWorkspace(buildWorkspace(active))
+
+    const workspace = startFresh(`Workspace ${workspaces.length + 1}`)
+    loadSnapshot(workspace.data)
+    onRestore(workspace)
+    setShowList(false)
+  }
+
+  const deleteWorkspace = async (summary: WorkspaceSummary) => {
+    if (!confirm(`Delete workspace "${summary.name}"? This cannot be undone.`)) return
+
+    await WorkspacePersistence.deleteWorkspace(summary.id)
+    await refreshList()
+  }
+
+  const commitRename = () => {
+    const name = nameDraft.trim()
+    if (active && name) setActive({ ...active, name })
+    setIsRenaming(false)
+  }
+
+  const getStatusText = () => {
+    switch (status) {
+      case "saving":
+        return "Saving..."
+      case "saved":
+        return lastSavedAt ? `Saved ${lastSavedAt.toLocaleTimeString()}` : "Saved"
+      case "error":
+        return "Not saved"
+      case "unavailable":
+        return "Browser storage unavailable"
+      default:
+        return ""
+    }
+  }
+
+  return (
+    <div className="space-y-3 mb-6">
+      {/* Restore Prompt */}
+      {restoreCandidate && (
+        <Alert className="bg-blue-50 border-blue-200">
+          <RotateCcw className="h-4 w-4 text-blue-600" />
+          <AlertDescription className="text-blue-800">
+            <div className="flex items-center justify-between gap-4">
+              <span>
+                Restore your last session <strong>{restoreCandidate.name}</strong> from{" "}
+                {restoreCandidate.savedAt.toLocaleString()}? ({restoreCandidate.counts.clients} clients,{" "}
+                {restoreCandidate.counts.workers} workers, {restoreCandidate.counts.tasks} tasks,{" "}
+                {restoreCandidate.counts.rules} rules)
+              </span>
+              <div className="flex gap-2 shrink-0">
+                <Button size="sm" onClick={() => openWorkspace(restoreCandidate.id)}>
+                  Restore
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => startFresh()}>
+                  Start Fresh
+                </Button>
+              </div>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Workspace Bar */}
+      {active && (
+        <Card>
+          <CardContent className="py-3">
+            <div className="flex items-center gap-3">
+              <Database className="w-4 h-4 text-gray-500" />
+              {isRenaming ? (
+                <div className="flex items-center gap-1">
+                  <Input
+                    value={nameDraft}
+                    onChange={(e) => setNameDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") commitRename()
+                      if (e.key === "Escape") setIsRenaming(false)
+                    }}
+                    className="h-8 w-56 text-sm"
+                    autoFocus
+                  />
+                  <Button size="sm" variant="ghost" onClick={commitRename} className="h-8 w-8 p-0">
+                    <Check className="w-3 h-3" />
+                  </Button>
+                </div>
+              ) : (
+                <button
+                  className="flex items-center gap-2 font-medium text-sm hover:text-blue-600"
+                  onClick={() => {
+                    setNameDraft(active.name)
+                    setIsRenaming(true)
+                  }}
+                >
+                  {active.name}
+                  <Pencil className="w-3 h-3 text-gray-400" />
+                </button>
+              )}
+              <span className="text-xs text-gray-500 flex-1">{getStatusText()}</span>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  if (!showList) refreshList()
+                  setShowList(!showList)
+                }}
+                disabled={status === "unavailable"}
+              >
+                <FolderOpen className="w-4 h-4 mr-2" />
+                Workspaces
+              </Button>
+              <Button size="sm" variant="outline" onClick={createWorkspace} disabled={status === "unavailable"}>
+                <Plus className="w-4 h-4 mr-2" />
+                New
+              </Button>
+            </div>
+
+            {showList && (
+              <div className="mt-3 pt-3 border-t space-y-2">
+                {workspaces.length === 0 ? (
+                  <div className="text-sm text-gray-500">No saved workspaces yet</div>
+                ) : (
+                  workspaces.map((summary) => (
+                    <div key={summary.id} className="flex items-center gap-3 p-2 bg-gray-50 rounded-lg">
+                      <span className="font-medium text-sm flex-1 truncate">{summary.name}</span>
+                      {summary.id === active.id && <Badge>current</Badge>}
+                      {summary.error ? (
+                        <Badge variant="outline" className="bg-red-50 text-red-700" title={summary.error}>
+                          unreadable
+                        </Badge>
+                      ) : (
+                        <>
+                          <span className="text-xs text-gray-500">
+                            {summary.counts.clients}C · {summary.counts.workers}W · {summary.counts.tasks}T ·{" "}
+                            {summary.counts.rules} rules
+                          </span>
+                          <span className="text-xs text-gray-500">{summary.savedAt.toLocaleString()}</span>
+                        </>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => openWorkspace(summary.id)}
+                        disabled={summary.id === active.id || !!summary.error}
+                      >
+                        Open
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => deleteWorkspace(summary)}
+                        disabled={summary.id === active.id}
+                        className="text-gray-400 hover:text-red-600"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
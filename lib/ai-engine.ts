@@ -1,7 +1,10 @@
 import { generateText } from "ai"
 import { openai } from "@ai-sdk/openai"
 import type { Rule } from "./rule-types"
-const model = openai("gpt-4o") 
+import { HeaderMapper, type HeaderMapping } from "./header-mapper"
+import { toList, parsePhases } from "./schemas"
+import { CapacityModel } from "./capacity-model"
+const model = openai("gpt-4o")
 
 export interface AIRecommendation {
   id: string
@@ -56,17 +59,22 @@ Available rule types:
 - loadLimit: Maximum slots per phase for worker groups  
 - phaseWindow: Allowed phases for specific tasks
 - patternMatch: Pattern-based rules for entities
+- exclusion: A worker who must never work on a client's tasks, or on one task
+  (parameters: workerId, targetType "client" or "task", targetId)
+- minQualification: Minimum worker QualificationLevel for a task (parameters: taskId, minLevel)
+- affinity: A client's tasks prefer, or in strict mode require, workers from one group
+  (parameters: clientId, workerGroup, strictMode)
 
 Available data context:
 - Clients: ${this.clients.length} records with fields like ClientID, ClientName, PriorityLevel, GroupTag
-- Workers: ${this.workers.length} records with fields like WorkerID, WorkerName, Skills, WorkerGroup, AvailableSlots
+- Workers: ${this.workers.length} records with fields like WorkerID, WorkerName, Skills, WorkerGroup, AvailableSlots, QualificationLevel
 - Tasks: ${this.tasks.length} records with fields like TaskID, TaskName, Category, Duration, RequiredSkills
 
 User input: "${input}"
 
 Respond with JSON only:
 {
-  "ruleType": "coRun|slotRestriction|loadLimit|phaseWindow|patternMatch",
+  "ruleType": "coRun|slotRestriction|loadLimit|phaseWindow|patternMatch|exclusion|minQualification|affinity",
   "name": "descriptive rule name",
   "description": "what this rule does",
   "priority": 1-100,
@@ -76,7 +84,7 @@ Respond with JSON only:
   "confidence": 0-100,
   "explanation": "why this interpretation makes sense"
 }
-`   
+`
 
       const { text } = await generateText({
         model,
@@ -155,6 +163,75 @@ Respond with JSON only:
     return insights
   }
 
+  // 5. AI Header Mapping
+  async suggestHeaderMapping(
+    headers: string[],
+    entityType: "clients" | "workers" | "tasks",
+    sampleRows: any[] = [],
+  ): Promise<{
+    success: boolean
+    mapping?: HeaderMapping
+    explanation: string
+  }> {
+    const fields = HeaderMapper.getCanonicalFields(entityType)
+
+    try {
+      const prompt = `
+You are a data-cleaning assistant for a resource allocation system.
+Map the column headers of an uploaded ${entityType} spreadsheet to the canonical schema.
+
+Canonical fields: ${fields.join(", ")}
+
+Source headers: ${headers.join(", ")}
+
+Sample rows:
+${JSON.stringify(sampleRows.slice(0, 3), null, 2)}
+
+Rules:
+- Each canonical field may be used at most once
+- Use null for headers that do not correspond to any canonical field
+
+Respond with JSON only:
+{
+  "mapping": { "<source header>": "<canonical field or null>" },
+  "explanation": "short reasoning"
+}
+`
+
+      const { text } = await generateText({
+        model,
+        prompt,
+        temperature: 0,
+      })
+
+      const parsed = JSON.parse(text)
+      const used = new Set<string>()
+      const mapping: HeaderMapping = {}
+
+      // Only trust answers that name real canonical fields, once each
+      headers.forEach((header) => {
+        const field = parsed.mapping?.[header]
+        if (typeof field === "string" && fields.includes(field) && !used.has(field)) {
+          mapping[header] = field
+          used.add(field)
+        } else {
+          mapping[header] = null
+        }
+      })
+
+      return {
+        success: true,
+        mapping,
+        explanation: parsed.explanation || "",
+      }
+    } catch (error) {
+      return {
+        success: false,
+        explanation: `Failed to map headers: ${error instanceof Error ? error.message : "Unknown error"}`,
+      }
+    }
+  }
+
   // Helper Methods
   private convertAIResponseToRule(aiResponse: any): Partial<Rule> {
     const baseRule = {
@@ -188,6 +265,29 @@ Respond with JSON only:
           strictMode: aiResponse.parameters.strictMode || false,
         }
 
+      case "exclusion":
+        return {
+          ...baseRule,
+          workerId: String(aiResponse.parameters.workerId ?? ""),
+          targetType: aiResponse.parameters.targetType === "task" ? "task" : "client",
+          targetId: String(aiResponse.parameters.targetId ?? ""),
+        }
+
+      case "minQualification":
+        return {
+          ...baseRule,
+          taskId: String(aiResponse.parameters.taskId ?? ""),
+          minLevel: Number(aiResponse.parameters.minLevel) || 1,
+        }
+
+      case "affinity":
+        return {
+          ...baseRule,
+          clientId: String(aiResponse.parameters.clientId ?? ""),
+          workerGroup: String(aiResponse.parameters.workerGroup ?? ""),
+          strictMode: aiResponse.parameters.strictMode || false,
+        }
+
       default:
         return baseRule
     }
@@ -213,8 +313,7 @@ Respond with JSON only:
 
     this.workers.forEach((worker) => {
       if (worker.Skills) {
-        const skills =
-          typeof worker.Skills === "string" ? worker.Skills.split(",").map((s: string) => s.trim()) : worker.Skills
+        const skills = toList(worker.Skills)
 
         skills.forEach((skill: string) => {
           const normalized = skill.toLowerCase()
@@ -301,18 +400,7 @@ Respond with JSON only:
     this.workers.forEach((worker) => {
       const maxLoad = worker.MaxLoadPerPhase || 1
       const availableSlots = worker.AvailableSlots
-      let slotCount = 0
-
-      if (Array.isArray(availableSlots)) {
-        slotCount = availableSlots.length
-      } else if (typeof availableSlots === "string") {
-        try {
-          const parsed = JSON.parse(availableSlots)
-          slotCount = Array.isArray(parsed) ? parsed.length : 0
-        } catch {
-          slotCount = 0
-        }
-      }
+      const slotCount = parsePhases(availableSlots).length
 
       if (maxLoad > slotCount && slotCount > 0) {
         workerLoads.set(worker.WorkerID, maxLoad / slotCount)
@@ -353,18 +441,14 @@ Respond with JSON only:
 
     this.tasks.forEach((task) => {
       if (task.RequiredSkills) {
-        const skills =
-          typeof task.RequiredSkills === "string"
-            ? task.RequiredSkills.split(",").map((s: string) => s.trim())
-            : task.RequiredSkills
+        const skills = toList(task.RequiredSkills)
         skills.forEach((skill: string) => requiredSkills.add(skill.toLowerCase()))
       }
     })
 
     this.workers.forEach((worker) => {
       if (worker.Skills) {
-        const skills =
-          typeof worker.Skills === "string" ? worker.Skills.split(",").map((s: string) => s.trim()) : worker.Skills
+        const skills = toList(worker.Skills)
         skills.forEach((skill: string) => availableSkills.add(skill.toLowerCase()))
       }
     })
@@ -396,86 +480,31 @@ Respond with JSON only:
   private async generatePhaseOptimizationRecommendations(): Promise<AIRecommendation[]> {
     const recommendations: AIRecommendation[] = []
 
-    // Analyze phase distribution
-    const phaseDemand = new Map<number, number>()
-    const phaseCapacity = new Map<number, number>()
-
-    // Calculate demand per phase
-    this.tasks.forEach((task) => {
-      const duration = task.Duration || 1
-      const phases = task.PreferredPhases
-
-      if (phases) {
-        let phaseList: number[] = []
-        if (Array.isArray(phases)) {
-          phaseList = phases
-        } else if (typeof phases === "string") {
-          try {
-            phaseList = JSON.parse(phases)
-          } catch {
-            // Handle range format like "1-3"
-            if (phases.includes("-")) {
-              const [start, end] = phases.split("-").map(Number)
-              phaseList = Array.from({ length: end - start + 1 }, (_, i) => start + i)
-            }
-          }
-        }
-
-        phaseList.forEach((phase) => {
-          phaseDemand.set(phase, (phaseDemand.get(phase) || 0) + duration)
-        })
-      }
-    })
-
-    // Calculate capacity per phase
-    this.workers.forEach((worker) => {
-      const maxLoad = worker.MaxLoadPerPhase || 1
-      const slots = worker.AvailableSlots
-
-      if (slots) {
-        let slotList: number[] = []
-        if (Array.isArray(slots)) {
-          slotList = slots
-        } else if (typeof slots === "string") {
-          try {
-            slotList = JSON.parse(slots)
-          } catch {
-            // Skip malformed slots
-          }
-        }
-
-        slotList.forEach((phase) => {
-          phaseCapacity.set(phase, (phaseCapacity.get(phase) || 0) + maxLoad)
-        })
-      }
-    })
-
     // Find imbalanced phases
-    phaseDemand.forEach((demand, phase) => {
-      const capacity = phaseCapacity.get(phase) || 0
-      const utilization = capacity > 0 ? demand / capacity : Number.POSITIVE_INFINITY
-
-      if (utilization > 0.9) {
-        recommendations.push({
-          id: `phase_${phase}_overload`,
-          type: "optimization",
-          title: `Phase ${phase} Overloaded`,
-          description: `Phase ${phase} has ${Math.round(utilization * 100)}% utilization`,
-          confidence: 90,
-          impact: utilization > 1.2 ? "high" : "medium",
-          category: "Phase Optimization",
-          reasoning: `Demand (${demand}) vs Capacity (${capacity}) = ${utilization.toFixed(2)} ratio`,
-          autoApplicable: false,
-          suggestedAction: {
-            type: "phase_rebalance",
-            phase,
-            demand,
-            capacity,
-            utilization,
-          },
-        })
-      }
-    })
+    new CapacityModel(this.workers, this.tasks)
+      .getPhases()
+      .forEach(({ phase, supply: capacity, demand, utilization }) => {
+        if (utilization > 0.9) {
+          recommendations.push({
+            id: `phase_${phase}_overload`,
+            type: "optimization",
+            title: `Phase ${phase} Overloaded`,
+            description: `Phase ${phase} has ${Math.round(utilization * 100)}% utilization`,
+            confidence: 90,
+            impact: utilization > 1.2 ? "high" : "medium",
+            category: "Phase Optimization",
+            reasoning: `Demand (${demand.toFixed(1)}) vs Capacity (${capacity}) = ${utilization.toFixed(2)} ratio`,
+            autoApplicable: false,
+            suggestedAction: {
+              type: "phase_rebalance",
+              phase,
+              demand,
+              capacity,
+              utilization,
+            },
+          })
+        }
+      })
 
     return recommendations
   }
@@ -487,8 +516,7 @@ Respond with JSON only:
     // Collect skill variations
     this.workers.forEach((worker) => {
       if (worker.Skills) {
-        const skills =
-          typeof worker.Skills === "string" ? worker.Skills.split(",").map((s: string) => s.trim()) : worker.Skills
+        const skills = toList(worker.Skills)
 
         skills.forEach((skill: string) => {
           const normalized = skill.toLowerCase().replace(/[^a-z0-9]/g, "")
@@ -579,7 +607,7 @@ Respond with JSON only:
 
     Object.entries(idPatterns).forEach(([entityType, ids]) => {
       if (ids.length > 1) {
-        const patterns = new Set(ids.map((id) => String(id).replace(/\d+/g, "#")));
+        const patterns = new Set(ids.map((id) => String(id).replace(/\d+/g, "#")))
 
         if (patterns.size > 1) {
           recommendations.push({
@@ -642,27 +670,10 @@ Respond with JSON only:
     const recommendations: AIRecommendation[] = []
 
     // Calculate overall utilization
-    const totalWorkerCapacity = this.workers.reduce((sum, worker) => {
-      const maxLoad = worker.MaxLoadPerPhase || 1
-      const slots = worker.AvailableSlots
-      let slotCount = 0
-
-      if (Array.isArray(slots)) {
-        slotCount = slots.length
-      } else if (typeof slots === "string") {
-        try {
-          const parsed = JSON.parse(slots)
-          slotCount = Array.isArray(parsed) ? parsed.length : 0
-        } catch {
-          slotCount = 1
-        }
-      }
-
-      return sum + maxLoad * slotCount
-    }, 0)
-
-    const totalTaskDemand = this.tasks.reduce((sum, task) => sum + (task.Duration || 1), 0)
-    const utilization = totalWorkerCapacity > 0 ? totalTaskDemand / totalWorkerCapacity : 0
+    const totals = new CapacityModel(this.workers, this.tasks).getTotals()
+    const totalWorkerCapacity = totals.supply
+    const totalTaskDemand = Math.round(totals.demand * 10) / 10
+    const utilization = totalWorkerCapacity > 0 ? totals.utilization : 0
 
     if (utilization < 0.5) {
       recommendations.push({
@@ -706,42 +717,11 @@ Respond with JSON only:
   private identifyBottlenecks(): AIRecommendation[] {
     const recommendations: AIRecommendation[] = []
 
-    // Find skill bottlenecks
-    const skillDemand = new Map<string, number>()
-    const skillSupply = new Map<string, number>()
-
-    // Calculate skill demand
-    this.tasks.forEach((task) => {
-      if (task.RequiredSkills) {
-        const skills =
-          typeof task.RequiredSkills === "string"
-            ? task.RequiredSkills.split(",").map((s: string) => s.trim())
-            : task.RequiredSkills
-
-        skills.forEach((skill: string) => {
-          const normalized = skill.toLowerCase()
-          skillDemand.set(normalized, (skillDemand.get(normalized) || 0) + (task.Duration || 1))
-        })
-      }
-    })
-
-    // Calculate skill supply
-    this.workers.forEach((worker) => {
-      if (worker.Skills) {
-        const skills =
-          typeof worker.Skills === "string" ? worker.Skills.split(",").map((s: string) => s.trim()) : worker.Skills
-
-        const capacity = worker.MaxLoadPerPhase || 1
-        skills.forEach((skill: string) => {
-          const normalized = skill.toLowerCase()
-          skillSupply.set(normalized, (skillSupply.get(normalized) || 0) + capacity)
-        })
-      }
-    })
-
+    // Find skill bottlenecks: slot demand for each skill against the slots of workers who have it
+    const skillTotals = new CapacityModel(this.workers, this.tasks).getSkillTotals()
     // Find bottlenecks
-    skillDemand.forEach((demand, skill) => {
-      const supply = skillSupply.get(skill) || 0
+    Object.keys(skillTotals).forEach((skill) => {
+      const { supply, demand } = skillTotals[skill]
       const ratio = supply > 0 ? demand / supply : Number.POSITIVE_INFINITY
 
       if (ratio > 1.2) {
@@ -753,7 +733,7 @@ Respond with JSON only:
           confidence: 85,
           impact: "high",
           category: "Bottleneck Analysis",
-          reasoning: `Demand: ${demand}, Supply: ${supply}, Ratio: ${ratio.toFixed(2)}`,
+          reasoning: `Demand: ${demand.toFixed(1)}, Supply: ${supply}, Ratio: ${ratio.toFixed(2)}`,
           autoApplicable: false,
           suggestedAction: {
             type: "resolve_bottleneck",
@@ -777,10 +757,7 @@ Respond with JSON only:
 
     this.workers.forEach((worker) => {
       if (worker.Skills) {
-        const skills =
-          typeof worker.Skills === "string"
-            ? worker.Skills.split(",").map((s: string) => s.trim().toLowerCase())
-            : worker.Skills.map((s: string) => s.toLowerCase())
+        const skills = toList(worker.Skills).map((s) => s.toLowerCase())
 
         const skillKey = skills.sort().join(",")
         if (!skillGroups.has(skillKey)) {
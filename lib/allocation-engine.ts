@@ -0,0 +1,588 @@
+import type { Rule, CoRunRule, LoadLimitRule, PhaseWindowRule, SlotRestrictionRule, AffinityRule } from "./rule-types"
+import { toList, parsePhases } from "./schemas"
+import { PrecedenceResolver } from "./rule-precedence"
+import { CapacityModel } from "./capacity-model"
+import { createDefaultPrioritization, type PrioritizationConfig } from "./prioritization"
+
+export interface TaskAssignment {
+  id: string
+  taskId: string
+  taskName: string
+  clientId: string | null
+  workerId: string
+  workerName: string
+  startPhase: number
+  phases: number[]
+}
+
+export interface UnassignedTask {
+  taskId: string
+  taskName: string
+  clientId: string | null
+  reason: string
+}
+
+export interface AllocationResult {
+  assignments: TaskAssignment[]
+  unassigned: UnassignedTask[]
+  phases: number[]
+  workerLoad: Record<string, Record<number, number>>
+  summary: {
+    totalRequests: number
+    assigned: number
+    unassigned: number
+    utilization: number
+  }
+}
+
+// A single unit of work: one client's request for one task
+interface AllocationUnit {
+  task: any
+  taskId: string
+  clientId: string | null
+  clientGroup: string | null
+  priority: number
+  // Position in the client's RequestedTaskIDs (or in the task list without clients), so repeats stay distinct
+  requestIndex: number
+}
+
+interface Placement {
+  unit: AllocationUnit
+  worker: any
+  phases: number[]
+}
+
+export class AllocationEngine {
+  private clients: any[] = []
+  private workers: any[] = []
+  private tasks: any[] = []
+  private rules: Rule[] = []
+  private prioritization: PrioritizationConfig
+
+  // Derived state, rebuilt on every allocate() call
+  private phases: number[] = []
+  private workerLoad = new Map<string, Map<number, number>>()
+  private taskLoad = new Map<string, Map<number, number>>()
+  private groupLoad = new Map<string, Map<number, number>>()
+  private placedByClient = new Map<string, { taskId: string; phases: number[] }[]>()
+
+  constructor(
+    clients: any[],
+    workers: any[],
+    tasks: any[],
+    rules: Rule[] = [],
+    prioritization: PrioritizationConfig = createDefaultPrioritization(),
+  ) {
+    this.clients = clients
+    this.workers = workers
+    this.tasks = tasks
+    // Shadowed rules are dropped, and competing rules are ordered so lookups find the winner first
+    this.rules = PrecedenceResolver.resolve(rules).effective
+    this.prioritization = prioritization
+  }
+
+  allocate(): AllocationResult {
+    this.phases = this.collectPhases()
+    this.workerLoad = new Map()
+    this.taskLoad = new Map()
+    this.groupLoad = new Map()
+    this.placedByClient = new Map()
+
+    const assignments: TaskAssignment[] = []
+    const unassigned: UnassignedTask[] = []
+    const units = this.buildUnits()
+
+    this.buildBundles(units).forEach((bundle) => {
+      const outcome = this.placeBundle(bundle)
+
+      if (outcome.placements) {
+        outcome.placements.forEach((placement) => {
+          this.commit(placement)
+          assignments.push({
+            id: `${placement.unit.taskId}-${placement.unit.clientId ?? "none"}-${placement.unit.requestIndex}-${placement.worker.WorkerID}`,
+            taskId: placement.unit.taskId,
+            taskName: placement.unit.task.TaskName || placement.unit.taskId,
+            clientId: placement.unit.clientId,
+            workerId: String(placement.worker.WorkerID),
+            workerName: placement.worker.WorkerName || String(placement.worker.WorkerID),
+            startPhase: placement.phases[0],
+            phases: placement.phases,
+          })
+        })
+      } else {
+        bundle.forEach((unit) => {
+          unassigned.push({
+            taskId: unit.taskId,
+            taskName: unit.task?.TaskName || unit.taskId,
+            clientId: unit.clientId,
+            reason: outcome.reason,
+          })
+        })
+      }
+    })
+
+    const workerLoad: Record<string, Record<number, number>> = {}
+    this.workerLoad.forEach((load, workerId) => {
+      workerLoad[workerId] = {}
+      load.forEach((count, phase) => {
+        workerLoad[workerId][phase] = count
+      })
+    })
+
+    const capacity = this.workers.reduce(
+      (sum, worker) => sum + this.getWorkerSlots(worker).length * CapacityModel.getWorkerLoad(worker),
+      0,
+    )
+    const used = assignments.reduce((sum, assignment) => sum + assignment.phases.length, 0)
+
+    return {
+      assignments,
+      unassigned,
+      phases: this.phases,
+      workerLoad,
+      summary: {
+        totalRequests: units.length,
+        assigned: assignments.length,
+        unassigned: unassigned.length,
+        utilization: capacity > 0 ? used / capacity : 0,
+      },
+    }
+  }
+
+  // 1. Build allocation units from client requests (or every task when no clients are loaded)
+  private buildUnits(): AllocationUnit[] {
+    const taskMap = new Map(this.tasks.map((task) => [String(task.TaskID), task]))
+    const units: AllocationUnit[] = []
+
+    if (this.clients.length === 0) {
+      this.tasks.forEach((task, index) => {
+        units.push({
+          task,
+          taskId: String(task.TaskID),
+          clientId: null,
+          clientGroup: null,
+          priority: 0,
+          requestIndex: index,
+        })
+      })
+      return units
+    }
+
+    const maxPriority = Math.max(1, ...this.clients.map((client) => Number(client.PriorityLevel) || 0))
+    const maxRequests = Math.max(1, ...this.clients.map((client) => toList(client.RequestedTaskIDs).length))
+    const scored: { unit: AllocationUnit; score: number }[] = []
+
+    this.clients.forEach((client) => {
+      const requested = toList(client.RequestedTaskIDs)
+
+      requested.forEach((taskId, index) => {
+        const unit: AllocationUnit = {
+          task: taskMap.get(taskId),
+          taskId,
+          clientId: String(client.ClientID),
+          clientGroup: client.GroupTag ? String(client.GroupTag) : null,
+          priority: Number(client.PriorityLevel) || 0,
+          requestIndex: index,
+        }
+        scored.push({ unit, score: this.scoreUnit(unit, index, requested.length, maxPriority, maxRequests) })
+      })
+    })
+
+    scored
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          b.unit.priority - a.unit.priority ||
+          String(a.unit.clientId).localeCompare(String(b.unit.clientId)),
+      )
+      .forEach((entry) => units.push(entry.unit))
+
+    return units
+  }
+
+  // Weighted ordering score: higher scores are placed first
+  private scoreUnit(
+    unit: AllocationUnit,
+    requestIndex: number,
+    requestCount: number,
+    maxPriority: number,
+    maxRequests: number,
+  ): number {
+    const { weights } = this.prioritization
+
+    // Priority fulfilment: high PriorityLevel clients first
+    const priority = unit.priority / maxPriority
+    // Request fulfilment: small requests are cheap to satisfy completely
+    const fulfilment = 1 - (requestCount - 1) / maxRequests
+    // Fairness: every client's first requests before anyone's later ones (round-robin)
+    const fairness = 1 - requestIndex / maxRequests
+
+    return weights.priorityFulfilment * priority + weights.requestFulfilment * fulfilment + weights.fairness * fairness
+  }
+
+  // 2. Group a client's units into bundles that must be placed together (co-run "must run together")
+  private buildBundles(units: AllocationUnit[]): AllocationUnit[][] {
+    const bundles: AllocationUnit[][] = []
+    const bundled = new Set<AllocationUnit>()
+    const coRunRules = this.rules.filter((rule): rule is CoRunRule => rule.type === "coRun" && rule.mustRunTogether)
+
+    units.forEach((unit) => {
+      if (bundled.has(unit)) return
+
+      const rule = coRunRules.find((r) => r.tasks.includes(unit.taskId))
+      if (!rule) {
+        bundles.push([unit])
+        bundled.add(unit)
+        return
+      }
+
+      const bundle = units.filter(
+        (other) => !bundled.has(other) && other.clientId === unit.clientId && rule.tasks.includes(other.taskId),
+      )
+      bundle.forEach((member) => bundled.add(member))
+      bundles.push(bundle)
+    })
+
+    return bundles
+  }
+
+  // 3. Try every candidate start phase until the whole bundle fits
+  private placeBundle(bundle: AllocationUnit[]): { placements?: Placement[]; reason: string } {
+    const missing = bundle.find((unit) => !unit.task)
+    if (missing) {
+      return { reason: `Task ${missing.taskId} does not exist in tasks data` }
+    }
+
+    const duration = Math.max(...bundle.map((unit) => CapacityModel.getDuration(unit.task)))
+    const windows = bundle.map((unit) => this.getAllowedPhases(unit))
+    const emptyWindow = windows.findIndex((window) => window.hard.length === 0)
+    if (emptyWindow !== -1) {
+      return { reason: windows[emptyWindow].reason }
+    }
+
+    let lastReason = "No phase window long enough for the task duration"
+
+    for (const start of this.getCandidateStarts(windows, duration)) {
+      const placements: Placement[] = []
+      let failure: string | null = null
+
+      for (let i = 0; i < bundle.length; i++) {
+        const unit = bundle[i]
+        const phases = this.range(start, CapacityModel.getDuration(unit.task))
+
+        if (!phases.every((phase) => windows[i].hard.includes(phase))) {
+          failure = `Phases ${phases.join(", ")} fall outside the allowed window for ${unit.taskId}`
+          break
+        }
+
+        const conflict = this.findCoRunConflict(unit, phases, placements)
+        if (conflict) {
+          failure = conflict
+          break
+        }
+
+        const concurrent = phases.find(
+          (phase) => this.getTaskLoad(unit.taskId, phase, placements) >= this.getMaxConcurrent(unit.task),
+        )
+        if (concurrent !== undefined) {
+          failure = `MaxConcurrent (${this.getMaxConcurrent(unit.task)}) reached for ${unit.taskId} in phase ${concurrent}`
+          break
+        }
+
+        const pick = this.pickWorker(unit, phases, placements)
+        if (!pick.worker) {
+          failure = pick.reason
+          break
+        }
+
+        placements.push({ unit, worker: pick.worker, phases })
+      }
+
+      if (!failure) {
+        return { placements, reason: "" }
+      }
+      lastReason = failure
+    }
+
+    return { reason: lastReason }
+  }
+
+  // 4. Choose a qualified worker who can take every phase of the run
+  private pickWorker(unit: AllocationUnit, phases: number[], pending: Placement[]): { worker?: any; reason: string } {
+    const requiredSkills = toList(unit.task.RequiredSkills).map((skill) => skill.toLowerCase())
+    const qualified = this.workers.filter((worker) => {
+      const skills = toList(worker.Skills).map((skill) => skill.toLowerCase())
+      return requiredSkills.every((skill) => skills.includes(skill))
+    })
+
+    if (qualified.length === 0) {
+      return { reason: `No worker has all required skills (${requiredSkills.join(", ") || "none"})` }
+    }
+
+    const blocks = qualified.map((worker) => this.getEligibilityBlock(unit, worker))
+    const eligible = qualified.filter((_, i) => !blocks[i])
+    if (eligible.length === 0) {
+      const reasons = blocks.filter((block, i) => blocks.indexOf(block) === i)
+      return { reason: `Rules rule out every qualified worker: ${reasons.join("; ")}` }
+    }
+
+    const available = eligible.filter((worker) => {
+      const slots = this.getUsableSlots(worker)
+      return phases.every((phase) => slots.includes(phase))
+    })
+    if (available.length === 0) {
+      return { reason: `No qualified worker is available in phases ${phases.join(", ")}` }
+    }
+
+    const withCapacity = available.filter((worker) =>
+      phases.every(
+        (phase) => this.getWorkerLoad(String(worker.WorkerID), phase, pending) < CapacityModel.getWorkerLoad(worker),
+      ),
+    )
+    if (withCapacity.length === 0) {
+      return { reason: `All qualified workers hit MaxLoadPerPhase in phases ${phases.join(", ")}` }
+    }
+
+    const withinGroupLimits = withCapacity.filter((worker) =>
+      this.getLoadLimits(worker).every((rule) =>
+        phases.every(
+          (phase) =>
+            (rule.phases && rule.phases.length > 0 && !rule.phases.includes(phase)) ||
+            this.getGroupLoad(rule.workerGroup, phase, pending) < rule.maxSlotsPerPhase,
+        ),
+      ),
+    )
+    if (withinGroupLimits.length === 0) {
+      return { reason: `Load limit rules block every qualified worker in phases ${phases.join(", ")}` }
+    }
+
+    const totalLoad = (worker: any) =>
+      phases.reduce((sum, phase) => sum + this.getWorkerLoad(String(worker.WorkerID), phase, pending), 0)
+
+    // Load, as a share of the worker's capacity, is weighed against skills the task doesn't need, which are
+    // better kept free for tasks that do. The workload balance weight sets the mix, so at 0 only the fit counts.
+    const balance = this.prioritization.weights.workloadBalance
+    const score = (worker: any) => {
+      const capacity = phases.length * CapacityModel.getWorkerLoad(worker)
+      const skills = toList(worker.Skills).length
+      const load = capacity > 0 ? totalLoad(worker) / capacity : 1
+      const surplus = skills > 0 ? Math.max(0, skills - requiredSkills.length) / skills : 0
+      return balance * load + (1 - balance) * surplus
+    }
+    // A client's preferred worker group goes first, whatever the load
+    const affinity = this.getAffinity(unit)
+    const preference = (worker: any) => (affinity && String(worker.WorkerGroup ?? "") !== affinity.workerGroup ? 1 : 0)
+    const worker = [...withinGroupLimits].sort(
+      (a, b) =>
+        preference(a) - preference(b) ||
+        score(a) - score(b) ||
+        totalLoad(a) - totalLoad(b) ||
+        String(a.WorkerID).localeCompare(String(b.WorkerID)),
+    )[0]
+
+    return { worker, reason: "" }
+  }
+
+  // 5. "Cannot run together" co-run rules: a client's conflicting tasks may not overlap
+  private findCoRunConflict(unit: AllocationUnit, phases: number[], pending: Placement[]): string | null {
+    const key = unit.clientId ?? "none"
+    const placed = [
+      ...(this.placedByClient.get(key) || []),
+      ...pending
+        .filter((p) => (p.unit.clientId ?? "none") === key)
+        .map((p) => ({ taskId: p.unit.taskId, phases: p.phases })),
+    ]
+
+    for (const rule of this.rules) {
+      if (rule.type !== "coRun" || rule.mustRunTogether || !rule.tasks.includes(unit.taskId)) continue
+
+      const clash = placed.find(
+        (p) =>
+          p.taskId !== unit.taskId && rule.tasks.includes(p.taskId) && p.phases.some((phase) => phases.includes(phase)),
+      )
+      if (clash) {
+        return `Co-run rule "${rule.name}" forbids ${unit.taskId} overlapping ${clash.taskId}`
+      }
+    }
+
+    return null
+  }
+
+  private getAllowedPhases(unit: AllocationUnit): { hard: number[]; preferred: number[]; reason: string } {
+    let hard = [...this.phases]
+    let preferred: number[] = []
+    let reason = "No worker has any available slots"
+
+    const windowRule = this.rules.find(
+      (rule): rule is PhaseWindowRule => rule.type === "phaseWindow" && rule.taskId === unit.taskId,
+    )
+    const preferredPhases = parsePhases(unit.task.PreferredPhases)
+
+    if (windowRule && windowRule.strictMode) {
+      hard = hard.filter((phase) => windowRule.allowedPhases.includes(phase))
+      reason = `Phase window rule "${windowRule.name}" leaves no usable phase`
+    } else if (preferredPhases.length > 0) {
+      hard = hard.filter((phase) => preferredPhases.includes(phase))
+      preferred = windowRule ? windowRule.allowedPhases : []
+      reason = `None of the PreferredPhases (${preferredPhases.join(", ")}) have available workers`
+    } else if (windowRule) {
+      preferred = windowRule.allowedPhases
+    }
+
+    // Client-group slot restrictions narrow the window further
+    this.getSlotRestrictions("client", unit.clientGroup).forEach((rule) => {
+      if (rule.phases && rule.phases.length > 0) {
+        hard = hard.filter((phase) => rule.phases!.includes(phase))
+      }
+      if (hard.length < rule.minCommonSlots) {
+        hard = []
+        reason = `Slot restriction "${rule.name}" needs ${rule.minCommonSlots} common slots for group ${rule.groupName}`
+      }
+    })
+
+    return { hard, preferred, reason }
+  }
+
+  private getCandidateStarts(windows: { hard: number[]; preferred: number[] }[], duration: number): number[] {
+    const starts = this.phases.filter((phase) => windows.every((window) => window.hard.includes(phase)))
+    const preferred = starts.filter((phase) =>
+      windows.some(
+        (window) =>
+          window.preferred.length > 0 && this.range(phase, duration).every((p) => window.preferred.includes(p)),
+      ),
+    )
+    return [...preferred, ...starts.filter((phase) => !preferred.includes(phase))]
+  }
+
+  // Worker-group slot restrictions: members may only work in the group's common slots
+  private getUsableSlots(worker: any): number[] {
+    let slots = this.getWorkerSlots(worker)
+
+    this.getSlotRestrictions("worker", worker.WorkerGroup ? String(worker.WorkerGroup) : null).forEach((rule) => {
+      const members = this.workers.filter((w) => String(w.WorkerGroup) === rule.groupName)
+      let common = members.reduce<number[]>(
+        (acc, member) => acc.filter((phase) => this.getWorkerSlots(member).includes(phase)),
+        [...this.phases],
+      )
+      if (rule.phases && rule.phases.length > 0) {
+        common = common.filter((phase) => rule.phases!.includes(phase))
+      }
+      slots = common.length >= rule.minCommonSlots ? slots.filter((phase) => common.includes(phase)) : []
+    })
+
+    return slots
+  }
+
+  private getSlotRestrictions(targetType: "client" | "worker", group: string | null): SlotRestrictionRule[] {
+    if (!group) return []
+    return this.rules.filter(
+      (rule): rule is SlotRestrictionRule =>
+        rule.type === "slotRestriction" && rule.targetType === targetType && rule.groupName === group,
+    )
+  }
+
+  // Why the rules keep a skilled worker off this unit: an exclusion, a minimum qualification or a strict
+  // affinity to another group. Null when the worker may take it.
+  private getEligibilityBlock(unit: AllocationUnit, worker: any): string | null {
+    const workerId = String(worker.WorkerID)
+
+    for (const rule of this.rules) {
+      if (
+        rule.type === "exclusion" &&
+        rule.workerId === workerId &&
+        rule.targetId === (rule.targetType === "client" ? unit.clientId : unit.taskId)
+      ) {
+        return `"${rule.name}" excludes ${workerId}`
+      }
+      if (rule.type === "minQualification" && rule.taskId === unit.taskId) {
+        if ((Number(worker.QualificationLevel) || 0) < rule.minLevel) {
+          return `"${rule.name}" needs QualificationLevel ${rule.minLevel}`
+        }
+      }
+    }
+
+    const affinity = this.getAffinity(unit)
+    if (affinity?.strictMode && String(worker.WorkerGroup ?? "") !== affinity.workerGroup) {
+      return `"${affinity.name}" only allows ${affinity.workerGroup} workers`
+    }
+    return null
+  }
+
+  // The effective list is in precedence order, so the first match is the affinity that applies
+  private getAffinity(unit: AllocationUnit): AffinityRule | null {
+    if (!unit.clientId) return null
+    return (
+      this.rules.find((rule): rule is AffinityRule => rule.type === "affinity" && rule.clientId === unit.clientId) ||
+      null
+    )
+  }
+
+  private getLoadLimits(worker: any): LoadLimitRule[] {
+    return this.rules.filter(
+      (rule): rule is LoadLimitRule => rule.type === "loadLimit" && rule.workerGroup === String(worker.WorkerGroup),
+    )
+  }
+
+  private commit(placement: Placement) {
+    const workerId = String(placement.worker.WorkerID)
+    const key = placement.unit.clientId ?? "none"
+
+    placement.phases.forEach((phase) => {
+      this.increment(this.workerLoad, workerId, phase)
+      this.increment(this.taskLoad, placement.unit.taskId, phase)
+      if (placement.worker.WorkerGroup) {
+        this.increment(this.groupLoad, String(placement.worker.WorkerGroup), phase)
+      }
+    })
+
+    if (!this.placedByClient.has(key)) {
+      this.placedByClient.set(key, [])
+    }
+    this.placedByClient.get(key)!.push({ taskId: placement.unit.taskId, phases: placement.phases })
+  }
+
+  private increment(map: Map<string, Map<number, number>>, key: string, phase: number) {
+    if (!map.has(key)) {
+      map.set(key, new Map())
+    }
+    const inner = map.get(key)!
+    inner.set(phase, (inner.get(phase) || 0) + 1)
+  }
+
+  private getWorkerLoad(workerId: string, phase: number, pending: Placement[]): number {
+    const committed = this.workerLoad.get(workerId)?.get(phase) || 0
+    return committed + pending.filter((p) => String(p.worker.WorkerID) === workerId && p.phases.includes(phase)).length
+  }
+
+  private getTaskLoad(taskId: string, phase: number, pending: Placement[]): number {
+    const committed = this.taskLoad.get(taskId)?.get(phase) || 0
+    return committed + pending.filter((p) => p.unit.taskId === taskId && p.phases.includes(phase)).length
+  }
+
+  private getGroupLoad(group: string, phase: number, pending: Placement[]): number {
+    const committed = this.groupLoad.get(group)?.get(phase) || 0
+    return (
+      committed + pending.filter((p) => String(p.worker.WorkerGroup) === group && p.phases.includes(phase)).length
+    )
+  }
+
+  private collectPhases(): number[] {
+    const phases = new Set<number>()
+    this.workers.forEach((worker) => this.getWorkerSlots(worker).forEach((phase) => phases.add(phase)))
+    this.tasks.forEach((task) => parsePhases(task.PreferredPhases).forEach((phase) => phases.add(phase)))
+    return Array.from(phases).sort((a, b) => a - b)
+  }
+
+  private getWorkerSlots(worker: any): number[] {
+    return parsePhases(worker.AvailableSlots)
+  }
+
+  private getMaxConcurrent(task: any): number {
+    const maxConcurrent = Number(task.MaxConcurrent)
+    return Number.isFinite(maxConcurrent) && maxConcurrent > 0 ? maxConcurrent : Number.POSITIVE_INFINITY
+  }
+
+  private range(start: number, length: number): number[] {
+    return Array.from({ length }, (_, i) => start + i)
+  }
+}
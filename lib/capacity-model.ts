@@ -0,0 +1,177 @@
+import { toList, parsePhases, toText } from "./schemas"
+
+export interface PhaseCapacity {
+  phase: number
+  // Worker slots available in the phase: each available worker contributes its MaxLoadPerPhase
+  supply: number
+  // Expected slots needed, with every task spread over the placements its duration allows
+  demand: number
+  // demand / supply; Infinity when there is demand but no supply
+  utilization: number
+  supplyBySkill: Record<string, number>
+  demandBySkill: Record<string, number>
+  supplyByGroup: Record<string, number>
+}
+
+export interface SkillShortfall {
+  phase: number
+  skill: string
+  supply: number
+  demand: number
+}
+
+const UNGROUPED = "Ungrouped"
+
+const add = (totals: Record<string, number>, key: string, amount: number) => {
+  totals[key] = (totals[key] || 0) + amount
+}
+
+const ratio = (demand: number, supply: number) =>
+  supply > 0 ? demand / supply : demand > 0 ? Number.POSITIVE_INFINITY : 0
+
+// Phase-by-phase supply and demand, shared by validation, AI insights and the capacity heatmap so they
+// all agree on what "capacity" means. Tasks are placed the way the allocation engine places them: Duration
+// consecutive phases, all inside PreferredPhases (or anywhere when a task has none).
+export class CapacityModel {
+  readonly phases: number[]
+  // Tasks whose duration doesn't fit any consecutive run of their phases; they add no demand
+  readonly unplaceableTasks: string[] = []
+  private byPhase = new Map<number, PhaseCapacity>()
+
+  constructor(workers: any[], tasks: any[]) {
+    const phases = new Set<number>()
+    workers.forEach((worker) => parsePhases(worker.AvailableSlots).forEach((phase) => phases.add(phase)))
+    tasks.forEach((task) => parsePhases(task.PreferredPhases).forEach((phase) => phases.add(phase)))
+    this.phases = Array.from(phases).sort((a, b) => a - b)
+
+    this.phases.forEach((phase) =>
+      this.byPhase.set(phase, {
+        phase,
+        supply: 0,
+        demand: 0,
+        utilization: 0,
+        supplyBySkill: {},
+        demandBySkill: {},
+        supplyByGroup: {},
+      }),
+    )
+
+    // 1. Supply
+    workers.forEach((worker) => {
+      const load = CapacityModel.getWorkerLoad(worker)
+      const skills = toList(worker.Skills)
+      const group = toText(worker.WorkerGroup) || UNGROUPED
+
+      parsePhases(worker.AvailableSlots).forEach((phase) => {
+        const capacity = this.byPhase.get(phase)!
+        capacity.supply += load
+        skills.forEach((skill) => add(capacity.supplyBySkill, skill, load))
+        add(capacity.supplyByGroup, String(group), load)
+      })
+    })
+
+    // 2. Demand
+    tasks.forEach((task) => {
+      const duration = CapacityModel.getDuration(task)
+      const placements = this.getPlacements(task)
+      if (placements.length === 0) {
+        this.unplaceableTasks.push(String(task.TaskID ?? ""))
+        return
+      }
+
+      // Each placement is equally likely, so a phase gets the share of placements that cover it
+      const share = 1 / placements.length
+      const skills = toList(task.RequiredSkills)
+      placements.forEach((start) => {
+        for (let phase = start; phase < start + duration; phase++) {
+          const capacity = this.byPhase.get(phase)!
+          capacity.demand += share
+          skills.forEach((skill) => add(capacity.demandBySkill, skill, share))
+        }
+      })
+    })
+
+    this.byPhase.forEach((capacity) => {
+      capacity.utilization = ratio(capacity.demand, capacity.supply)
+    })
+  }
+
+  getPhase(phase: number): PhaseCapacity | undefined {
+    return this.byPhase.get(phase)
+  }
+
+  getPhases(): PhaseCapacity[] {
+    return this.phases.map((phase) => this.byPhase.get(phase)!)
+  }
+
+  getTotals(): { supply: number; demand: number; utilization: number } {
+    let supply = 0
+    let demand = 0
+    this.byPhase.forEach((capacity) => {
+      supply += capacity.supply
+      demand += capacity.demand
+    })
+    return { supply, demand, utilization: ratio(demand, supply) }
+  }
+
+  // Supply and demand per skill summed over all phases
+  getSkillTotals(): Record<string, { supply: number; demand: number }> {
+    const totals: Record<string, { supply: number; demand: number }> = {}
+    this.byPhase.forEach((capacity) => {
+      Object.keys({ ...capacity.supplyBySkill, ...capacity.demandBySkill }).forEach((skill) => {
+        const total = totals[skill] || (totals[skill] = { supply: 0, demand: 0 })
+        total.supply += capacity.supplyBySkill[skill] || 0
+        total.demand += capacity.demandBySkill[skill] || 0
+      })
+    })
+    return totals
+  }
+
+  getSkills(): string[] {
+    return Object.keys(this.getSkillTotals()).sort()
+  }
+
+  getGroups(): string[] {
+    const groups = new Set<string>()
+    this.byPhase.forEach((capacity) => Object.keys(capacity.supplyByGroup).forEach((group) => groups.add(group)))
+    return Array.from(groups).sort()
+  }
+
+  getSkillShortfalls(): SkillShortfall[] {
+    const shortfalls: SkillShortfall[] = []
+    this.getPhases().forEach((capacity) => {
+      Object.keys(capacity.demandBySkill).forEach((skill) => {
+        const supply = capacity.supplyBySkill[skill] || 0
+        const demand = capacity.demandBySkill[skill]
+        if (demand > supply) shortfalls.push({ phase: capacity.phase, skill, supply, demand })
+      })
+    })
+    return shortfalls
+  }
+
+  // Shared with the allocation engine. A missing or invalid MaxLoadPerPhase adds no capacity rather than a
+  // guessed one; validation reports the value.
+  static getWorkerLoad(worker: any): number {
+    const maxLoad = Number(worker.MaxLoadPerPhase)
+    return Number.isFinite(maxLoad) && maxLoad > 0 ? maxLoad : 0
+  }
+
+  static getDuration(task: any): number {
+    const duration = Number(task.Duration)
+    return Number.isFinite(duration) && duration >= 1 ? Math.floor(duration) : 1
+  }
+
+  // Start phases where the whole run of Duration phases stays inside the task's window
+  private getPlacements(task: any): number[] {
+    const preferred = parsePhases(task.PreferredPhases)
+    const window = preferred.length > 0 ? preferred : this.phases
+    const duration = CapacityModel.getDuration(task)
+
+    return window.filter((start) => {
+      for (let phase = start; phase < start + duration; phase++) {
+        if (!window.includes(phase)) return false
+      }
+      return true
+    })
+  }
+}
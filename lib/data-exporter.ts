@@ -0,0 +1,164 @@
+import Papa from "papaparse"
+import * as XLSX from "xlsx"
+import JSZip from "jszip"
+import { RuleValidator, type Rule } from "./rule-types"
+import type { PrioritizationConfig } from "./prioritization"
+import { ENTITY_FIELDS, type EntityType } from "./schemas"
+import type { Suppression } from "./suppressions"
+import type { ValidationError } from "./validation-engine"
+
+// Numeric lists are written in bracket notation, string lists as plain comma-separated values
+const NUMERIC_LIST_FIELDS = ["AvailableSlots", "PreferredPhases"]
+const JSON_FIELDS = ["AttributesJSON"]
+
+export interface ExportBundle {
+  clients: any[]
+  workers: any[]
+  tasks: any[]
+  rules: Rule[]
+  prioritization?: PrioritizationConfig
+  suppressions?: Suppression[]
+  // Issues currently hidden by those suppressions, listed under the suppression that matched them
+  suppressedIssues?: ValidationError[]
+}
+
+export class DataExporter {
+  static serializeValue(value: any, column: string): string {
+    if (value === null || value === undefined) return ""
+
+    if (JSON_FIELDS.includes(column)) {
+      return typeof value === "string" ? value : JSON.stringify(value)
+    }
+
+    if (Array.isArray(value)) {
+      return NUMERIC_LIST_FIELDS.includes(column) ? `[${value.join(",")}]` : value.join(",")
+    }
+
+    if (typeof value === "object") {
+      return JSON.stringify(value)
+    }
+
+    return String(value)
+  }
+
+  // Canonical columns first (in schema order), then any extra columns the source file carried
+  static getColumns(entity: EntityType, data: any[]): string[] {
+    const extra = new Set<string>()
+    data.forEach((row) => {
+      Object.keys(row).forEach((key) => {
+        if (!ENTITY_FIELDS[entity].includes(key)) extra.add(key)
+      })
+    })
+
+    const present = ENTITY_FIELDS[entity].filter((column) => data.length === 0 || data.some((row) => column in row))
+    return [...present, ...Array.from(extra)]
+  }
+
+  static toRows(entity: EntityType, data: any[]): string[][] {
+    const columns = this.getColumns(entity, data)
+    return [columns, ...data.map((row) => columns.map((column) => this.serializeValue(row[column], column)))]
+  }
+
+  static recordsToCSV(records: any[], columns?: string[]): string {
+    const header =
+      columns ||
+      records.reduce<string[]>((acc, record) => {
+        Object.keys(record).forEach((key) => {
+          if (!acc.includes(key)) acc.push(key)
+        })
+        return acc
+      }, [])
+
+    return Papa.unparse({
+      fields: header,
+      data: records.map((record) => header.map((column) => this.serializeValue(record[column], column))),
+    })
+  }
+
+  static toCSV(entity: EntityType, data: any[]): string {
+    const [fields, ...rows] = this.toRows(entity, data)
+    return Papa.unparse({ fields, data: rows })
+  }
+
+  static toWorksheet(entity: EntityType, data: any[]): XLSX.WorkSheet {
+    return XLSX.utils.aoa_to_sheet(this.toRows(entity, data))
+  }
+
+  static toXLSX(entity: EntityType, data: any[]): Blob {
+    const workbook = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(workbook, this.toWorksheet(entity, data), this.getSheetName(entity))
+    return this.workbookToBlob(workbook)
+  }
+
+  // One workbook with a Clients, Workers and Tasks sheet, mirroring what the uploader accepts
+  static toWorkbookXLSX(data: Record<EntityType, any[]>): Blob {
+    const workbook = XLSX.utils.book_new()
+    const entities = Object.keys(ENTITY_FIELDS) as EntityType[]
+    entities.forEach((entity) => {
+      XLSX.utils.book_append_sheet(workbook, this.toWorksheet(entity, data[entity]), this.getSheetName(entity))
+    })
+    return this.workbookToBlob(workbook)
+  }
+
+  static toRulesJSON(rules: Rule[], prioritization?: PrioritizationConfig): string {
+    return JSON.stringify(RuleValidator.generateRuleSet(rules, prioritization), null, 2)
+  }
+
+  // Audit trail: each acknowledgement or suppression with its reason and the issues it currently covers
+  static toSuppressionsJSON(suppressions: Suppression[], suppressedIssues: ValidationError[]): string {
+    return JSON.stringify(
+      {
+        exportedAt: new Date().toISOString(),
+        suppressions: suppressions.map((suppression) => ({
+          ...suppression,
+          createdAt: new Date(suppression.createdAt).toISOString(),
+          matchedIssues: suppressedIssues
+            .filter((issue) => issue.suppressionId === suppression.id)
+            .map((issue) => ({
+              id: issue.id,
+              type: issue.type,
+              message: issue.message,
+              entityType: issue.entityType,
+              recordId: issue.recordId,
+              field: issue.field,
+            })),
+        })),
+      },
+      null,
+      2,
+    )
+  }
+
+  static async createBundle(bundle: ExportBundle): Promise<Blob> {
+    const zip = new JSZip()
+
+    zip.file("clients.csv", this.toCSV("clients", bundle.clients))
+    zip.file("workers.csv", this.toCSV("workers", bundle.workers))
+    zip.file("tasks.csv", this.toCSV("tasks", bundle.tasks))
+    zip.file("rules.json", this.toRulesJSON(bundle.rules, bundle.prioritization))
+    if (bundle.suppressions?.length) {
+      zip.file("suppressions.json", this.toSuppressionsJSON(bundle.suppressions, bundle.suppressedIssues || []))
+    }
+
+    return zip.generateAsync({ type: "blob" })
+  }
+
+  static download(content: Blob | string, filename: string, mimeType = "text/plain") {
+    const blob = typeof content === "string" ? new Blob([content], { type: mimeType }) : content
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = filename
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  static getSheetName(entity: EntityType): string {
+    return entity.charAt(0).toUpperCase() + entity.slice(1)
+  }
+
+  static workbookToBlob(workbook: XLSX.WorkBook): Blob {
+    const buffer = XLSX.write(workbook, { bookType: "xlsx", type: "array" })
+    return new Blob([buffer], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" })
+  }
+}
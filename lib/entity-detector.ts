@@ -0,0 +1,106 @@
+import { HeaderMapper } from "./header-mapper"
+import type { EntityType } from "./schemas"
+
+export type DetectedEntityType = EntityType | "unknown"
+
+export interface EntityDetection {
+  type: DetectedEntityType
+  confidence: number
+  scores: Record<EntityType, number>
+  filenameType: DetectedEntityType
+  mismatch: boolean
+}
+
+const ENTITY_TYPES: EntityType[] = ["clients", "workers", "tasks"]
+const MIN_CONFIDENCE = 0.35
+const SAMPLE_SIZE = 25
+
+// Value shapes that only make sense for one entity; each returns true when a cell looks right
+const VALUE_SIGNALS: Record<EntityType, Record<string, (value: any) => boolean>> = {
+  clients: {
+    ClientID: (value) => /^C\d+$/i.test(String(value).trim()),
+    PriorityLevel: (value) => Number.isInteger(Number(value)) && Number(value) >= 1 && Number(value) <= 5,
+    RequestedTaskIDs: (value) => /^\s*\[?\s*"?T\d+/i.test(Array.isArray(value) ? String(value[0]) : String(value)),
+  },
+  workers: {
+    WorkerID: (value) => /^W\d+$/i.test(String(value).trim()),
+    AvailableSlots: (value) => Array.isArray(value) || /^\[[\d,\s]*\]$/.test(String(value).trim()),
+    MaxLoadPerPhase: (value) => Number.isInteger(Number(value)) && Number(value) >= 0,
+  },
+  tasks: {
+    TaskID: (value) => /^T\d+$/i.test(String(value).trim()),
+    Duration: (value) => Number.isInteger(Number(value)) && Number(value) >= 1,
+    MaxConcurrent: (value) => Number.isInteger(Number(value)) && Number(value) >= 1,
+  },
+}
+
+export class EntityDetector {
+  static detectFromFilename(filename: string): DetectedEntityType {
+    const name = filename.toLowerCase()
+    if (name.includes("client")) return "clients"
+    if (name.includes("worker")) return "workers"
+    if (name.includes("task")) return "tasks"
+    return "unknown"
+  }
+
+  // Fraction of canonical fields with a reasonably close header
+  static scoreHeaders(headers: string[], entityType: EntityType): number {
+    const fields = HeaderMapper.getCanonicalFields(entityType)
+    const matched = fields.filter((field) => headers.some((header) => HeaderMapper.scoreHeader(header, field) >= 0.75))
+    return matched.length / fields.length
+  }
+
+  // Fraction of sampled cells that fit the entity's distinctive value shapes
+  static scoreValues(rows: any[], entityType: EntityType): number {
+    const sample = rows.slice(0, SAMPLE_SIZE)
+    const headers = sample.length > 0 ? Object.keys(sample[0]) : []
+    const signals = VALUE_SIGNALS[entityType]
+    let checked = 0
+    let passed = 0
+
+    Object.entries(signals).forEach(([field, matches]) => {
+      const header = headers.find((h) => HeaderMapper.scoreHeader(h, field) >= 0.75)
+      if (!header) return
+
+      sample.forEach((row) => {
+        const value = row[header]
+        if (value === null || value === undefined || value === "") return
+        checked++
+        if (matches(value)) passed++
+      })
+    })
+
+    return checked > 0 ? passed / checked : 0
+  }
+
+  static detect(rows: any[], filename: string): EntityDetection {
+    const headers: string[] = []
+    rows.slice(0, SAMPLE_SIZE).forEach((row) => {
+      Object.keys(row).forEach((key) => {
+        if (!headers.includes(key)) headers.push(key)
+      })
+    })
+    const filenameType = this.detectFromFilename(filename)
+
+    const scores = ENTITY_TYPES.reduce(
+      (acc, entityType) => {
+        // Headers carry most of the signal; values break ties between similarly named columns
+        acc[entityType] = this.scoreHeaders(headers, entityType) * 0.7 + this.scoreValues(rows, entityType) * 0.3
+        return acc
+      },
+      {} as Record<EntityType, number>,
+    )
+
+    const [best, runnerUp] = [...ENTITY_TYPES].sort((a, b) => scores[b] - scores[a])
+    const confident = scores[best] >= MIN_CONFIDENCE && scores[best] > scores[runnerUp]
+    const type = confident ? best : filenameType
+
+    return {
+      type,
+      confidence: scores[best],
+      scores,
+      filenameType,
+      mismatch: confident && filenameType !== "unknown" && filenameType !== best,
+    }
+  }
+}
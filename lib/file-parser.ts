@@ -71,7 +71,18 @@ export async function parseCSV(file: File): Promise<any[]> {
   })
 }
 
+export interface ParsedSheet {
+  name: string
+  data: any[]
+}
+
 export async function parseXLSX(file: File): Promise<any[]> {
+  // Get the first worksheet
+  const [first] = await parseWorkbook(file)
+  return first ? first.data : []
+}
+
+export async function parseWorkbook(file: File): Promise<ParsedSheet[]> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader()
 
@@ -80,87 +91,11 @@ export async function parseXLSX(file: File): Promise<any[]> {
         const data = new Uint8Array(e.target?.result as ArrayBuffer)
         const workbook = XLSX.read(data, { type: "array" })
 
-        // Get the first worksheet
-        const sheetName = workbook.SheetNames[0]
-        const worksheet = workbook.Sheets[sheetName]
-
-        // Convert to JSON
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, {
-          header: 1,
-          defval: null,
-        }) as any[][]
-
-        if (jsonData.length === 0) {
-          resolve([])
-          return
-        }
-
-        // Get headers from first row
-        const headers = jsonData[0].map((header: any) =>
-          String(header || "")
-            .trim()
-            .replace(/\s+/g, ""),
+        resolve(
+          workbook.SheetNames.map((name) => ({ name, data: sheetToRecords(workbook.Sheets[name]) })).filter(
+            (sheet) => sheet.data.length > 0,
+          ),
         )
-
-        // Convert rows to objects
-        const result = jsonData
-          .slice(1)
-          .map((row) => {
-            const obj: any = {}
-            headers.forEach((header, index) => {
-              const value = row[index]
-
-              if (value === null || value === undefined || value === "") {
-                obj[header] = null
-                return
-              }
-
-              const stringValue = String(value)
-
-              // Handle JSON fields
-              if (String(header).toLowerCase().includes("json")) {
-                try {
-                  obj[header] = typeof value === "string" ? JSON.parse(stringValue) : value
-                } catch {
-                  obj[header] = value
-                }
-                return
-              }
-
-              // Handle array fields
-              if (
-                String(header).toLowerCase().includes("slots") ||
-                String(header).toLowerCase().includes("phases") ||
-                String(header).toLowerCase().includes("ids")
-              ) {
-                try {
-                  if (typeof value === "string") {
-                    if (stringValue.startsWith("[") && stringValue.endsWith("]")) {
-                      obj[header] = JSON.parse(stringValue)
-                    } else if (stringValue.includes(",")) {
-                      obj[header] = stringValue.split(",").map((v) => {
-                        const trimmed = v.trim()
-                        return isNaN(Number(trimmed)) ? trimmed : Number(trimmed)
-                      })
-                    } else {
-                      obj[header] = value
-                    }
-                  } else {
-                    obj[header] = value
-                  }
-                } catch {
-                  obj[header] = value
-                }
-                return
-              }
-
-              obj[header] = value
-            })
-            return obj
-          })
-          .filter((row) => Object.values(row).some((val) => val !== null && val !== ""))
-
-        resolve(result)
       } catch (error) {
         reject(new Error(`Failed to parse XLSX: ${error instanceof Error ? error.message : "Unknown error"}`))
       }
@@ -173,3 +108,86 @@ export async function parseXLSX(file: File): Promise<any[]> {
     reader.readAsArrayBuffer(file)
   })
 }
+
+function sheetToRecords(worksheet: XLSX.WorkSheet): any[] {
+  // Convert to JSON
+  const jsonData = XLSX.utils.sheet_to_json(worksheet, {
+    header: 1,
+    defval: null,
+  }) as any[][]
+
+  if (jsonData.length === 0) return []
+
+  // Get headers from first row
+  const headers = jsonData[0].map((header: any) =>
+    String(header || "")
+      .trim()
+      .replace(/\s+/g, ""),
+  )
+
+  // Convert rows to objects
+  return jsonData
+    .slice(1)
+    .map((row) => {
+      const obj: any = {}
+      headers.forEach((header, index) => {
+        const value = row[index]
+
+        if (value === null || value === undefined || value === "") {
+          obj[header] = null
+          return
+        }
+
+        const stringValue = String(value)
+
+        // Handle JSON fields
+        if (String(header).toLowerCase().includes("json")) {
+          try {
+            obj[header] = typeof value === "string" ? JSON.parse(stringValue) : value
+          } catch {
+            obj[header] = value
+          }
+          return
+        }
+
+        // Handle array fields
+        if (
+          String(header).toLowerCase().includes("slots") ||
+          String(header).toLowerCase().includes("phases") ||
+          String(header).toLowerCase().includes("ids")
+        ) {
+          try {
+            if (typeof value === "string") {
+              if (stringValue.startsWith("[") && stringValue.endsWith("]")) {
+                obj[header] = JSON.parse(stringValue)
+              } else if (stringValue.includes(",")) {
+                obj[header] = stringValue.split(",").map((v) => {
+                  const trimmed = v.trim()
+                  return isNaN(Number(trimmed)) ? trimmed : Number(trimmed)
+                })
+              } else {
+                obj[header] = value
+              }
+            } else {
+              obj[header] = value
+            }
+          } catch {
+            obj[header] = value
+          }
+          return
+        }
+
+        obj[header] = value
+      })
+      return obj
+    })
+    .filter((row) => Object.values(row).some((val) => val !== null && val !== ""))
+}
+
+// CSV files yield a single sheet named after the file; workbooks yield every non-empty sheet
+export async function parseFile(file: File): Promise<ParsedSheet[]> {
+  const name = file.name.toLowerCase()
+  if (name.endsWith(".csv")) return [{ name: file.name, data: await parseCSV(file) }]
+  if (name.endsWith(".xlsx") || name.endsWith(".xls")) return parseWorkbook(file)
+  throw new Error(`Unsupported file type: ${file.name}`)
+}
@@ -0,0 +1,225 @@
+import { getRecordKeys, toList, parsePhases, toNumber, type EntityType } from "./schemas"
+import { ValidatorRegistry, type ValidatorSettings } from "./validator-registry"
+import type { ValidationError } from "./validation-engine"
+import { GroupModel } from "./group-model"
+
+export interface FieldEdit {
+  entityType: EntityType
+  rowIndex: number
+  recordId: string
+  field: string
+  before: any
+  after: any
+}
+
+export interface FixProposal {
+  issueId: string
+  checkId: string
+  label: string
+  edits: FieldEdit[]
+}
+
+export interface FixData {
+  clients: any[]
+  workers: any[]
+  tasks: any[]
+}
+
+// Proposes a concrete fix for one issue against the current data, or null when there's nothing safe to do
+export type FixProvider = (issue: ValidationError, data: FixData, params: Record<string, number>) => FixProposal | null
+
+// Builds a single-cell proposal, skipping edits that wouldn't change anything
+const editCell = (issue: ValidationError, data: FixData, label: string, after: any): FixProposal | null => {
+  const row = data[issue.entityType][issue.rowIndex]
+  if (!row) return null
+
+  const before = row[issue.field]
+  if (JSON.stringify(before) === JSON.stringify(after)) return null
+
+  return {
+    issueId: issue.id,
+    checkId: issue.checkId || "",
+    label,
+    edits: [
+      {
+        entityType: issue.entityType,
+        rowIndex: issue.rowIndex,
+        recordId: issue.recordId ?? `row-${issue.rowIndex + 1}`,
+        field: issue.field,
+        before,
+        after,
+      },
+    ],
+  }
+}
+
+const countQualifiedWorkers = (task: any, workers: any[]) => {
+  const required = toList(task.RequiredSkills)
+  return workers.filter((worker) => {
+    const skills = toList(worker.Skills)
+    return skills.length > 0 && required.every((skill) => skills.includes(skill))
+  }).length
+}
+
+// 1. Built-in providers, keyed by the check that reports the issue
+
+const BUILT_IN_PROVIDERS: Record<string, FixProvider> = {
+  "duplicate-ids": (issue, data) => {
+    const rows = data[issue.entityType]
+    const id = String(rows[issue.rowIndex]?.[issue.field] ?? "")
+    const taken = new Set(rows.map((row) => String(row[issue.field])))
+
+    let suffix = 2
+    while (taken.has(`${id}-${suffix}`)) suffix++
+    return editCell(issue, data, `Rename to ${id}-${suffix}`, `${id}-${suffix}`)
+  },
+
+  "malformed-lists": (issue, data) => {
+    const phases = parsePhases(data[issue.entityType][issue.rowIndex]?.[issue.field])
+    if (phases.length === 0) return null
+    return editCell(issue, data, `Keep the valid phases [${phases.join(", ")}]`, phases)
+  },
+
+  "out-of-range": (issue, data, params) => {
+    const value = toNumber(data[issue.entityType][issue.rowIndex]?.[issue.field])
+    if (typeof value !== "number") return null // Nothing numeric to clamp
+
+    const bounds: Record<string, [number, number]> = {
+      PriorityLevel: [params.priorityMin, params.priorityMax],
+      Duration: [params.durationMin, Infinity],
+      MaxLoadPerPhase: [1, Infinity],
+      MaxConcurrent: [1, Infinity],
+    }
+    const [min, max] = bounds[issue.field] || [1, Infinity]
+    const fixed = Math.min(max, Math.max(min, Math.round(value)))
+    return editCell(issue, data, `Set ${issue.field} to ${fixed}`, fixed)
+  },
+
+  "unknown-references": (issue, data) => {
+    const taskIds = new Set(data.tasks.map((task) => String(task.TaskID)))
+    const requested = toList(data.clients[issue.rowIndex]?.RequestedTaskIDs)
+    const known = requested.filter((taskId) => taskIds.has(taskId))
+    const removed = requested.filter((taskId) => !taskIds.has(taskId))
+    return editCell(issue, data, `Remove unknown ${removed.join(", ")}`, known)
+  },
+
+  // Renames the cell to the group it most likely meant, as long as the names still look alike
+  "group-names": (issue, data, params) => {
+    const name = String(data[issue.entityType][issue.rowIndex]?.[issue.field] ?? "").trim()
+    const duplicate = new GroupModel(data.clients, data.workers, data.tasks)
+      .findNearDuplicates(params.similarity)
+      .find(({ group }) => group.entityType === issue.entityType && group.name === name)
+    if (!duplicate) return null
+    return editCell(issue, data, `Rename to ${duplicate.similarTo.name}`, duplicate.similarTo.name)
+  },
+
+  "overloaded-workers": (issue, data) => {
+    const worker = data.workers[issue.rowIndex] || {}
+    const slots = parsePhases(worker.AvailableSlots).length
+    if (slots === 0 || Number(worker.MaxLoadPerPhase) <= slots) return null
+    return editCell(issue, data, `Cap MaxLoadPerPhase at ${slots} slots`, slots)
+  },
+
+  "max-concurrency": (issue, data) => {
+    const task = data.tasks[issue.rowIndex] || {}
+    const qualified = countQualifiedWorkers(task, data.workers)
+    // Lowering to zero would make the task unschedulable
+    if (qualified === 0 || Number(task.MaxConcurrent) <= qualified) return null
+    return editCell(issue, data, `Reduce MaxConcurrent to ${qualified} qualified workers`, qualified)
+  },
+
+  // Only ever lowers a value, so applying this after another fix to the same cell can't undo it
+  "conflicting-rules": (issue, data, params) => {
+    const task = data.tasks[issue.rowIndex] || {}
+    const phases = parsePhases(task.PreferredPhases)
+    if (phases.length === 0) return null
+
+    if (issue.field === "MaxConcurrent" && Number(task.MaxConcurrent) > phases.length) {
+      return editCell(issue, data, `Reduce MaxConcurrent to ${phases.length} phases`, phases.length)
+    }
+    const duration = Math.max(1, Math.floor(phases.length * params.durationPhaseRatio))
+    if (issue.field === "Duration" && Number(task.Duration) > duration) {
+      return editCell(issue, data, `Shorten Duration to ${duration}`, duration)
+    }
+    return null
+  },
+}
+
+export class FixEngine {
+  private static providers = new Map<string, FixProvider>(Object.entries(BUILT_IN_PROVIDERS))
+  private static recordKeys = new WeakMap<any[], string[]>()
+
+  // Third-party checks can ship their own fixes under their check id
+  static registerProvider(checkId: string, provider: FixProvider): void {
+    this.providers.set(checkId, provider)
+  }
+
+  static hasProvider(checkId?: string): boolean {
+    return !!checkId && this.providers.has(checkId)
+  }
+
+  static propose(issue: ValidationError, data: FixData, settings: ValidatorSettings = {}): FixProposal | null {
+    return this.proposeAt(issue, this.locate(issue, data), data, settings)
+  }
+
+  static proposeAll(issues: ValidationError[], data: FixData, settings: ValidatorSettings = {}): FixProposal[] {
+    const proposals: FixProposal[] = []
+    issues.forEach((issue) => {
+      const proposal = this.propose(issue, data, settings)
+      if (proposal) proposals.push(proposal)
+    })
+    return proposals
+  }
+
+  // Applies fixes one at a time against fresh data, so two issues in the same cell don't overwrite each other
+  static applyAll(
+    issues: ValidationError[],
+    getData: () => FixData,
+    applyEdit: (edit: FieldEdit) => void,
+    settings: ValidatorSettings = {},
+  ): number {
+    // Fixes edit cells in place and never move rows, so records are located once up front. Renaming a
+    // duplicate id changes the keys of later repeats, which would no longer be found afterwards.
+    const initial = getData()
+    const rowIndices = issues.map((issue) => this.locate(issue, initial))
+
+    let applied = 0
+    issues.forEach((issue, i) => {
+      const proposal = this.proposeAt(issue, rowIndices[i], getData(), settings)
+      if (!proposal) return
+
+      proposal.edits.forEach(applyEdit)
+      applied++
+    })
+    return applied
+  }
+
+  private static proposeAt(
+    issue: ValidationError,
+    rowIndex: number,
+    data: FixData,
+    settings: ValidatorSettings,
+  ): FixProposal | null {
+    if (!issue.autoFixable || !issue.checkId || rowIndex === -1) return null
+
+    const provider = this.providers.get(issue.checkId)
+    const validator = ValidatorRegistry.get(issue.checkId)
+    if (!provider || !validator) return null
+
+    return provider({ ...issue, rowIndex }, data, ValidatorRegistry.getParams(validator, settings[issue.checkId]))
+  }
+
+  // Issues point at records by key, and rows may have moved since the issue was reported
+  // -1 means the record is gone
+  private static locate(issue: ValidationError, data: FixData): number {
+    if (issue.recordId === undefined) return issue.rowIndex
+
+    const rows = data[issue.entityType]
+    let keys = this.recordKeys.get(rows)
+    if (!keys) {
+      keys = getRecordKeys(issue.entityType, rows)
+      this.recordKeys.set(rows, keys)
+    }
+    return keys.indexOf(issue.recordId)
+  }
+}
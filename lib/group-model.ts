@@ -0,0 +1,163 @@
+import { getRecordKeys, toList, parsePhases, toText, type EntityType } from "./schemas"
+import { CapacityModel } from "./capacity-model"
+import { HeaderMapper } from "./header-mapper"
+import type { Rule } from "./rule-types"
+
+export type GroupKind = "client" | "worker"
+
+export interface GroupSummary {
+  kind: GroupKind
+  name: string
+  entityType: EntityType
+  field: "GroupTag" | "WorkerGroup"
+  members: { rowIndex: number; recordId: string }[]
+  // Workers: phases every member is available in. Clients: phases every member's requested tasks can run in.
+  commonSlots: number[]
+  // Workers only: slots the group offers per phase, summed over members' MaxLoadPerPhase
+  slotsByPhase: Record<number, number>
+  totalSlots: number
+  // Clients only: distinct tasks the group's members request
+  requestedTasks: string[]
+  // Load-limit and slot-restriction rules that name this group
+  rules: Rule[]
+}
+
+export interface NearDuplicateGroup {
+  group: GroupSummary
+  // The group this one is probably a misspelling of
+  similarTo: GroupSummary
+  similarity: number
+}
+
+export const DEFAULT_GROUP_SIMILARITY = 0.8
+
+const GROUP_FIELDS: Record<GroupKind, { entityType: EntityType; field: "GroupTag" | "WorkerGroup" }> = {
+  client: { entityType: "clients", field: "GroupTag" },
+  worker: { entityType: "workers", field: "WorkerGroup" },
+}
+
+// Members shared by every list, or every phase when there are no lists; empty lists don't narrow the result
+const intersect = (lists: number[][]): number[] => {
+  const filled = lists.filter((list) => list.length > 0)
+  if (filled.length === 0) return []
+  return filled.reduce((acc, list) => acc.filter((phase) => list.includes(phase))).sort((a, b) => a - b)
+}
+
+// "GroupA" / "GroupB" or "Team1" / "Team2" are siblings in a series, not typos of each other
+const isSeries = (a: string, b: string) =>
+  a.length === b.length && a.slice(0, -1) === b.slice(0, -1) && /[a-z0-9]/.test(a.slice(-1))
+
+// Client GroupTags and WorkerGroups with their members, shared slots, capacity and the rules that target
+// them, so validation and the group summary describe groups the same way
+export class GroupModel {
+  private groups: GroupSummary[] = []
+
+  constructor(clients: any[], workers: any[], tasks: any[], rules: Rule[] = []) {
+    const data: Record<EntityType, any[]> = { clients, workers, tasks }
+    const taskPhases = new Map<string, number[]>()
+    tasks.forEach((task) => taskPhases.set(String(task.TaskID), parsePhases(task.PreferredPhases)))
+
+    // 1. Members, in first-seen order
+    const kinds = Object.keys(GROUP_FIELDS) as GroupKind[]
+    kinds.forEach((kind) => {
+      const { entityType, field } = GROUP_FIELDS[kind]
+      const rows = data[entityType]
+      const keys = getRecordKeys(entityType, rows)
+      const byName = new Map<string, GroupSummary>()
+
+      rows.forEach((row, rowIndex) => {
+        const name = toText(row[field])
+        if (!name) return
+
+        let group = byName.get(String(name))
+        if (!group) {
+          group = {
+            kind,
+            name: String(name),
+            entityType,
+            field,
+            members: [],
+            commonSlots: [],
+            slotsByPhase: {},
+            totalSlots: 0,
+            requestedTasks: [],
+            rules: [],
+          }
+          byName.set(group.name, group)
+          this.groups.push(group)
+        }
+        group.members.push({ rowIndex, recordId: keys[rowIndex] })
+      })
+    })
+
+    // 2. Shared slots and capacity
+    this.groups.forEach((group) => {
+      const rows = group.members.map((member) => data[group.entityType][member.rowIndex])
+
+      if (group.kind === "worker") {
+        group.commonSlots = intersect(rows.map((worker) => parsePhases(worker.AvailableSlots)))
+        rows.forEach((worker) => {
+          const load = CapacityModel.getWorkerLoad(worker)
+          parsePhases(worker.AvailableSlots).forEach((phase) => {
+            group.slotsByPhase[phase] = (group.slotsByPhase[phase] || 0) + load
+            group.totalSlots += load
+          })
+        })
+      } else {
+        const requested = new Set<string>()
+        const memberPhases = rows.map((client) => {
+          const phases = new Set<number>()
+          toList(client.RequestedTaskIDs).forEach((taskId) => {
+            requested.add(taskId)
+            const preferred = taskPhases.get(taskId) || []
+            preferred.forEach((phase) => phases.add(phase))
+          })
+          return Array.from(phases)
+        })
+        group.commonSlots = intersect(memberPhases)
+        group.requestedTasks = Array.from(requested)
+      }
+    })
+
+    // 3. Rules that target each group
+    rules.forEach((rule) => {
+      if (rule.type === "loadLimit") this.getGroup("worker", rule.workerGroup)?.rules.push(rule)
+      if (rule.type === "slotRestriction") this.getGroup(rule.targetType, rule.groupName)?.rules.push(rule)
+    })
+  }
+
+  getGroups(kind?: GroupKind): GroupSummary[] {
+    return kind ? this.groups.filter((group) => group.kind === kind) : this.groups
+  }
+
+  getGroup(kind: GroupKind, name: string): GroupSummary | undefined {
+    return this.groups.find((group) => group.kind === kind && group.name === name)
+  }
+
+  // Groups whose name is a likely misspelling of another group of the same kind. The group with fewer
+  // members is the suspect; ties go to the name that sorts later so each pair is reported once.
+  findNearDuplicates(threshold = DEFAULT_GROUP_SIMILARITY): NearDuplicateGroup[] {
+    const duplicates: NearDuplicateGroup[] = []
+
+    this.groups.forEach((group) => {
+      const candidates: NearDuplicateGroup[] = []
+
+      this.getGroups(group.kind).forEach((other) => {
+        if (other === group) return
+        const a = HeaderMapper.normalize(group.name)
+        const b = HeaderMapper.normalize(other.name)
+        const similarity = a === b ? 1 : isSeries(a, b) ? 0 : HeaderMapper.similarity(a, b)
+        if (similarity < threshold) return
+
+        const isSuspect =
+          group.members.length < other.members.length ||
+          (group.members.length === other.members.length && group.name > other.name)
+        if (isSuspect) candidates.push({ group, similarTo: other, similarity })
+      })
+
+      if (candidates.length > 0) duplicates.push(candidates.sort((x, y) => y.similarity - x.similarity)[0])
+    })
+
+    return duplicates
+  }
+}
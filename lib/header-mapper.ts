@@ -0,0 +1,188 @@
+import { ENTITY_FIELDS } from "./schemas"
+
+// Source header -> canonical field, or null to keep the column under its original name
+export type HeaderMapping = Record<string, string | null>
+
+export interface MappingProposal {
+  mapping: HeaderMapping
+  confidence: Record<string, number>
+  source: "exact" | "saved" | "heuristic"
+}
+
+const STORAGE_KEY = "data-alchemist:header-mappings"
+const MATCH_THRESHOLD = 0.6
+
+// Common spreadsheet spellings for each canonical field (compared after normalization)
+const HEADER_ALIASES: Record<string, string[]> = {
+  ClientID: ["clientid", "client", "clientno", "clientnumber", "customerid", "customer"],
+  ClientName: ["clientname", "name", "customername", "company", "companyname", "organisation", "organization"],
+  PriorityLevel: ["prioritylevel", "priority", "prio", "importance"],
+  RequestedTaskIDs: ["requestedtaskids", "requestedtasks", "taskids", "tasks", "requests"],
+  GroupTag: ["grouptag", "group", "clientgroup", "tag", "segment"],
+  AttributesJSON: ["attributesjson", "attributes", "metadata", "json", "notes", "extra"],
+  WorkerID: ["workerid", "worker", "employeeid", "staffid", "resourceid"],
+  WorkerName: ["workername", "name", "employeename", "employee", "fullname", "staffname"],
+  Skills: ["skills", "skillset", "skill", "competencies", "expertise"],
+  AvailableSlots: ["availableslots", "slots", "availability", "availablephases", "phases"],
+  MaxLoadPerPhase: ["maxloadperphase", "maxload", "capacity", "load", "maxslots"],
+  WorkerGroup: ["workergroup", "group", "team", "department"],
+  QualificationLevel: ["qualificationlevel", "qualification", "level", "seniority", "grade"],
+  TaskID: ["taskid", "task", "id", "taskno", "tasknumber", "jobid"],
+  TaskName: ["taskname", "title", "name", "task", "summary", "jobname"],
+  Category: ["category", "type", "kind", "area"],
+  Duration: ["duration", "length", "phases", "effort", "estimate"],
+  RequiredSkills: ["requiredskills", "skills", "skillsrequired", "requirements", "needs"],
+  PreferredPhases: ["preferredphases", "phases", "phase", "window", "schedule"],
+  MaxConcurrent: ["maxconcurrent", "concurrency", "parallel", "maxparallel"],
+}
+
+export class HeaderMapper {
+  static normalize(header: string): string {
+    return String(header || "")
+      .toLowerCase()
+      .replace(/[^a-z0-9]/g, "")
+  }
+
+  static getCanonicalFields(entityType: "clients" | "workers" | "tasks"): string[] {
+    return ENTITY_FIELDS[entityType]
+  }
+
+  // Similarity in [0, 1] between a source header and a canonical field
+  static scoreHeader(header: string, field: string): number {
+    const source = this.normalize(header)
+    const target = this.normalize(field)
+    if (!source) return 0
+    if (source === target) return 1
+
+    const aliases = HEADER_ALIASES[field] || []
+    if (aliases.includes(source)) return 0.9
+
+    const containment = source.length >= 3 && (target.includes(source) || source.includes(target)) ? 0.75 : 0
+    const aliasSimilarity = Math.max(0, ...aliases.map((alias) => this.similarity(source, alias)))
+
+    return Math.max(containment, this.similarity(source, target), aliasSimilarity * 0.85)
+  }
+
+  static proposeMapping(headers: string[], entityType: "clients" | "workers" | "tasks"): MappingProposal {
+    const saved = this.loadSavedMapping(headers, entityType)
+    if (saved) {
+      return {
+        mapping: saved,
+        confidence: headers.reduce((acc, header) => ({ ...acc, [header]: 1 }), {} as Record<string, number>),
+        source: "saved",
+      }
+    }
+
+    const fields = this.getCanonicalFields(entityType)
+    const candidates: { header: string; field: string; score: number }[] = []
+
+    headers.forEach((header) => {
+      fields.forEach((field) => {
+        const score = this.scoreHeader(header, field)
+        if (score >= MATCH_THRESHOLD) {
+          candidates.push({ header, field, score })
+        }
+      })
+    })
+
+    // Greedy one-to-one assignment, best matches first
+    const mapping: HeaderMapping = {}
+    const confidence: Record<string, number> = {}
+    const usedFields = new Set<string>()
+
+    candidates
+      .sort((a, b) => b.score - a.score || headers.indexOf(a.header) - headers.indexOf(b.header))
+      .forEach((candidate) => {
+        if (candidate.header in mapping || usedFields.has(candidate.field)) return
+        mapping[candidate.header] = candidate.field
+        confidence[candidate.header] = candidate.score
+        usedFields.add(candidate.field)
+      })
+
+    headers.forEach((header) => {
+      if (!(header in mapping)) {
+        mapping[header] = null
+        confidence[header] = 0
+      }
+    })
+
+    const exact = headers.every((header) => mapping[header] === header)
+    return { mapping, confidence, source: exact ? "exact" : "heuristic" }
+  }
+
+  static applyMapping(rows: any[], mapping: HeaderMapping): any[] {
+    return rows.map((row) => {
+      const mapped: any = {}
+      Object.entries(row).forEach(([header, value]) => {
+        const target = mapping[header] || header
+        // Never let an unmapped column overwrite a mapped canonical field
+        if (target in mapped && !mapping[header]) return
+        mapped[target] = value
+      })
+      return mapped
+    })
+  }
+
+  static getMissingFields(mapping: HeaderMapping, entityType: "clients" | "workers" | "tasks"): string[] {
+    const mapped = new Set(Object.values(mapping).filter(Boolean))
+    return this.getCanonicalFields(entityType).filter((field) => !mapped.has(field))
+  }
+
+  static getSignature(headers: string[], entityType: "clients" | "workers" | "tasks"): string {
+    return `${entityType}:${headers
+      .map((header) => this.normalize(header))
+      .sort()
+      .join("|")}`
+  }
+
+  static loadSavedMapping(headers: string[], entityType: "clients" | "workers" | "tasks"): HeaderMapping | null {
+    const saved = this.readStorage()[this.getSignature(headers, entityType)]
+    if (!saved) return null
+
+    // Signatures are order-insensitive, so re-key by the headers as they appear in this file
+    const byNormalized = new Map(Object.entries(saved).map(([header, field]) => [this.normalize(header), field]))
+    return headers.reduce((acc, header) => {
+      acc[header] = byNormalized.get(this.normalize(header)) ?? null
+      return acc
+    }, {} as HeaderMapping)
+  }
+
+  static saveMapping(headers: string[], entityType: "clients" | "workers" | "tasks", mapping: HeaderMapping) {
+    const stored = this.readStorage()
+    stored[this.getSignature(headers, entityType)] = mapping
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(stored))
+    } catch {
+      // Storage unavailable (private mode, quota); mappings just won't be remembered
+    }
+  }
+
+  private static readStorage(): Record<string, HeaderMapping> {
+    if (typeof window === "undefined") return {}
+
+    try {
+      return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}")
+    } catch {
+      return {}
+    }
+  }
+
+  // Normalized Levenshtein similarity
+  static similarity(a: string, b: string): number {
+    if (!a || !b) return 0
+    const previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+
+    for (let i = 1; i <= a.length; i++) {
+      let diagonal = previous[0]
+      previous[0] = i
+      for (let j = 1; j <= b.length; j++) {
+        const temp = previous[j]
+        previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1))
+        diagonal = temp
+      }
+    }
+
+    return 1 - previous[b.length] / Math.max(a.length, b.length)
+  }
+}
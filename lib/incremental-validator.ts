@@ -0,0 +1,111 @@
+import { ValidationEngine, type CheckRun, type ValidationResult } from "./validation-engine"
+import {
+  ValidatorRegistry,
+  type FieldDependencies,
+  type ValidatorDefinition,
+  type ValidatorSettings,
+} from "./validator-registry"
+import { ID_FIELDS, type EntityType } from "./schemas"
+import type { Rule } from "./rule-types"
+
+export interface ValidationInput {
+  clients: any[]
+  workers: any[]
+  tasks: any[]
+  rules: Rule[]
+  settings: ValidatorSettings
+}
+
+// What changed since the previous run; "all" forces every check to run
+export type ValidationChanges =
+  | "all"
+  | {
+      entities: FieldDependencies
+      rules: boolean
+      settings: string[]
+    }
+
+const ENTITY_TYPES: EntityType[] = ["clients", "workers", "tasks"]
+
+export class IncrementalValidator {
+  private runs = new Map<string, { validator: ValidatorDefinition; run: CheckRun }>()
+  private previous: ValidationInput | null = null
+
+  // Re-runs only the checks that read something in `changes`, reusing the previous output of the rest
+  validate(input: ValidationInput, changes?: ValidationChanges): ValidationResult {
+    const effective = this.previous ? (changes ?? IncrementalValidator.diff(this.previous, input)) : "all"
+    const engine = new ValidationEngine(input.clients, input.workers, input.tasks, input.rules, input.settings)
+
+    const runs = ValidatorRegistry.list().map((validator) => {
+      // A check re-registered under the same id counts as new
+      const cached = this.runs.get(validator.id)
+      if (cached && cached.validator === validator && !IncrementalValidator.isAffected(validator, effective)) {
+        return cached.run
+      }
+
+      const run = engine.runCheck(validator)
+      this.runs.set(validator.id, { validator, run })
+      return run
+    })
+
+    this.previous = input
+    return ValidationEngine.summarize(runs)
+  }
+
+  reset() {
+    this.runs.clear()
+    this.previous = null
+  }
+
+  // Store records are replaced rather than mutated, so unchanged rows keep their identity and comparing
+  // references is enough to find the edited cells
+  static diff(previous: ValidationInput, next: ValidationInput): ValidationChanges {
+    const entities: FieldDependencies = {}
+
+    ENTITY_TYPES.forEach((entityType) => {
+      const before = previous[entityType]
+      const after = next[entityType]
+      if (before === after) return
+
+      if (before.length !== after.length) {
+        entities[entityType] = "*"
+        return
+      }
+
+      const fields = new Set<string>()
+      after.forEach((row, index) => {
+        const old = before[index]
+        if (row === old) return
+        Object.keys({ ...old, ...row }).forEach((field) => {
+          if (old?.[field] !== row?.[field]) fields.add(field)
+        })
+      })
+      // Issue ids and record keys are built from the primary key, so renaming a record touches every check
+      if (fields.has(ID_FIELDS[entityType])) entities[entityType] = "*"
+      else if (fields.size > 0) entities[entityType] = Array.from(fields)
+    })
+
+    const settingIds = Object.keys({ ...previous.settings, ...next.settings }).filter(
+      (id) => JSON.stringify(previous.settings[id]) !== JSON.stringify(next.settings[id]),
+    )
+
+    return { entities, rules: previous.rules !== next.rules, settings: settingIds }
+  }
+
+  static isAffected(validator: ValidatorDefinition, changes: ValidationChanges): boolean {
+    if (changes === "all") return true
+    if (changes.settings.includes(validator.id)) return true
+    if (changes.rules && (validator.readsRules || !validator.reads)) return true
+
+    return ENTITY_TYPES.some((entityType) => {
+      const changed = changes.entities[entityType]
+      if (!changed) return false
+      if (!validator.reads) return true
+
+      const reads = validator.reads[entityType]
+      if (!reads) return false
+      if (reads === "*" || changed === "*") return true
+      return changed.some((field) => reads.includes(field))
+    })
+  }
+}
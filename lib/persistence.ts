@@ -0,0 +1,218 @@
+import { SchemaNormalizer, type Client, type Worker, type Task } from "./schemas"
+import { createDefaultPrioritization, type PrioritizationConfig } from "./prioritization"
+import type { Rule } from "./rule-types"
+import type { RuleRevision } from "./rule-history"
+import type { ValidatorSettings } from "./validator-registry"
+import type { Suppression } from "./suppressions"
+
+export interface Workspace {
+  id: string
+  name: string
+  version: number
+  savedAt: Date
+  data: {
+    clients: Client[]
+    workers: Worker[]
+    tasks: Task[]
+  }
+  rules: Rule[]
+  ruleRevisions: Record<string, RuleRevision[]>
+  prioritization: PrioritizationConfig
+  validatorSettings: ValidatorSettings
+  suppressions: Suppression[]
+}
+
+export interface WorkspaceSummary {
+  id: string
+  name: string
+  savedAt: Date
+  counts: { clients: number; workers: number; tasks: number; rules: number }
+  // Set when the record can't be read (e.g. saved by a newer version); it's listed but can't be opened
+  error?: string
+}
+
+export const WORKSPACE_VERSION = 4
+
+const DB_NAME = "data-alchemist"
+const DB_VERSION = 1
+const WORKSPACE_STORE = "workspaces"
+const META_STORE = "meta"
+const LAST_ACTIVE_KEY = "lastActiveWorkspace"
+
+// Each entry upgrades a stored workspace from version `key` to `key + 1`
+const MIGRATIONS: Record<number, (workspace: any) => any> = {
+  // Version 0 is anything saved before versioning: fill in missing sections and normalize the records
+  0: (workspace) => ({
+    ...workspace,
+    name: workspace.name || "Untitled workspace",
+    savedAt: workspace.savedAt ? new Date(workspace.savedAt) : new Date(),
+    data: {
+      clients: SchemaNormalizer.normalizeRecords("clients", workspace.data?.clients || []),
+      workers: SchemaNormalizer.normalizeRecords("workers", workspace.data?.workers || []),
+      tasks: SchemaNormalizer.normalizeRecords("tasks", workspace.data?.tasks || []),
+    },
+    rules: workspace.rules || [],
+    prioritization: workspace.prioritization || createDefaultPrioritization(),
+    version: 1,
+  }),
+  // Version 2 adds per-workspace validator settings
+  1: (workspace) => ({ ...workspace, validatorSettings: {}, version: 2 }),
+  // Version 3 adds acknowledged and suppressed validation issues
+  2: (workspace) => ({ ...workspace, suppressions: [], version: 3 }),
+  // Version 4 adds the revision history of edited rules
+  3: (workspace) => ({ ...workspace, ruleRevisions: {}, version: 4 }),
+}
+
+export class WorkspacePersistence {
+  private static dbPromise: Promise<IDBDatabase> | null = null
+
+  static isAvailable(): boolean {
+    return typeof window !== "undefined" && "indexedDB" in window
+  }
+
+  static createWorkspace(name: string): Workspace {
+    return {
+      id: `ws_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`,
+      name,
+      version: WORKSPACE_VERSION,
+      savedAt: new Date(),
+      data: { clients: [], workers: [], tasks: [] },
+      rules: [],
+      ruleRevisions: {},
+      prioritization: createDefaultPrioritization(),
+      validatorSettings: {},
+      suppressions: [],
+    }
+  }
+
+  static migrate(workspace: any): Workspace {
+    let migrated = workspace
+    let version = Number(workspace?.version) || 0
+
+    if (version > WORKSPACE_VERSION) {
+      throw new Error(`Workspace was saved by a newer version (v${version}) of the app`)
+    }
+
+    while (version < WORKSPACE_VERSION) {
+      const migration = MIGRATIONS[version]
+      if (!migration) throw new Error(`No migration from workspace version ${version}`)
+      migrated = migration(migrated)
+      version = migrated.version
+    }
+
+    return migrated
+  }
+
+  static async listWorkspaces(): Promise<WorkspaceSummary[]> {
+    const workspaces = await this.request<any[]>(WORKSPACE_STORE, "readonly", (store) => store.getAll())
+
+    // One unreadable record is flagged rather than failing the whole list
+    return workspaces
+      .filter((raw) => raw && raw.id)
+      .map((raw): WorkspaceSummary => {
+        try {
+          const workspace = this.migrate(raw)
+          return {
+            id: workspace.id,
+            name: workspace.name,
+            savedAt: workspace.savedAt,
+            counts: {
+              clients: workspace.data.clients.length,
+              workers: workspace.data.workers.length,
+              tasks: workspace.data.tasks.length,
+              rules: workspace.rules.length,
+            },
+          }
+        } catch (error) {
+          return {
+            id: raw.id,
+            name: raw.name || "Untitled workspace",
+            savedAt: raw.savedAt instanceof Date ? raw.savedAt : new Date(0),
+            counts: { clients: 0, workers: 0, tasks: 0, rules: 0 },
+            error: error instanceof Error ? error.message : "Workspace could not be read",
+          }
+        }
+      })
+      .sort((a, b) => b.savedAt.getTime() - a.savedAt.getTime())
+  }
+
+  static async loadWorkspace(id: string): Promise<Workspace | null> {
+    const raw = await this.request<any>(WORKSPACE_STORE, "readonly", (store) => store.get(id))
+    return raw ? this.migrate(raw) : null
+  }
+
+  static async saveWorkspace(workspace: Workspace): Promise<void> {
+    await this.request(WORKSPACE_STORE, "readwrite", (store) =>
+      store.put({ ...workspace, version: WORKSPACE_VERSION, savedAt: new Date() }),
+    )
+    await this.setLastActiveId(workspace.id)
+  }
+
+  static async deleteWorkspace(id: string): Promise<void> {
+    await this.request(WORKSPACE_STORE, "readwrite", (store) => store.delete(id))
+    if ((await this.getLastActiveId()) === id) {
+      await this.request(META_STORE, "readwrite", (store) => store.delete(LAST_ACTIVE_KEY))
+    }
+  }
+
+  static async getLastActiveId(): Promise<string | null> {
+    const entry = await this.request<{ key: string; value: string } | undefined>(META_STORE, "readonly", (store) =>
+      store.get(LAST_ACTIVE_KEY),
+    )
+    return entry?.value ?? null
+  }
+
+  static async setLastActiveId(id: string): Promise<void> {
+    await this.request(META_STORE, "readwrite", (store) => store.put({ key: LAST_ACTIVE_KEY, value: id }))
+  }
+
+  private static openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (!this.isAvailable()) {
+          reject(new Error("IndexedDB is not available in this browser"))
+          return
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+        request.onupgradeneeded = () => {
+          const db = request.result
+          if (!db.objectStoreNames.contains(WORKSPACE_STORE)) {
+            db.createObjectStore(WORKSPACE_STORE, { keyPath: "id" })
+          }
+          if (!db.objectStoreNames.contains(META_STORE)) {
+            db.createObjectStore(META_STORE, { keyPath: "key" })
+          }
+        }
+
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(new Error(`Failed to open workspace database: ${request.error?.message}`))
+      })
+
+      // Allow a retry after a failed open instead of caching the rejection
+      this.dbPromise.catch(() => {
+        this.dbPromise = null
+      })
+    }
+
+    return this.dbPromise
+  }
+
+  private static async request<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest,
+  ): Promise<T> {
+    const db = await this.openDatabase()
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode)
+      const request = operation(transaction.objectStore(storeName))
+
+      transaction.oncomplete = () => resolve(request.result as T)
+      transaction.onerror = () => reject(new Error(`Workspace storage error: ${transaction.error?.message}`))
+      transaction.onabort = () => reject(new Error(`Workspace storage aborted: ${transaction.error?.message}`))
+    })
+  }
+}
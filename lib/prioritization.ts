@@ -0,0 +1,166 @@
+export type PriorityCriterion = "priorityFulfilment" | "requestFulfilment" | "fairness" | "workloadBalance"
+
+export type PrioritizationMode = "sliders" | "ranking" | "pairwise"
+
+export interface PrioritizationConfig {
+  mode: PrioritizationMode
+  weights: Record<PriorityCriterion, number>
+  ranking: PriorityCriterion[]
+  // Saaty-scale judgements keyed "a:b" (a is x times as important as b)
+  comparisons: Record<string, number>
+  preset?: string
+  updatedAt: Date
+}
+
+export interface PrioritizationPreset {
+  id: string
+  name: string
+  description: string
+  weights: Record<PriorityCriterion, number>
+}
+
+export const PRIORITY_CRITERIA: { id: PriorityCriterion; label: string; description: string }[] = [
+  {
+    id: "priorityFulfilment",
+    label: "Priority Fulfilment",
+    description: "Serve high PriorityLevel clients first",
+  },
+  {
+    id: "requestFulfilment",
+    label: "Request Fulfilment",
+    description: "Maximize the number of fully satisfied client requests",
+  },
+  {
+    id: "fairness",
+    label: "Fairness",
+    description: "Spread allocations evenly across clients",
+  },
+  {
+    id: "workloadBalance",
+    label: "Workload Balance",
+    description: "Keep worker load even rather than giving each task to the closest-skilled worker",
+  },
+]
+
+export const PRIORITIZATION_PRESETS: PrioritizationPreset[] = [
+  {
+    id: "maximize-fulfilment",
+    name: "Maximize Fulfilment",
+    description: "Get as many requested tasks done as possible",
+    weights: { priorityFulfilment: 0.2, requestFulfilment: 0.5, fairness: 0.1, workloadBalance: 0.2 },
+  },
+  {
+    id: "fair-distribution",
+    name: "Fair Distribution",
+    description: "Every client gets a share and workers are evenly loaded",
+    weights: { priorityFulfilment: 0.1, requestFulfilment: 0.1, fairness: 0.45, workloadBalance: 0.35 },
+  },
+  {
+    id: "priority-first",
+    name: "Priority First",
+    description: "Strictly favour high priority clients",
+    weights: { priorityFulfilment: 0.6, requestFulfilment: 0.2, fairness: 0.05, workloadBalance: 0.15 },
+  },
+  {
+    id: "minimize-workload",
+    name: "Minimize Workload",
+    description: "Protect workers from overload above all else",
+    weights: { priorityFulfilment: 0.15, requestFulfilment: 0.15, fairness: 0.1, workloadBalance: 0.6 },
+  },
+]
+
+// Saaty random consistency index, indexed by matrix size
+const RANDOM_INDEX = [0, 0, 0, 0.58, 0.9, 1.12, 1.24, 1.32, 1.41, 1.45]
+
+export function createDefaultPrioritization(): PrioritizationConfig {
+  const ids = PRIORITY_CRITERIA.map((criterion) => criterion.id)
+  return {
+    mode: "sliders",
+    weights: normalizeWeights(
+      ids.reduce((acc, id) => ({ ...acc, [id]: 1 }), {} as Record<PriorityCriterion, number>),
+    ),
+    ranking: ids,
+    comparisons: {},
+    updatedAt: new Date(),
+  }
+}
+
+export function normalizeWeights(weights: Record<PriorityCriterion, number>): Record<PriorityCriterion, number> {
+  const total = PRIORITY_CRITERIA.reduce((sum, criterion) => sum + Math.max(0, weights[criterion.id] || 0), 0)
+
+  return PRIORITY_CRITERIA.reduce(
+    (acc, criterion) => {
+      acc[criterion.id] =
+        total > 0 ? Math.max(0, weights[criterion.id] || 0) / total : 1 / PRIORITY_CRITERIA.length
+      return acc
+    },
+    {} as Record<PriorityCriterion, number>,
+  )
+}
+
+// Rank-order centroid weights: first place gets the most, each later rank progressively less
+export function weightsFromRanking(ranking: PriorityCriterion[]): Record<PriorityCriterion, number> {
+  const n = ranking.length
+  const weights = {} as Record<PriorityCriterion, number>
+
+  ranking.forEach((criterion, index) => {
+    let sum = 0
+    for (let k = index + 1; k <= n; k++) {
+      sum += 1 / k
+    }
+    weights[criterion] = sum / n
+  })
+
+  return normalizeWeights(weights)
+}
+
+export function comparisonKey(a: PriorityCriterion, b: PriorityCriterion): string {
+  return `${a}:${b}`
+}
+
+// Analytic Hierarchy Process: principal eigenvector of the pairwise matrix plus Saaty's consistency ratio
+export function computeAHPWeights(comparisons: Record<string, number>): {
+  weights: Record<PriorityCriterion, number>
+  consistencyRatio: number
+} {
+  const ids = PRIORITY_CRITERIA.map((criterion) => criterion.id)
+  const n = ids.length
+
+  const matrix = ids.map((a, i) =>
+    ids.map((b, j) => {
+      if (i === j) return 1
+      const direct = comparisons[comparisonKey(a, b)]
+      if (direct && direct > 0) return direct
+      const inverse = comparisons[comparisonKey(b, a)]
+      return inverse && inverse > 0 ? 1 / inverse : 1
+    }),
+  )
+
+  // Power iteration
+  let vector = ids.map(() => 1 / n)
+  for (let iteration = 0; iteration < 50; iteration++) {
+    const next = matrix.map((row) => row.reduce((sum, value, j) => sum + value * vector[j], 0))
+    const total = next.reduce((sum, value) => sum + value, 0)
+    vector = next.map((value) => value / total)
+  }
+
+  const lambdaMax =
+    matrix
+      .map((row, i) => row.reduce((sum, value, j) => sum + value * vector[j], 0) / vector[i])
+      .reduce((sum, value) => sum + value, 0) / n
+  const consistencyIndex = n > 1 ? (lambdaMax - n) / (n - 1) : 0
+  const randomIndex = RANDOM_INDEX[n] || 1.45
+
+  const weights = ids.reduce(
+    (acc, id, i) => {
+      acc[id] = vector[i]
+      return acc
+    },
+    {} as Record<PriorityCriterion, number>,
+  )
+
+  return {
+    weights: normalizeWeights(weights),
+    consistencyRatio: randomIndex > 0 ? Math.max(0, consistencyIndex / randomIndex) : 0,
+  }
+}
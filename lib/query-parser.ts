@@ -1,3 +1,5 @@
+import { toList } from "./schemas"
+
 export interface QueryFilter {
   field: string
   operator: "equals" | "contains" | "greater" | "less" | "greaterEqual" | "lessEqual" | "in" | "notIn"
@@ -255,10 +257,7 @@ export class QueryParser {
     // Add skill-based suggestions
     const allSkills = new Set<string>()
     workers.forEach((worker) => {
-      if (worker.Skills) {
-        const skills = typeof worker.Skills === "string" ? worker.Skills.split(",") : worker.Skills
-        skills.forEach((skill: string) => allSkills.add(skill.trim()))
-      }
+      toList(worker.Skills).forEach((skill) => allSkills.add(skill))
     })
 
     allSkills.forEach((skill) => {
@@ -0,0 +1,270 @@
+import { getRecordKeys, toList, toText, ID_FIELDS, type EntityType } from "./schemas"
+import type { Rule } from "./rule-types"
+
+export type GraphNodeKind = "client" | "task" | "worker" | "skill" | "clientGroup" | "workerGroup" | "rule"
+
+export type GraphRelation = "requests" | "requires" | "hasSkill" | "memberOf" | "constrains"
+
+export interface GraphNode {
+  // `${kind}:${key}`
+  id: string
+  kind: GraphNodeKind
+  key: string
+  label: string
+  // Set for clients, workers and tasks so the view can jump to the row
+  entityType?: EntityType
+  recordId?: string
+  // Referenced somewhere but not present in the data (or rules)
+  missing: boolean
+}
+
+export interface GraphEdge {
+  from: string
+  to: string
+  relation: GraphRelation
+  // Rule behind a "constrains" edge
+  ruleId?: string
+}
+
+export type OrphanKind =
+  "unrequested-task" | "idle-worker" | "unstaffed-skill" | "rule-only-group" | "missing-task" | "missing-rule"
+
+export interface Orphan {
+  kind: OrphanKind
+  node: GraphNode
+  message: string
+}
+
+export const ORPHAN_KINDS: Record<OrphanKind, string> = {
+  "unrequested-task": "Tasks no client requests",
+  "idle-worker": "Workers whose skills no task needs",
+  "unstaffed-skill": "Skills no worker has",
+  "rule-only-group": "Groups referenced only by rules",
+  "missing-task": "Task IDs referenced but not defined",
+  "missing-rule": "Rules referenced but not defined",
+}
+
+const ENTITY_KINDS: Record<EntityType, GraphNodeKind> = {
+  clients: "client",
+  workers: "worker",
+  tasks: "task",
+}
+
+const NAME_FIELDS: Record<EntityType, string> = {
+  clients: "ClientName",
+  workers: "WorkerName",
+  tasks: "TaskName",
+}
+
+// Every relationship between records, skills, groups and rules, built once so referential checks and the
+// relationship view agree on what points where
+export class RelationshipGraph {
+  private nodes = new Map<string, GraphNode>()
+  private edges: GraphEdge[] = []
+  private outgoing = new Map<string, GraphEdge[]>()
+  private incoming = new Map<string, GraphEdge[]>()
+  private hasData: Record<EntityType, boolean>
+
+  constructor(clients: any[], workers: any[], tasks: any[], rules: Rule[] = []) {
+    const data: Record<EntityType, any[]> = { clients, workers, tasks }
+    this.hasData = { clients: clients.length > 0, workers: workers.length > 0, tasks: tasks.length > 0 }
+
+    // 1. Records; rows without an id still get a node under their record key
+    const rowNodes = {} as Record<EntityType, string[]>
+    const entityTypes = Object.keys(data) as EntityType[]
+    entityTypes.forEach((entityType) => {
+      const keys = getRecordKeys(entityType, data[entityType])
+      rowNodes[entityType] = data[entityType].map((row, index) => {
+        const key = String(toText(row[ID_FIELDS[entityType]]) ?? keys[index])
+        const name = toText(row[NAME_FIELDS[entityType]])
+        return this.addNode(ENTITY_KINDS[entityType], key, name ? `${key} · ${name}` : key, {
+          entityType,
+          recordId: keys[index],
+        }).id
+      })
+    })
+    rules.forEach((rule) => this.addNode("rule", rule.id, rule.name))
+
+    // 2. Record relationships
+    clients.forEach((client, index) => {
+      const from = rowNodes.clients[index]
+      toList(client.RequestedTaskIDs).forEach((taskId) =>
+        this.addEdge(from, this.reference("task", taskId), "requests"),
+      )
+      const group = toText(client.GroupTag)
+      if (group) this.addEdge(from, this.reference("clientGroup", group), "memberOf")
+    })
+
+    tasks.forEach((task, index) => {
+      const from = rowNodes.tasks[index]
+      toList(task.RequiredSkills).forEach((skill) => this.addEdge(from, this.reference("skill", skill), "requires"))
+    })
+
+    workers.forEach((worker, index) => {
+      const from = rowNodes.workers[index]
+      toList(worker.Skills).forEach((skill) => this.addEdge(from, this.reference("skill", skill), "hasSkill"))
+      const group = toText(worker.WorkerGroup)
+      if (group) this.addEdge(from, this.reference("workerGroup", group), "memberOf")
+    })
+
+    // 3. What each rule constrains
+    rules.forEach((rule) => {
+      const from = this.nodeId("rule", rule.id)
+      const constrain = (kind: GraphNodeKind, key: string) =>
+        this.addEdge(from, this.reference(kind, key), "constrains", rule.id)
+
+      switch (rule.type) {
+        case "coRun":
+          rule.tasks.forEach((taskId) => constrain("task", taskId))
+          break
+        case "phaseWindow":
+          constrain("task", rule.taskId)
+          break
+        case "loadLimit":
+          constrain("workerGroup", rule.workerGroup)
+          break
+        case "slotRestriction":
+          constrain(rule.targetType === "worker" ? "workerGroup" : "clientGroup", rule.groupName)
+          break
+        case "exclusion":
+          constrain("worker", rule.workerId)
+          constrain(rule.targetType, rule.targetId)
+          break
+        case "minQualification":
+          constrain("task", rule.taskId)
+          break
+        case "affinity":
+          constrain("client", rule.clientId)
+          constrain("workerGroup", rule.workerGroup)
+          break
+        case "precedence": {
+          const referenced = [...rule.globalRules, ...rule.specificRules]
+          referenced.forEach((ruleId) => constrain("rule", ruleId))
+          break
+        }
+      }
+    })
+  }
+
+  getNode(id: string): GraphNode | undefined {
+    return this.nodes.get(id)
+  }
+
+  getNodes(kind?: GraphNodeKind): GraphNode[] {
+    const nodes = Array.from(this.nodes.values())
+    return kind ? nodes.filter((node) => node.kind === kind) : nodes
+  }
+
+  getEdges(): GraphEdge[] {
+    return this.edges
+  }
+
+  getOutgoing(id: string): GraphEdge[] {
+    return this.outgoing.get(id) || []
+  }
+
+  getIncoming(id: string): GraphEdge[] {
+    return this.incoming.get(id) || []
+  }
+
+  findNode(kind: GraphNodeKind, key: string): GraphNode | undefined {
+    return this.nodes.get(this.nodeId(kind, key))
+  }
+
+  // Orphans in both directions: records nothing points at, and references that point at nothing
+  findOrphans(): Orphan[] {
+    const orphans: Orphan[] = []
+    const neededSkills = new Set(
+      this.edges.filter((edge) => edge.relation === "requires").map((edge) => this.nodes.get(edge.to)!.key),
+    )
+
+    this.nodes.forEach((node) => {
+      const incoming = this.getIncoming(node.id)
+
+      switch (node.kind) {
+        case "task":
+          if (node.missing) {
+            orphans.push({ kind: "missing-task", node, message: `${node.key} is referenced but not in the tasks data` })
+          } else if (this.hasData.clients && !incoming.some((edge) => edge.relation === "requests")) {
+            orphans.push({ kind: "unrequested-task", node, message: `No client requests ${node.key}` })
+          }
+          break
+        case "worker": {
+          // Workers named only by rules are reported by the rule-references check
+          if (node.missing || !this.hasData.tasks) break
+          const skills = this.getOutgoing(node.id).filter((edge) => edge.relation === "hasSkill")
+          if (!skills.some((edge) => neededSkills.has(this.nodes.get(edge.to)!.key))) {
+            orphans.push({
+              kind: "idle-worker",
+              node,
+              message: skills.length === 0 ? `${node.key} has no skills` : `No task needs any of ${node.key}'s skills`,
+            })
+          }
+          break
+        }
+        case "skill":
+          if (this.hasData.workers && !incoming.some((edge) => edge.relation === "hasSkill")) {
+            orphans.push({ kind: "unstaffed-skill", node, message: `No worker has the skill "${node.key}"` })
+          }
+          break
+        case "clientGroup":
+        case "workerGroup":
+          if (!incoming.some((edge) => edge.relation === "memberOf")) {
+            const entity = node.kind === "clientGroup" ? "client" : "worker"
+            orphans.push({
+              kind: "rule-only-group",
+              node,
+              message: `${entity === "client" ? "Client" : "Worker"} group "${node.key}" is used by rules but has no ${entity}s`,
+            })
+          }
+          break
+        case "rule":
+          if (node.missing) {
+            orphans.push({ kind: "missing-rule", node, message: `Rule ${node.key} is referenced but doesn't exist` })
+          }
+          break
+      }
+    })
+
+    return orphans
+  }
+
+  private nodeId(kind: GraphNodeKind, key: any): string {
+    return `${kind}:${String(key ?? "")}`
+  }
+
+  private addNode(kind: GraphNodeKind, key: string, label: string, extra: Partial<GraphNode> = {}): GraphNode {
+    const id = this.nodeId(kind, key)
+    // Duplicate ids share a node; the duplicate-ids check reports them
+    const existing = this.nodes.get(id)
+    if (existing) return existing
+
+    const node: GraphNode = { id, kind, key, label, missing: false, ...extra }
+    this.nodes.set(id, node)
+    return node
+  }
+
+  // Points at an existing node, or creates a placeholder for something referenced but never defined.
+  // Skills and groups only exist through references, so they're never "missing".
+  private reference(kind: GraphNodeKind, key: string): string {
+    const id = this.nodeId(kind, key)
+    if (!this.nodes.has(id)) {
+      const missing = kind === "task" || kind === "rule" || kind === "client" || kind === "worker"
+      this.nodes.set(id, { id, kind, key, label: key, missing })
+    }
+    return id
+  }
+
+  private addEdge(from: string, to: string, relation: GraphRelation, ruleId?: string) {
+    const edge: GraphEdge = { from, to, relation, ruleId }
+    this.edges.push(edge)
+
+    const outgoing = this.outgoing.get(from)
+    if (outgoing) outgoing.push(edge)
+    else this.outgoing.set(from, [edge])
+
+    const incoming = this.incoming.get(to)
+    if (incoming) incoming.push(edge)
+    else this.incoming.set(to, [edge])
+  }
+}
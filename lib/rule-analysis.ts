@@ -0,0 +1,310 @@
+import { toList, toText } from "./schemas"
+import type { Rule, CoRunRule, PhaseWindowRule, LoadLimitRule } from "./rule-types"
+
+export type RuleFindingKind = "corun-cycle" | "corun-contradiction" | "empty-phase-window" | "infeasible-load-limit"
+
+export interface RuleFinding {
+  // Stable across runs: built from the kind and the rules involved
+  id: string
+  kind: RuleFindingKind
+  severity: "high" | "medium" | "low"
+  message: string
+  // Every rule needed to explain the finding, in the order they're mentioned
+  ruleIds: string[]
+  taskIds: string[]
+}
+
+export interface CoRunGroup {
+  tasks: string[]
+  // Must-run-together rules that join the group
+  ruleIds: string[]
+}
+
+interface Link {
+  to: string
+  ruleId: string
+}
+
+const unique = <T>(values: T[]): T[] => Array.from(new Set(values))
+
+// Cross-rule analysis over every enabled rule at once. Pairwise checks miss contradictions that only
+// appear through a chain (A+B, B+C, then C kept apart from A), so rules are turned into a task graph
+// and each finding carries the exact rules that produce it.
+export class RuleAnalyzer {
+  private rules: Rule[]
+  private names = new Map<string, string>()
+  // Must-run-together links, both directions
+  private together = new Map<string, Link[]>()
+  private groups: CoRunGroup[] = []
+  private groupOf = new Map<string, CoRunGroup>()
+  private tasks: any[]
+  private workers: any[]
+
+  // Tasks and workers are only needed for load-limit feasibility; without them that analysis is skipped
+  constructor(rules: Rule[], tasks: any[] = [], workers: any[] = []) {
+    this.tasks = tasks
+    this.workers = workers
+    this.rules = rules.filter((rule) => rule.enabled)
+    this.rules.forEach((rule) => this.names.set(rule.id, rule.name))
+
+    // 1. Link consecutive tasks of each must-run-together rule
+    this.getRules<CoRunRule>("coRun")
+      .filter((rule) => rule.mustRunTogether)
+      .forEach((rule) => {
+        rule.tasks.slice(1).forEach((to, i) => {
+          const from = rule.tasks[i]
+          if (from === to) return
+          this.link(from, to, rule.id)
+          this.link(to, from, rule.id)
+        })
+      })
+
+    // 2. Connected tasks form one co-run group
+    Array.from(this.together.keys()).forEach((taskId) => {
+      if (this.groupOf.has(taskId)) return
+
+      const group: CoRunGroup = { tasks: [], ruleIds: [] }
+      const queue = [taskId]
+      this.groupOf.set(taskId, group)
+      while (queue.length > 0) {
+        const current = queue.shift()!
+        group.tasks.push(current)
+        const links = this.together.get(current) || []
+        links.forEach(({ to, ruleId }) => {
+          if (!group.ruleIds.includes(ruleId)) group.ruleIds.push(ruleId)
+          if (this.groupOf.has(to)) return
+          this.groupOf.set(to, group)
+          queue.push(to)
+        })
+      }
+      this.groups.push(group)
+    })
+  }
+
+  analyze(): RuleFinding[] {
+    return [
+      ...this.findCycles(),
+      ...this.findContradictions(),
+      ...this.findEmptyPhaseWindows(),
+      ...this.findInfeasibleLoadLimits(),
+    ]
+  }
+
+  getCoRunGroups(): CoRunGroup[] {
+    return this.groups
+  }
+
+  // Running together is symmetric, so must-run-together rules are merged into groups with union-find. A rule
+  // whose tasks already share a group closes a cycle: it adds nothing, so it's a note rather than an error.
+  // "Keep apart" rules don't join anything, so they're left to findContradictions.
+  findCycles(): RuleFinding[] {
+    const findings: RuleFinding[] = []
+    const parent = new Map<string, string>()
+    const find = (taskId: string): string => {
+      const next = parent.get(taskId) ?? taskId
+      if (next === taskId) return taskId
+      const root = find(next)
+      parent.set(taskId, root)
+      return root
+    }
+
+    this.getRules<CoRunRule>("coRun")
+      .filter((rule) => rule.mustRunTogether)
+      .forEach((rule) => {
+        const tasks = unique(rule.tasks)
+        const joined = tasks.slice(1).find((taskId) => find(taskId) === find(tasks[0]))
+        tasks.slice(1).forEach((taskId) => parent.set(find(taskId), find(tasks[0])))
+        if (!joined) return
+
+        const chain = this.findChain(tasks[0], joined, rule.id) || []
+        const ruleIds = [rule.id, ...chain]
+        findings.push({
+          id: `corun-cycle-${ruleIds.join("-")}`,
+          kind: "corun-cycle",
+          severity: "low",
+          message: `Rule "${rule.name}" is redundant: ${tasks[0]} and ${joined} already run together through ${this.describe(chain)}`,
+          ruleIds,
+          taskIds: [tasks[0], joined],
+        })
+      })
+
+    return findings
+  }
+
+  // Tasks a "keep apart" rule separates, but that other rules force together, directly or through a chain
+  findContradictions(): RuleFinding[] {
+    const findings: RuleFinding[] = []
+
+    this.getRules<CoRunRule>("coRun")
+      .filter((rule) => !rule.mustRunTogether)
+      .forEach((rule) => {
+        const pairs: string[] = []
+        const separated: string[] = []
+        const ruleIds: string[] = []
+        const tasks = unique(rule.tasks)
+
+        tasks.forEach((a, i) => {
+          tasks.slice(i + 1).forEach((b) => {
+            const chain = this.findChain(a, b)
+            if (!chain) return
+            pairs.push(`${a} and ${b}`)
+            separated.push(a, b)
+            chain.forEach((ruleId) => {
+              if (!ruleIds.includes(ruleId)) ruleIds.push(ruleId)
+            })
+          })
+        })
+        if (pairs.length === 0) return
+
+        findings.push({
+          id: `corun-contradiction-${rule.id}`,
+          kind: "corun-contradiction",
+          severity: "high",
+          message: `Rule "${rule.name}" keeps ${pairs.join(", ")} apart, but ${this.describe(ruleIds)} ${ruleIds.length > 1 ? "make" : "makes"} them run together`,
+          ruleIds: [rule.id, ...ruleIds],
+          taskIds: unique(separated),
+        })
+      })
+
+    return findings
+  }
+
+  // Tasks forced into the same phase must all fit inside each other's phase windows
+  findEmptyPhaseWindows(): RuleFinding[] {
+    const findings: RuleFinding[] = []
+    const windows = this.getRules<PhaseWindowRule>("phaseWindow")
+
+    this.groups.forEach((group) => {
+      const applying = windows.filter((rule) => group.tasks.includes(rule.taskId))
+      // A window that's empty on its own isn't caused by co-running; the conflicting-rules check covers it
+      if (unique(applying.map((rule) => rule.taskId)).length < 2) return
+
+      const allowed = applying.reduce<number[]>(
+        (acc, rule) => acc.filter((phase) => rule.allowedPhases.includes(phase)),
+        applying[0].allowedPhases,
+      )
+      if (allowed.length > 0) return
+
+      const ruleIds = unique([...this.connecting(group, applying), ...applying.map((rule) => rule.id)])
+      findings.push({
+        id: `empty-phase-window-${ruleIds.join("-")}`,
+        kind: "empty-phase-window",
+        severity: applying.every((rule) => rule.strictMode) ? "high" : "medium",
+        message: `Co-run tasks ${unique(applying.map((rule) => rule.taskId)).join(", ")} have no phase in common: ${applying
+          .map((rule) => `"${rule.name}" allows ${rule.allowedPhases.join(", ")}`)
+          .join("; ")}`,
+        ruleIds,
+        taskIds: group.tasks,
+      })
+    })
+
+    return findings
+  }
+
+  // A co-run group needs one worker slot per task in the same phase. When every worker who could take
+  // those tasks sits in load-limited groups, the limits cap how many can run at once.
+  findInfeasibleLoadLimits(): RuleFinding[] {
+    const findings: RuleFinding[] = []
+    const limits = this.getRules<LoadLimitRule>("loadLimit")
+    if (limits.length === 0 || this.tasks.length === 0 || this.workers.length === 0) return findings
+
+    const windows = this.getRules<PhaseWindowRule>("phaseWindow")
+
+    this.groups.forEach((group) => {
+      const qualified = this.workers.filter((worker) =>
+        group.tasks.some((taskId) => {
+          const task = this.tasks.find((t) => String(t.TaskID) === taskId)
+          const skills = toList(worker.Skills)
+          return !!task && toList(task.RequiredSkills).every((skill) => skills.includes(skill))
+        }),
+      )
+      if (qualified.length === 0) return // skill-coverage reports tasks nobody can do
+
+      // A phase-limited rule only binds when the group can't run outside its phases
+      const windowPhases: number[] = []
+      windows
+        .filter((rule) => group.tasks.includes(rule.taskId))
+        .forEach((rule) => windowPhases.push(...rule.allowedPhases))
+      const binding = (rule: LoadLimitRule) =>
+        !rule.phases ||
+        rule.phases.length === 0 ||
+        (windowPhases.length > 0 && windowPhases.every((phase) => rule.phases!.includes(phase)))
+
+      const workerGroups = unique(qualified.map((worker) => String(toText(worker.WorkerGroup) ?? "")))
+      const applying = workerGroups.map((name) => limits.find((rule) => rule.workerGroup === name && binding(rule)))
+      if (applying.some((rule) => !rule)) return // Someone unlimited can pick up the slack
+
+      const rules = unique(applying as LoadLimitRule[])
+      const capacity = rules.reduce((sum, rule) => sum + rule.maxSlotsPerPhase, 0)
+      if (capacity >= group.tasks.length) return
+
+      const ruleIds = unique([...group.ruleIds, ...rules.map((rule) => rule.id)])
+      findings.push({
+        id: `infeasible-load-limit-${ruleIds.join("-")}`,
+        kind: "infeasible-load-limit",
+        severity: "high",
+        message: `Co-run tasks ${group.tasks.join(", ")} need ${group.tasks.length} slots in one phase, but ${this.describe(
+          rules.map((rule) => rule.id),
+        )} ${rules.length > 1 ? "allow" : "allows"} at most ${capacity} for the only qualified workers`,
+        ruleIds,
+        taskIds: group.tasks,
+      })
+    })
+
+    return findings
+  }
+
+  private getRules<T extends Rule>(type: T["type"]): T[] {
+    return this.rules.filter((rule): rule is T => rule.type === type)
+  }
+
+  private link(from: string, to: string, ruleId: string) {
+    const links = this.together.get(from)
+    if (links) links.push({ to, ruleId })
+    else this.together.set(from, [{ to, ruleId }])
+  }
+
+  // Rules along the shortest must-run-together path between two tasks, or null if they aren't joined.
+  // Links from the excluded rule are skipped, to find how other rules join the tasks.
+  private findChain(from: string, to: string, excludeRuleId?: string): string[] | null {
+    if (from === to || !this.groupOf.has(from) || this.groupOf.get(from) !== this.groupOf.get(to)) return null
+
+    const via = new Map<string, { previous: string; ruleId: string }>()
+    const queue = [from]
+    while (queue.length > 0 && !via.has(to)) {
+      const current = queue.shift()!
+      const links = this.together.get(current) || []
+      links.forEach((link) => {
+        if (link.ruleId === excludeRuleId || link.to === from || via.has(link.to)) return
+        via.set(link.to, { previous: current, ruleId: link.ruleId })
+        queue.push(link.to)
+      })
+    }
+
+    if (!via.has(to)) return null
+    const chain: string[] = []
+    for (let step = to; step !== from; step = via.get(step)!.previous) {
+      const ruleId = via.get(step)!.ruleId
+      if (!chain.includes(ruleId)) chain.unshift(ruleId)
+    }
+    return chain
+  }
+
+  // Co-run rules that join the tasks the given rules apply to
+  private connecting(group: CoRunGroup, rules: PhaseWindowRule[]): string[] {
+    const tasks = unique(rules.map((rule) => rule.taskId))
+    const ruleIds: string[] = []
+    tasks.slice(1).forEach((taskId) => {
+      const chain = this.findChain(tasks[0], taskId) || group.ruleIds
+      chain.forEach((ruleId) => {
+        if (!ruleIds.includes(ruleId)) ruleIds.push(ruleId)
+      })
+    })
+    return ruleIds
+  }
+
+  private describe(ruleIds: string[]): string {
+    const names = ruleIds.map((id) => `"${this.names.get(id) ?? id}"`)
+    return names.length > 1 ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}` : names.join("")
+  }
+}
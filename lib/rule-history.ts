@@ -0,0 +1,67 @@
+import type { Rule } from "./rule-types"
+
+export type RevisionSource = "original" | "edit" | "revert"
+
+export interface RuleRevision {
+  id: string
+  ruleId: string
+  // The whole rule as it was saved; rules are immutable so this shares structure with the store
+  rule: Rule
+  source: RevisionSource
+  savedAt: Date
+  // Set on reverts: the revision that was restored
+  revertedFrom?: string
+}
+
+export interface RuleFieldChange {
+  field: string
+  before: any
+  after: any
+}
+
+export const MAX_REVISIONS = 20
+
+// Bookkeeping fields change on every save, so they never count as a difference
+const IGNORED_FIELDS = ["id", "createdAt", "updatedAt"]
+
+export class RuleHistory {
+  static createRevision(rule: Rule, source: RevisionSource, revertedFrom?: string): RuleRevision {
+    return {
+      id: `rev_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`,
+      ruleId: rule.id,
+      rule,
+      source,
+      savedAt: rule.updatedAt,
+      revertedFrom,
+    }
+  }
+
+  // Appends a revision, dropping the oldest ones past MAX_REVISIONS but always keeping the original
+  static append(revisions: RuleRevision[], revision: RuleRevision): RuleRevision[] {
+    const next = [...revisions, revision]
+    if (next.length <= MAX_REVISIONS) return next
+    return [next[0], ...next.slice(next.length - MAX_REVISIONS + 1)]
+  }
+
+  // What reverting to a revision saves. Enabled and priority are changed from the rule list without a
+  // revision (toggle, move), so a revert keeps their live values rather than silently undoing them.
+  static restore(revision: RuleRevision, current: Rule): Rule {
+    return { ...revision.rule, id: current.id, enabled: current.enabled, priority: current.priority } as Rule
+  }
+
+  static diff(before: Rule, after: Rule): RuleFieldChange[] {
+    const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).filter(
+      (field) => !IGNORED_FIELDS.includes(field),
+    )
+
+    return fields
+      .filter((field) => !this.isEqual((before as any)[field], (after as any)[field]))
+      .map((field) => ({ field, before: (before as any)[field], after: (after as any)[field] }))
+  }
+
+  private static isEqual(a: any, b: any): boolean {
+    const empty = (value: any) => value === undefined || value === null || value === ""
+    if (empty(a) && empty(b)) return true
+    return JSON.stringify(a) === JSON.stringify(b)
+  }
+}
@@ -0,0 +1,187 @@
+import type { Rule, PrecedenceRule } from "./rule-types"
+
+export type RuleStatus = "effective" | "shadowed" | "disabled"
+
+export interface RuleTarget {
+  // Rules of the same type with the same key compete; the key includes the type
+  key: string
+  label: string
+}
+
+export interface RuleResolution {
+  rule: Rule
+  status: RuleStatus
+  target: RuleTarget | null
+  // Shadowed rules: the rule that wins over this one, and why
+  shadowedBy?: string
+  reason?: string
+}
+
+export interface ContestedTarget {
+  target: RuleTarget
+  // Every rule still in effect for the target, winner first; several when a precedence rule merges them
+  winners: Rule[]
+  shadowed: RuleResolution[]
+}
+
+export interface ResolvedRules {
+  // Every rule in resolved order: effective constraints, then precedence rules, then shadowed, then disabled
+  resolutions: RuleResolution[]
+  // Constraints that apply, in the order they should be applied
+  effective: Rule[]
+  contested: ContestedTarget[]
+}
+
+// Rules apply highest priority first; ties keep insertion order
+export const sortByPriority = (rules: Rule[]): Rule[] =>
+  rules
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => b.rule.priority - a.rule.priority || a.index - b.index)
+    .map(({ rule }) => rule)
+
+// Resolves competing rules into the set that actually applies. Two rules compete when they constrain the
+// same thing (two phase windows for one task, two load limits for one worker group). A precedence rule
+// decides between its global and specific rules; everything else falls back to priority, then creation order.
+// Co-run and exclusion rules combine rather than compete, so they're never shadowed.
+export class PrecedenceResolver {
+  // A task has one phase window and a client one affinity, so a "merge" can't keep both; the higher-ranked
+  // rule applies instead. Every other target applies all of its effective rules.
+  static readonly SINGLE_VALUED: Rule["type"][] = ["phaseWindow", "affinity"]
+
+  static canMerge(rule: Rule): boolean {
+    return !this.SINGLE_VALUED.includes(rule.type)
+  }
+
+  static getTarget(rule: Rule): RuleTarget | null {
+    switch (rule.type) {
+      case "phaseWindow":
+        return { key: `phaseWindow:${rule.taskId}`, label: `Phase window for task ${rule.taskId}` }
+      case "loadLimit":
+        return { key: `loadLimit:${rule.workerGroup}`, label: `Load limit for worker group ${rule.workerGroup}` }
+      case "slotRestriction":
+        return {
+          key: `slotRestriction:${rule.targetType}:${rule.groupName}`,
+          label: `Slot restriction for ${rule.targetType} group ${rule.groupName}`,
+        }
+      case "patternMatch":
+        return {
+          key: `patternMatch:${rule.entityType}:${rule.field}`,
+          label: `Pattern match on ${rule.entityType}.${rule.field}`,
+        }
+      case "minQualification":
+        return { key: `minQualification:${rule.taskId}`, label: `Minimum qualification for task ${rule.taskId}` }
+      case "affinity":
+        return { key: `affinity:${rule.clientId}`, label: `Worker affinity for client ${rule.clientId}` }
+      default:
+        return null
+    }
+  }
+
+  static resolve(rules: Rule[]): ResolvedRules {
+    const ordered = sortByPriority(rules.filter((rule) => rule.enabled))
+    const precedence = ordered.filter((rule): rule is PrecedenceRule => rule.type === "precedence")
+    const constraints: Rule[] = ordered.filter((rule) => rule.type !== "precedence")
+
+    // 1. Group competing constraints by target
+    const byTarget = new Map<string, Rule[]>()
+    constraints.forEach((rule) => {
+      const target = this.getTarget(rule)
+      if (target) byTarget.set(target.key, [...(byTarget.get(target.key) || []), rule])
+    })
+
+    // 2. Rank each contested target and shadow whatever the winner overrides
+    const shadowed = new Map<string, RuleResolution>()
+    const rankedByTarget = new Map<string, Rule[]>()
+    const contested: ContestedTarget[] = []
+
+    byTarget.forEach((competing) => {
+      if (competing.length < 2) return
+
+      const ranked = [...competing].sort((a, b) => this.compare(a, b, precedence, ordered))
+      const winner = ranked[0]
+      const target = this.getTarget(winner)!
+      const entry: ContestedTarget = { target, winners: [winner], shadowed: [] }
+
+      ranked.slice(1).forEach((rule) => {
+        const decision = this.findPrecedence(winner, rule, precedence)
+        const merge = decision?.conflictResolution === "merge"
+        if (merge && this.canMerge(winner)) {
+          entry.winners.push(rule)
+          return
+        }
+
+        const resolution: RuleResolution = {
+          rule,
+          status: "shadowed",
+          target,
+          shadowedBy: winner.id,
+          reason: merge
+            ? `${target.label} holds one value, so "${winner.name}" applies despite "${decision!.name}" merging`
+            : decision
+              ? `Precedence rule "${decision.name}" prefers ${decision.conflictResolution} rules`
+              : winner.priority > rule.priority
+                ? `"${winner.name}" has higher priority (${winner.priority} vs ${rule.priority})`
+                : `"${winner.name}" has the same priority and was created first`,
+        }
+        entry.shadowed.push(resolution)
+        shadowed.set(rule.id, resolution)
+      })
+
+      rankedByTarget.set(target.key, ranked)
+      contested.push(entry)
+    })
+
+    // 3. Effective order: priority order, except that rules sharing a target take the slots their
+    // group occupies in ranked order, so "first matching rule" lookups find the winner
+    const effective = [...constraints]
+    rankedByTarget.forEach((ranked, key) => {
+      const slots = effective
+        .map((rule, index) => ({ rule, index }))
+        .filter(({ rule }) => this.getTarget(rule)?.key === key)
+        .map(({ index }) => index)
+      slots.forEach((slot, i) => {
+        effective[slot] = ranked[i]
+      })
+    })
+
+    const resolutions: RuleResolution[] = [
+      ...effective
+        .filter((rule) => !shadowed.has(rule.id))
+        .map((rule): RuleResolution => ({ rule, status: "effective", target: this.getTarget(rule) })),
+      ...precedence.map((rule): RuleResolution => ({ rule, status: "effective", target: null })),
+      ...effective.filter((rule) => shadowed.has(rule.id)).map((rule) => shadowed.get(rule.id)!),
+      ...sortByPriority(rules.filter((rule) => !rule.enabled)).map((rule): RuleResolution => ({
+        rule,
+        status: "disabled",
+        target: this.getTarget(rule),
+      })),
+    ]
+
+    return {
+      resolutions,
+      effective: effective.filter((rule) => !shadowed.has(rule.id)),
+      contested,
+    }
+  }
+
+  // The precedence rule that names one of the two rules as global and the other as specific
+  private static findPrecedence(a: Rule, b: Rule, precedence: PrecedenceRule[]): PrecedenceRule | null {
+    return (
+      precedence.find(
+        (rule) =>
+          (rule.globalRules.includes(a.id) && rule.specificRules.includes(b.id)) ||
+          (rule.globalRules.includes(b.id) && rule.specificRules.includes(a.id)),
+      ) || null
+    )
+  }
+
+  private static compare(a: Rule, b: Rule, precedence: PrecedenceRule[], ordered: Rule[]): number {
+    const decision = this.findPrecedence(a, b, precedence)
+    if (decision && decision.conflictResolution !== "merge") {
+      const preferred = decision.conflictResolution === "global" ? decision.globalRules : decision.specificRules
+      if (preferred.includes(a.id)) return -1
+      if (preferred.includes(b.id)) return 1
+    }
+    return ordered.indexOf(a) - ordered.indexOf(b)
+  }
+}
@@ -0,0 +1,397 @@
+import { z } from "zod"
+import { RuleValidator, RULESET_VERSION, type Rule } from "./rule-types"
+import { PRIORITY_CRITERIA, type PrioritizationConfig } from "./prioritization"
+
+export interface InvalidRule {
+  // Position in the file's rules array
+  index: number
+  id?: string
+  name?: string
+  errors: string[]
+}
+
+export interface RuleSetImport {
+  version: string
+  // Set when the file was written by an older version and had to be migrated
+  migratedFrom?: string
+  rules: Rule[]
+  invalid: InvalidRule[]
+  prioritization?: PrioritizationConfig
+  // Set when the file has a prioritization block that fails the schema; it's reported, not applied
+  prioritizationErrors?: string[]
+}
+
+export type RuleImportMode = "merge" | "replace"
+
+// 1. Published JSON Schema for rules.json (draft-07), matching RULESET_VERSION
+
+const phases = { type: "array", items: { type: "integer", minimum: 1 } }
+
+const ruleOf = (type: string, properties: Record<string, any>, required: string[]) => ({
+  type: "object",
+  required: ["id", "name", "type", ...required],
+  properties: {
+    id: { type: "string", minLength: 1 },
+    name: { type: "string", minLength: 1 },
+    description: { type: "string" },
+    enabled: { type: "boolean", default: true },
+    priority: { type: "integer", minimum: 1, maximum: 100, default: 50 },
+    createdAt: { type: "string", format: "date-time" },
+    updatedAt: { type: "string", format: "date-time" },
+    type: { const: type },
+    ...properties,
+  },
+})
+
+export const RULESET_JSON_SCHEMA = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  $id: `data-alchemist/rules.schema.json#${RULESET_VERSION}`,
+  title: "Data Alchemist rule set",
+  type: "object",
+  required: ["version", "rules"],
+  properties: {
+    version: { const: RULESET_VERSION },
+    createdAt: { type: "string", format: "date-time" },
+    rules: { type: "array", items: { $ref: "#/definitions/rule" } },
+    prioritization: {
+      type: "object",
+      required: ["mode", "weights"],
+      properties: {
+        mode: { enum: ["sliders", "ranking", "pairwise"] },
+        weights: {
+          type: "object",
+          required: PRIORITY_CRITERIA.map((criterion) => criterion.id),
+          properties: PRIORITY_CRITERIA.reduce<Record<string, any>>(
+            (acc, criterion) => ({ ...acc, [criterion.id]: { type: "number", minimum: 0 } }),
+            {},
+          ),
+        },
+        ranking: { type: "array", items: { enum: PRIORITY_CRITERIA.map((criterion) => criterion.id) } },
+        comparisons: { type: "object", additionalProperties: { type: "number" } },
+        preset: { type: "string" },
+        updatedAt: { type: "string", format: "date-time" },
+      },
+    },
+    precedence: {
+      type: "object",
+      description: "Resolved rule order; recomputed on import",
+      properties: {
+        order: { type: "array", items: { type: "string" } },
+        shadowed: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              ruleId: { type: "string" },
+              shadowedBy: { type: "string" },
+              target: { type: "string" },
+              reason: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+    metadata: { type: "object" },
+  },
+  definitions: {
+    rule: {
+      oneOf: [
+        ruleOf(
+          "coRun",
+          { tasks: { type: "array", items: { type: "string" }, minItems: 2 }, mustRunTogether: { type: "boolean" } },
+          ["tasks"],
+        ),
+        ruleOf(
+          "slotRestriction",
+          {
+            targetType: { enum: ["client", "worker"] },
+            groupName: { type: "string", minLength: 1 },
+            minCommonSlots: { type: "integer", minimum: 1 },
+            phases,
+          },
+          ["targetType", "groupName", "minCommonSlots"],
+        ),
+        ruleOf(
+          "loadLimit",
+          {
+            workerGroup: { type: "string", minLength: 1 },
+            maxSlotsPerPhase: { type: "integer", minimum: 1 },
+            phases,
+          },
+          ["workerGroup", "maxSlotsPerPhase"],
+        ),
+        ruleOf(
+          "phaseWindow",
+          { taskId: { type: "string", minLength: 1 }, allowedPhases: phases, strictMode: { type: "boolean" } },
+          ["taskId", "allowedPhases"],
+        ),
+        ruleOf(
+          "patternMatch",
+          {
+            pattern: { type: "string" },
+            field: { type: "string", minLength: 1 },
+            entityType: { enum: ["clients", "workers", "tasks"] },
+            action: { enum: ["allow", "deny", "flag"] },
+            parameters: { type: "object" },
+          },
+          ["pattern", "field", "entityType", "action"],
+        ),
+        ruleOf(
+          "precedence",
+          {
+            globalRules: { type: "array", items: { type: "string" } },
+            specificRules: { type: "array", items: { type: "string" } },
+            conflictResolution: { enum: ["global", "specific", "merge"] },
+          },
+          ["globalRules", "specificRules"],
+        ),
+        ruleOf(
+          "exclusion",
+          {
+            workerId: { type: "string", minLength: 1 },
+            targetType: { enum: ["client", "task"] },
+            targetId: { type: "string", minLength: 1 },
+          },
+          ["workerId", "targetType", "targetId"],
+        ),
+        ruleOf(
+          "minQualification",
+          { taskId: { type: "string", minLength: 1 }, minLevel: { type: "integer", minimum: 1 } },
+          ["taskId", "minLevel"],
+        ),
+        ruleOf(
+          "affinity",
+          {
+            clientId: { type: "string", minLength: 1 },
+            workerGroup: { type: "string", minLength: 1 },
+            strictMode: { type: "boolean" },
+          },
+          ["clientId", "workerGroup"],
+        ),
+      ],
+    },
+  },
+}
+
+// 2. Runtime schemas: the same shape, with JSON strings revived into Dates and optional fields defaulted
+
+const date = z.preprocess(
+  (value) => (value === undefined || value === null ? new Date() : new Date(value as any)),
+  z.date({ invalid_type_error: "must be a date" }),
+)
+
+const phaseArray = z.array(z.number().int().positive())
+
+const baseRule = z.object({
+  id: z.string().trim().min(1, "Required"),
+  name: z.string().trim().min(1, "Required"),
+  description: z.string().optional(),
+  enabled: z.boolean().default(true),
+  priority: z.number().int().default(50),
+  createdAt: date,
+  updatedAt: date,
+})
+
+const RuleSchema = z.discriminatedUnion("type", [
+  baseRule.extend({ type: z.literal("coRun"), tasks: z.array(z.string()), mustRunTogether: z.boolean().default(true) }),
+  baseRule.extend({
+    type: z.literal("slotRestriction"),
+    targetType: z.enum(["client", "worker"]),
+    groupName: z.string(),
+    minCommonSlots: z.number().int(),
+    phases: phaseArray.optional(),
+  }),
+  baseRule.extend({
+    type: z.literal("loadLimit"),
+    workerGroup: z.string(),
+    maxSlotsPerPhase: z.number().int(),
+    phases: phaseArray.optional(),
+  }),
+  baseRule.extend({
+    type: z.literal("phaseWindow"),
+    taskId: z.string(),
+    allowedPhases: phaseArray,
+    strictMode: z.boolean().default(false),
+  }),
+  baseRule.extend({
+    type: z.literal("patternMatch"),
+    pattern: z.string(),
+    field: z.string(),
+    entityType: z.enum(["clients", "workers", "tasks"]),
+    action: z.enum(["allow", "deny", "flag"]),
+    parameters: z.record(z.any()).optional(),
+  }),
+  baseRule.extend({
+    type: z.literal("precedence"),
+    globalRules: z.array(z.string()),
+    specificRules: z.array(z.string()),
+    conflictResolution: z.enum(["global", "specific", "merge"]).default("specific"),
+  }),
+  baseRule.extend({
+    type: z.literal("exclusion"),
+    workerId: z.string(),
+    targetType: z.enum(["client", "task"]),
+    targetId: z.string(),
+  }),
+  baseRule.extend({ type: z.literal("minQualification"), taskId: z.string(), minLevel: z.number() }),
+  baseRule.extend({
+    type: z.literal("affinity"),
+    clientId: z.string(),
+    workerGroup: z.string(),
+    strictMode: z.boolean().default(false),
+  }),
+])
+
+const criterion = z.enum(["priorityFulfilment", "requestFulfilment", "fairness", "workloadBalance"])
+const weight = z.number({ invalid_type_error: "must be a number" }).nonnegative()
+
+const PrioritizationSchema = z.object({
+  mode: z.enum(["sliders", "ranking", "pairwise"]),
+  weights: z
+    .object({ priorityFulfilment: weight, requestFulfilment: weight, fairness: weight, workloadBalance: weight })
+    .refine((weights) => Object.values(weights).some((value) => value > 0), "at least one weight must be above 0"),
+  ranking: z.array(criterion).default(PRIORITY_CRITERIA.map((entry) => entry.id)),
+  comparisons: z.record(z.number()).default({}),
+  preset: z.string().optional(),
+  updatedAt: date,
+})
+
+// 3. Migrations: each entry upgrades a rule set from version `key` to the next version
+
+const MIGRATIONS: Record<string, (ruleSet: any) => any> = {
+  // A bare array of rules, as some hand-written configs are
+  "0": (rules) => ({ version: "1.0.0", createdAt: new Date(), rules }),
+  // 2.0.0 adds the resolved precedence block and counts effective rules; both are recomputed on import
+  "1.0.0": (ruleSet) => ({
+    ...ruleSet,
+    precedence: { order: [], shadowed: [] },
+    metadata: { ...ruleSet.metadata, effectiveRules: ruleSet.metadata?.enabledRules },
+    version: "2.0.0",
+  }),
+  // 2.1.0 only adds rule types (exclusion, minQualification, affinity), so older files load unchanged
+  "2.0.0": (ruleSet) => ({ ...ruleSet, version: "2.1.0" }),
+}
+
+const formatIssue = (issue: z.ZodIssue) => {
+  const path = issue.path.join(".")
+  return path ? `${path}: ${issue.message}` : issue.message
+}
+
+export class RuleSetImporter {
+  static migrate(ruleSet: any): { ruleSet: any; migratedFrom?: string } {
+    let migrated = ruleSet
+    let version: string = Array.isArray(ruleSet) ? "0" : String(ruleSet?.version ?? "")
+    const original = version
+
+    while (version !== RULESET_VERSION) {
+      const migration = MIGRATIONS[version]
+      if (!migration) {
+        const major = Number(version.split(".")[0])
+        throw new Error(
+          major > Number(RULESET_VERSION.split(".")[0])
+            ? `rules.json was written by a newer version of the app (v${version})`
+            : `Unsupported rules.json version "${version || "missing"}"`,
+        )
+      }
+      migrated = migration(migrated)
+      version = migrated.version
+    }
+
+    return { ruleSet: migrated, migratedFrom: original === RULESET_VERSION ? undefined : original }
+  }
+
+  // Throws only when the file as a whole is unreadable; individual rules that fail are reported in `invalid`.
+  // Precedence references are checked against the rules the import would leave, so merging may point at
+  // rules already in `current`.
+  static parse(json: string, current: Rule[] = [], mode: RuleImportMode = "replace"): RuleSetImport {
+    let raw: any
+    try {
+      raw = JSON.parse(json)
+    } catch {
+      throw new Error("rules.json is not valid JSON")
+    }
+
+    const { ruleSet, migratedFrom } = this.migrate(raw)
+    if (!Array.isArray(ruleSet.rules)) throw new Error("rules.json has no rules array")
+
+    const rules: Rule[] = []
+    const indexes = new Map<Rule, number>()
+    const invalid: InvalidRule[] = []
+    const seen = new Set<string>()
+
+    // 1. Shape
+    ruleSet.rules.forEach((candidate: any, index: number) => {
+      const parsed = RuleSchema.safeParse(candidate)
+      const report = (errors: string[]) => invalid.push({ index, id: candidate?.id, name: candidate?.name, errors })
+
+      if (!parsed.success) {
+        report(parsed.error.issues.map(formatIssue))
+      } else if (seen.has(parsed.data.id)) {
+        report([`Duplicate rule id ${parsed.data.id}`])
+      } else {
+        seen.add(parsed.data.id)
+        rules.push(parsed.data as Rule)
+        indexes.set(parsed.data as Rule, index)
+      }
+    })
+
+    // 2. Meaning: the same checks the rule builder runs, minus conflicts, which validation reports later
+    const resulting = this.apply(current, rules, mode).rules
+    const valid = rules.filter((rule) => {
+      const errors = RuleValidator.checkRule(rule, resulting)
+      if (errors.length === 0) return true
+      invalid.push({ index: indexes.get(rule)!, id: rule.id, name: rule.name, errors })
+      return false
+    })
+
+    const prioritization = this.parsePrioritization(ruleSet.prioritization)
+
+    return {
+      version: RULESET_VERSION,
+      migratedFrom,
+      rules: valid,
+      invalid: invalid.sort((a, b) => a.index - b.index),
+      prioritization: prioritization.config,
+      prioritizationErrors: prioritization.errors,
+    }
+  }
+
+  // Merging replaces rules that share an id with an imported one and keeps the rest
+  static apply(
+    current: Rule[],
+    imported: Rule[],
+    mode: RuleImportMode,
+  ): { rules: Rule[]; added: number; updated: number } {
+    if (mode === "replace") return { rules: imported, added: imported.length, updated: 0 }
+
+    const importedById = new Map(imported.map((rule) => [rule.id, rule]))
+    const updated = current.filter((rule) => importedById.has(rule.id)).length
+    const currentIds = new Set(current.map((rule) => rule.id))
+
+    return {
+      rules: [
+        ...current.map((rule) => importedById.get(rule.id) || rule),
+        ...imported.filter((rule) => !currentIds.has(rule.id)),
+      ],
+      added: imported.length - updated,
+      updated,
+    }
+  }
+
+  static toSchemaJSON(): string {
+    return JSON.stringify(RULESET_JSON_SCHEMA, null, 2)
+  }
+
+  // The prioritization block is optional; one that's present but malformed is reported rather than applied
+  private static parsePrioritization(raw: any): { config?: PrioritizationConfig; errors?: string[] } {
+    if (raw === undefined || raw === null) return {}
+
+    const parsed = PrioritizationSchema.safeParse(raw)
+    if (!parsed.success) {
+      return {
+        errors: parsed.error.issues.map((issue) => formatIssue({ ...issue, path: ["prioritization", ...issue.path] })),
+      }
+    }
+    return { config: parsed.data }
+  }
+}
@@ -0,0 +1,144 @@
+import { create } from "zustand"
+import type { Rule } from "./rule-types"
+import { RuleHistory, type RuleRevision, type RevisionSource } from "./rule-history"
+import { sortByPriority } from "./rule-precedence"
+
+interface RuleStore {
+  rules: Rule[]
+  // Saved versions of each edited rule, oldest first
+  revisions: Record<string, RuleRevision[]>
+  setRules: (rules: Rule[], revisions?: Record<string, RuleRevision[]>) => void
+  addRule: (rule: Rule) => void
+  updateRule: (id: string, changes: Partial<Rule>) => void
+  editRule: (rule: Rule) => void
+  revertRule: (id: string, revisionId: string) => void
+  deleteRule: (id: string) => void
+  duplicateRule: (id: string) => void
+  toggleRule: (id: string) => void
+  setRuleEnabled: (id: string, enabled: boolean) => void
+  moveRule: (id: string, direction: "up" | "down") => void
+}
+
+// Selectors
+export const selectRules = (state: RuleStore) => state.rules
+export const selectEnabledRules = (state: RuleStore) => state.rules.filter((rule) => rule.enabled)
+export const selectRuleById = (id: string) => (state: RuleStore) => state.rules.find((rule) => rule.id === id)
+export const selectRulesByType =
+  <T extends Rule["type"]>(type: T) =>
+  (state: RuleStore) =>
+    state.rules.filter((rule): rule is Extract<Rule, { type: T }> => rule.type === type)
+export const selectRuleRevisions = (id: string) => (state: RuleStore) => state.revisions[id] || []
+
+export const useRuleStore = create<RuleStore>((set, get) => {
+  // Replaces a rule wholesale, since an edit may change its type, and records the saved version.
+  // The rule as it was before its first edit becomes the original revision.
+  const saveRevision = (rule: Rule, source: RevisionSource, revertedFrom?: string) => {
+    const current = get().rules.find((r) => r.id === rule.id)
+    if (!current) return
+
+    const saved = { ...rule, createdAt: current.createdAt, updatedAt: new Date() } as Rule
+    set((state) => ({
+      rules: state.rules.map((r) => (r.id === rule.id ? saved : r)),
+      revisions: {
+        ...state.revisions,
+        [rule.id]: RuleHistory.append(
+          state.revisions[rule.id] || [RuleHistory.createRevision(current, "original")],
+          RuleHistory.createRevision(saved, source, revertedFrom),
+        ),
+      },
+    }))
+  }
+
+  return {
+    rules: [],
+    revisions: {},
+
+    // Without revisions (an import), keeps the history of rules that are still present
+    setRules: (rules, revisions) =>
+      set((state) => {
+        const source = revisions || state.revisions
+        const kept: Record<string, RuleRevision[]> = {}
+        rules.forEach((rule) => {
+          if (source[rule.id]) kept[rule.id] = source[rule.id]
+        })
+        return { rules, revisions: kept }
+      }),
+
+    addRule: (rule) => set((state) => ({ rules: [...state.rules, rule] })),
+
+    updateRule: (id, changes) =>
+      set((state) => ({
+        rules: state.rules.map((rule) =>
+          rule.id === id ? ({ ...rule, ...changes, updatedAt: new Date() } as Rule) : rule,
+        ),
+      })),
+
+    editRule: (rule) => saveRevision(rule, "edit"),
+
+    // Restores a saved version as a new revision, so the revert itself can be undone from the history
+    revertRule: (id, revisionId) => {
+      const revision = get().revisions[id]?.find((r) => r.id === revisionId)
+      const current = get().rules.find((rule) => rule.id === id)
+      if (revision && current) saveRevision(RuleHistory.restore(revision, current), "revert", revisionId)
+    },
+
+    deleteRule: (id) =>
+      set((state) => {
+        const revisions = { ...state.revisions }
+        delete revisions[id]
+        return { rules: state.rules.filter((rule) => rule.id !== id), revisions }
+      }),
+
+    duplicateRule: (id) => {
+      const rule = get().rules.find((r) => r.id === id)
+      if (!rule) return
+
+      get().addRule({
+        ...rule,
+        id: `rule_${Date.now()}`,
+        name: `${rule.name} (Copy)`,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+    },
+
+    toggleRule: (id) => {
+      const rule = get().rules.find((r) => r.id === id)
+      if (rule) get().setRuleEnabled(id, !rule.enabled)
+    },
+
+    setRuleEnabled: (id, enabled) => get().updateRule(id, { enabled }),
+
+    // Swaps priorities with the neighbouring rule so the move sticks in priority order
+    moveRule: (id, direction) => {
+      const ordered = sortByPriority(get().rules)
+      const index = ordered.findIndex((rule) => rule.id === id)
+      const neighbourIndex = direction === "up" ? index - 1 : index + 1
+      if (index === -1 || neighbourIndex < 0 || neighbourIndex >= ordered.length) return
+
+      const rule = ordered[index]
+      const neighbour = ordered[neighbourIndex]
+      let rulePriority = neighbour.priority
+      let neighbourPriority = rule.priority
+
+      // Equal priorities would leave the order unchanged, so nudge them apart within the 1-100 range
+      if (rulePriority === neighbourPriority) {
+        if (direction === "up") {
+          rulePriority = Math.min(100, rulePriority + 1)
+          if (rulePriority === neighbourPriority) neighbourPriority = Math.max(1, neighbourPriority - 1)
+        } else {
+          rulePriority = Math.max(1, rulePriority - 1)
+          if (rulePriority === neighbourPriority) neighbourPriority = Math.min(100, neighbourPriority + 1)
+        }
+      }
+
+      set((state) => ({
+        rules: state.rules.map((r) => {
+          if (r.id === rule.id) return { ...r, priority: rulePriority, updatedAt: new Date() }
+          if (r.id === neighbour.id) return { ...r, priority: neighbourPriority, updatedAt: new Date() }
+          return r
+        }),
+      }))
+    },
+  }
+})
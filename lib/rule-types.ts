@@ -1,3 +1,7 @@
+import type { PrioritizationConfig } from "./prioritization"
+import { RuleAnalyzer, type RuleFinding } from "./rule-analysis"
+import { PrecedenceResolver } from "./rule-precedence"
+
 export interface BaseRule {
   id: string
   name: string
@@ -52,21 +56,75 @@ export interface PrecedenceRule extends BaseRule {
   conflictResolution: "global" | "specific" | "merge"
 }
 
-export type Rule = CoRunRule | SlotRestrictionRule | LoadLimitRule | PhaseWindowRule | PatternMatchRule | PrecedenceRule
+// Keeps one worker off a client's tasks, or off one task for every client
+export interface ExclusionRule extends BaseRule {
+  type: "exclusion"
+  workerId: string
+  targetType: "client" | "task"
+  targetId: string
+}
+
+export interface MinQualificationRule extends BaseRule {
+  type: "minQualification"
+  taskId: string
+  // Workers need a QualificationLevel of at least this to take the task
+  minLevel: number
+}
+
+// Steers a client's tasks towards a worker group; strict mode allows no one else
+export interface AffinityRule extends BaseRule {
+  type: "affinity"
+  clientId: string
+  workerGroup: string
+  strictMode: boolean
+}
+
+export type Rule =
+  | CoRunRule
+  | SlotRestrictionRule
+  | LoadLimitRule
+  | PhaseWindowRule
+  | PatternMatchRule
+  | PrecedenceRule
+  | ExclusionRule
+  | MinQualificationRule
+  | AffinityRule
+
+// Bump when the rules.json layout changes, and add a migration in rule-set-schema.ts
+export const RULESET_VERSION = "2.1.0"
 
 export interface RuleSet {
   version: string
   createdAt: Date
+  // Enabled rules in resolved order (see PrecedenceResolver)
   rules: Rule[]
+  prioritization?: PrioritizationConfig
+  precedence: {
+    // Ids of the constraints that apply, in the order they're applied
+    order: string[]
+    shadowed: { ruleId: string; shadowedBy: string; target: string; reason: string }[]
+  }
   metadata: {
     totalRules: number
     enabledRules: number
+    effectiveRules: number
     ruleTypes: Record<string, number>
   }
 }
 
 export class RuleValidator {
   static validateRule(rule: Rule, existingRules: Rule[] = []): { isValid: boolean; errors: string[] } {
+    const errors = [...this.checkRule(rule, existingRules), ...this.findConflicts(rule, existingRules)]
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    }
+  }
+
+  // Problems with the rule itself, ignoring how it interacts with other rules; other rules are only used
+  // to resolve precedence references
+  static checkRule(rule: Rule, existingRules: Rule[] = []): string[] {
     const errors: string[] = []
 
     // Basic validation
@@ -111,16 +169,54 @@ export class RuleValidator {
           errors.push("Invalid regex pattern")
         }
         break
-    }
 
-    // Check for conflicts with existing rules
-    const conflicts = this.findConflicts(rule, existingRules)
-    errors.push(...conflicts)
+      case "exclusion":
+        if (!rule.workerId.trim()) {
+          errors.push("Exclusion rules need a worker")
+        }
+        if (!rule.targetId.trim()) {
+          errors.push(`Exclusion rules need a ${rule.targetType} to keep the worker away from`)
+        }
+        break
 
-    return {
-      isValid: errors.length === 0,
-      errors,
+      case "minQualification":
+        if (!rule.taskId.trim()) {
+          errors.push("Minimum qualification rules need a task")
+        }
+        if (!Number.isInteger(rule.minLevel) || rule.minLevel < 1) {
+          errors.push("Minimum qualification level must be a whole number of at least 1")
+        }
+        break
+
+      case "affinity":
+        if (!rule.clientId.trim() || !rule.workerGroup.trim()) {
+          errors.push("Affinity rules need a client and a worker group")
+        }
+        break
+
+      case "precedence": {
+        if (rule.globalRules.length === 0 || rule.specificRules.length === 0) {
+          errors.push("Precedence rules need at least one global and one specific rule")
+        }
+        const referenced = [...rule.globalRules, ...rule.specificRules]
+        if (rule.globalRules.some((id) => rule.specificRules.includes(id))) {
+          errors.push("A rule can't be both global and specific")
+        }
+        referenced.forEach((id) => {
+          const target = existingRules.find((existingRule) => existingRule.id === id)
+          if (id === rule.id || target?.type === "precedence") {
+            errors.push("Precedence rules can't reference precedence rules")
+          } else if (!target) {
+            errors.push(`Rule ${id} doesn't exist`)
+          } else if (rule.conflictResolution === "merge" && !PrecedenceResolver.canMerge(target)) {
+            errors.push(`"${target.name}" is a ${target.type} rule, which holds one value and can't be merged`)
+          }
+        })
+        break
+      }
     }
+
+    return errors
   }
 
   static findConflicts(rule: Rule, existingRules: Rule[]): string[] {
@@ -134,32 +230,55 @@ export class RuleValidator {
         conflicts.push(`Rule name "${rule.name}" already exists`)
       }
 
-      // Type-specific conflict detection
-      if (rule.type === "coRun" && existingRule.type === "coRun") {
-        const overlap = rule.tasks.some((task) => existingRule.tasks.includes(task))
-        if (overlap) {
-          conflicts.push(`Co-run rule conflicts with existing rule "${existingRule.name}"`)
-        }
-      }
-
-      if (rule.type === "loadLimit" && existingRule.type === "loadLimit") {
-        if (rule.workerGroup === existingRule.workerGroup) {
-          conflicts.push(`Load limit for group "${rule.workerGroup}" already exists`)
-        }
-      }
-
-      if (rule.type === "phaseWindow" && existingRule.type === "phaseWindow") {
-        if (rule.taskId === existingRule.taskId) {
-          conflicts.push(`Phase window for task "${rule.taskId}" already exists`)
+      // Type-specific conflict detection. Rules that compete for the same target (see findCompeting) are
+      // left to PrecedenceResolver rather than rejected.
+      if (rule.type === "exclusion" && existingRule.type === "exclusion") {
+        if (
+          rule.workerId === existingRule.workerId &&
+          rule.targetType === existingRule.targetType &&
+          rule.targetId === existingRule.targetId
+        ) {
+          conflicts.push(`Worker "${rule.workerId}" is already excluded from ${rule.targetType} "${rule.targetId}"`)
         }
       }
     })
 
+    // Contradictions can span any number of rules, so analyze the rule set as it would be saved.
+    // Low-severity findings (redundant co-run rules) are notes, see findCompeting.
+    this.findRuleSetIssues(rule, existingRules)
+      .filter((finding) => finding.severity !== "low")
+      .forEach((finding) => conflicts.push(finding.message))
+
     return conflicts
   }
 
-  static generateRuleSet(rules: Rule[]): RuleSet {
+  // Non-blocking notes: other rules that constrain the same thing, where only the winner applies, and
+  // co-run rules that add nothing
+  static findCompeting(rule: Rule, existingRules: Rule[]): string[] {
+    const redundant = this.findRuleSetIssues(rule, existingRules)
+      .filter((finding) => finding.severity === "low")
+      .map((finding) => finding.message)
+
+    const target = PrecedenceResolver.getTarget(rule)
+    if (!target) return redundant
+
+    return [
+      ...existingRules
+        .filter(
+          (existingRule) =>
+            existingRule.id !== rule.id && PrecedenceResolver.getTarget(existingRule)?.key === target.key,
+        )
+        .map(
+          (existingRule) =>
+            `${target.label} is also set by "${existingRule.name}". The higher-priority rule applies unless a precedence rule decides.`,
+        ),
+      ...redundant,
+    ]
+  }
+
+  static generateRuleSet(rules: Rule[], prioritization?: PrioritizationConfig): RuleSet {
     const enabledRules = rules.filter((r) => r.enabled)
+    const resolved = PrecedenceResolver.resolve(rules)
     const ruleTypes = rules.reduce(
       (acc, rule) => {
         acc[rule.type] = (acc[rule.type] || 0) + 1
@@ -169,14 +288,37 @@ export class RuleValidator {
     )
 
     return {
-      version: "1.0.0",
+      version: RULESET_VERSION,
       createdAt: new Date(),
-      rules: enabledRules.sort((a, b) => b.priority - a.priority),
+      // Disabled rules are exported too, with their enabled flag, so a re-import restores the whole set
+      rules: resolved.resolutions.map((resolution) => resolution.rule),
+      prioritization,
+      precedence: {
+        order: resolved.effective.map((rule) => rule.id),
+        shadowed: resolved.contested.reduce<RuleSet["precedence"]["shadowed"]>(
+          (acc, contested) => [
+            ...acc,
+            ...contested.shadowed.map((resolution) => ({
+              ruleId: resolution.rule.id,
+              shadowedBy: resolution.shadowedBy!,
+              target: contested.target.label,
+              reason: resolution.reason!,
+            })),
+          ],
+          [],
+        ),
+      },
       metadata: {
         totalRules: rules.length,
         enabledRules: enabledRules.length,
+        effectiveRules: resolved.effective.length,
         ruleTypes,
       },
     }
   }
+
+  private static findRuleSetIssues(rule: Rule, existingRules: Rule[]): RuleFinding[] {
+    const ruleSet = [...existingRules.filter((existingRule) => existingRule.id !== rule.id), rule]
+    return new RuleAnalyzer(ruleSet).analyze().filter((finding) => finding.ruleIds.includes(rule.id))
+  }
 }
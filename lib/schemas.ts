@@ -0,0 +1,261 @@
+import { z } from "zod"
+
+export type EntityType = "clients" | "workers" | "tasks"
+
+export interface FieldIssue {
+  field: string
+  message: string
+  value: any
+}
+
+// 1. Normalizers
+// Each one returns the normalized value when the input is clean and the raw input otherwise, so nothing the
+// user typed is lost before validation gets a chance to report it.
+
+const isEmpty = (value: any) => value === null || value === undefined || (typeof value === "string" && !value.trim())
+
+export function toText(value: any): any {
+  if (isEmpty(value)) return null
+  return typeof value === "string" ? value.trim() : typeof value === "number" ? String(value) : value
+}
+
+export function toNumber(value: any): any {
+  if (isEmpty(value)) return null
+  if (typeof value === "number") return value
+  const number = Number(String(value).trim())
+  return Number.isFinite(number) ? number : value
+}
+
+export function toList(value: any): string[] {
+  if (Array.isArray(value)) return value.map((v) => String(v).trim()).filter(Boolean)
+  if (isEmpty(value)) return []
+
+  const text = String(value).trim()
+  if (text.startsWith("[")) {
+    try {
+      const parsed = JSON.parse(text)
+      if (Array.isArray(parsed)) return parsed.map((v) => String(v).trim()).filter(Boolean)
+    } catch {
+      // Not JSON, treat the brackets as decoration
+    }
+  }
+
+  return text
+    .replace(/^\[|\]$/g, "")
+    .split(",")
+    .map((v) => v.replace(/^["']|["']$/g, "").trim())
+    .filter(Boolean)
+}
+
+// Accepts [1,2,3], "1,2,3", "[1,2,3]" and ranges like "1-3" (also inside lists: "1-2,5")
+export function toPhaseList(value: any): any {
+  if (isEmpty(value)) return []
+  if (typeof value === "number") return Number.isInteger(value) && value > 0 ? [value] : value
+
+  const phases: number[] = []
+  const tokens = Array.isArray(value) ? value.map(String) : toList(value)
+
+  for (const token of tokens) {
+    const range = token.match(/^(\d+)\s*-\s*(\d+)$/)
+    if (range) {
+      const [start, end] = [Number(range[1]), Number(range[2])]
+      if (end < start) return value
+      for (let phase = start; phase <= end; phase++) phases.push(phase)
+      continue
+    }
+
+    const phase = Number(token)
+    if (!Number.isInteger(phase) || phase < 1) return value
+    phases.push(phase)
+  }
+
+  return Array.from(new Set(phases)).sort((a, b) => a - b)
+}
+
+// Lenient variant for consumers that just need whatever valid phases a value contains
+export function parsePhases(value: any): number[] {
+  const normalized = toPhaseList(value)
+  if (Array.isArray(normalized)) return normalized.filter((phase) => Number.isInteger(phase) && phase > 0)
+
+  return toList(value)
+    .map(Number)
+    .filter((phase) => Number.isInteger(phase) && phase > 0)
+}
+
+export function toJSONObject(value: any): any {
+  if (isEmpty(value)) return null
+  if (typeof value !== "string") return value
+
+  try {
+    return JSON.parse(value)
+  } catch {
+    return value
+  }
+}
+
+// 2. Field schemas
+
+const text = (field: string) =>
+  z.preprocess(toText, z.string({ required_error: `${field} is required`, invalid_type_error: `${field} is required` }))
+
+const optionalText = z.preprocess(toText, z.string().nullish())
+
+const list = z.preprocess(toList, z.array(z.string()))
+
+const phaseList = (field: string) =>
+  z.preprocess(
+    toPhaseList,
+    z.array(z.number().int().positive(), {
+      invalid_type_error: `${field} must be a list of positive phase numbers`,
+    }),
+  )
+
+const integer = (field: string, min: number, max?: number) => {
+  const rangeMessage = max === undefined ? `${field} must be >= ${min}` : `${field} must be between ${min}-${max}`
+  let schema = z
+    .number({ required_error: `${field} is required`, invalid_type_error: `${field} must be a number` })
+    .int(`${field} must be a whole number`)
+    .min(min, rangeMessage)
+  if (max !== undefined) schema = schema.max(max, rangeMessage)
+  return z.preprocess(toNumber, schema)
+}
+
+const attributes = z.preprocess(
+  toJSONObject,
+  z.record(z.any(), { invalid_type_error: "Invalid JSON in AttributesJSON" }).nullish(),
+)
+
+// 3. Entity schemas
+
+export const ClientSchema = z
+  .object({
+    ClientID: text("ClientID"),
+    ClientName: text("ClientName"),
+    PriorityLevel: integer("PriorityLevel", 1, 5),
+    RequestedTaskIDs: list,
+    GroupTag: optionalText,
+    AttributesJSON: attributes,
+  })
+  .passthrough()
+
+export const WorkerSchema = z
+  .object({
+    WorkerID: text("WorkerID"),
+    WorkerName: text("WorkerName"),
+    Skills: list,
+    AvailableSlots: phaseList("AvailableSlots"),
+    MaxLoadPerPhase: integer("MaxLoadPerPhase", 1),
+    WorkerGroup: optionalText,
+    QualificationLevel: z.preprocess(toNumber, z.number().nullish()),
+  })
+  .passthrough()
+
+export const TaskSchema = z
+  .object({
+    TaskID: text("TaskID"),
+    TaskName: text("TaskName"),
+    Category: optionalText,
+    Duration: integer("Duration", 1),
+    RequiredSkills: list,
+    PreferredPhases: phaseList("PreferredPhases"),
+    MaxConcurrent: integer("MaxConcurrent", 1),
+  })
+  .passthrough()
+
+export type Client = z.infer<typeof ClientSchema>
+export type Worker = z.infer<typeof WorkerSchema>
+export type Task = z.infer<typeof TaskSchema>
+
+export const ENTITY_SCHEMAS = {
+  clients: ClientSchema,
+  workers: WorkerSchema,
+  tasks: TaskSchema,
+}
+
+// Canonical field order, taken straight from the schemas
+export const ENTITY_FIELDS: Record<EntityType, string[]> = {
+  clients: Object.keys(ClientSchema.shape),
+  workers: Object.keys(WorkerSchema.shape),
+  tasks: Object.keys(TaskSchema.shape),
+}
+
+// Primary key of each entity; issues and edits refer to records by this rather than by row position
+export const ID_FIELDS: Record<EntityType, string> = {
+  clients: "ClientID",
+  workers: "WorkerID",
+  tasks: "TaskID",
+}
+
+// Stable key for every row: its primary key, with repeats numbered (C1, C1#2) and rows without an id
+// falling back to their position
+export function getRecordKeys(entityType: EntityType, rows: any[]): string[] {
+  const seen = new Map<string, number>()
+  return rows.map((row, index) => {
+    const id = toText(row?.[ID_FIELDS[entityType]])
+    if (id === null || typeof id === "object") return `row-${index + 1}`
+
+    const count = (seen.get(String(id)) || 0) + 1
+    seen.set(String(id), count)
+    return count === 1 ? String(id) : `${id}#${count}`
+  })
+}
+
+const FIELD_NORMALIZERS: Record<string, (value: any) => any> = {
+  ClientID: toText,
+  ClientName: toText,
+  PriorityLevel: toNumber,
+  RequestedTaskIDs: toList,
+  GroupTag: toText,
+  AttributesJSON: toJSONObject,
+  WorkerID: toText,
+  WorkerName: toText,
+  Skills: toList,
+  AvailableSlots: toPhaseList,
+  MaxLoadPerPhase: toNumber,
+  WorkerGroup: toText,
+  QualificationLevel: toNumber,
+  TaskID: toText,
+  TaskName: toText,
+  Category: toText,
+  Duration: toNumber,
+  RequiredSkills: toList,
+  PreferredPhases: toPhaseList,
+  MaxConcurrent: toNumber,
+}
+
+// 4. Record helpers
+
+export class SchemaNormalizer {
+  static normalizeField(entityType: EntityType, field: string, value: any): any {
+    const normalizer = ENTITY_FIELDS[entityType].includes(field) ? FIELD_NORMALIZERS[field] : undefined
+    return normalizer ? normalizer(value) : value
+  }
+
+  // Only columns already present are normalized; missing columns stay missing so they can be reported
+  static normalizeRecord<T = any>(entityType: EntityType, row: any): T {
+    const normalized: any = { ...row }
+    Object.keys(row).forEach((field) => {
+      normalized[field] = this.normalizeField(entityType, field, row[field])
+    })
+    return normalized
+  }
+
+  static normalizeRecords<T = any>(entityType: EntityType, rows: any[]): T[] {
+    return rows.map((row) => this.normalizeRecord<T>(entityType, row))
+  }
+
+  static validateRecord(entityType: EntityType, row: any): FieldIssue[] {
+    const result = ENTITY_SCHEMAS[entityType].safeParse(row)
+    if (result.success) return []
+
+    // One issue per field is enough; a value like 7.5 would otherwise be reported as both fractional and too big
+    const issues: FieldIssue[] = []
+    result.error.issues.forEach((issue) => {
+      const field = String(issue.path[0] ?? "")
+      if (!issues.some((existing) => existing.field === field)) {
+        issues.push({ field, message: issue.message, value: row?.[field] })
+      }
+    })
+    return issues
+  }
+}
@@ -1,80 +1,198 @@
 import { create } from "zustand"
+import { SchemaNormalizer, type Client, type Worker, type Task, type EntityType } from "./schemas"
 
-interface Client {
-  ClientID: string
-  ClientName: string
-  PriorityLevel: number
-  RequestedTaskIDs: string | string[]
-  GroupTag: string
-  AttributesJSON: any
-}
+export type ChangeSource = "manual" | "auto-fix" | "ai" | "import"
 
-interface Worker {
-  WorkerID: string
-  WorkerName: string
-  Skills: string | string[]
-  AvailableSlots: number[]
-  MaxLoadPerPhase: number
-  WorkerGroup: string
-  QualificationLevel: number
+export interface ChangeEntry {
+  entityType: EntityType
+  rowIndex: number
+  recordId: string
+  field: string
+  oldValue: any
+  newValue: any
 }
 
-interface Task {
-  TaskID: string
-  TaskName: string
-  Category: string
-  Duration: number
-  RequiredSkills: string | string[]
-  PreferredPhases: string | number[]
-  MaxConcurrent: number
+type EntitySnapshot = Partial<{ clients: Client[]; workers: Worker[]; tasks: Task[] }>
+
+export interface HistoryStep {
+  id: string
+  label: string
+  source: ChangeSource
+  timestamp: Date
+  changes: ChangeEntry[]
+  // Entity arrays before and after the step; records are immutable so these share structure with live state
+  before: EntitySnapshot
+  after: EntitySnapshot
 }
 
 interface DataStore {
   clients: Client[]
   workers: Worker[]
   tasks: Task[]
-  setClients: (clients: Client[]) => void
-  setWorkers: (workers: Worker[]) => void
-  setTasks: (tasks: Task[]) => void
-  updateRecord: (type: "clients" | "workers" | "tasks", index: number, field: string, value: any) => void
+  past: HistoryStep[]
+  future: HistoryStep[]
+  pendingBatch: HistoryStep | null
+  setClients: (clients: Client[], source?: ChangeSource) => void
+  setWorkers: (workers: Worker[], source?: ChangeSource) => void
+  setTasks: (tasks: Task[], source?: ChangeSource) => void
+  updateRecord: (type: EntityType, index: number, field: string, value: any, source?: ChangeSource) => void
+  batch: (label: string, source: ChangeSource, apply: () => void) => void
+  loadSnapshot: (data: { clients: Client[]; workers: Worker[]; tasks: Task[] }) => void
+  undo: () => void
+  redo: () => void
+  canUndo: () => boolean
+  canRedo: () => boolean
+  clearHistory: () => void
   hasData: () => boolean
 }
 
-export const useDataStore = create<DataStore>((set, get) => ({
-  clients: [],
-  workers: [],
-  tasks: [],
+const MAX_HISTORY = 100
+
+const ID_FIELDS: Record<EntityType, string> = {
+  clients: "ClientID",
+  workers: "WorkerID",
+  tasks: "TaskID",
+}
 
-  setClients: (clients) => set({ clients }),
-  setWorkers: (workers) => set({ workers }),
-  setTasks: (tasks) => set({ tasks }),
+export const useDataStore = create<DataStore>((set, get) => {
+  // Push a step onto the history, or fold it into the open batch
+  const record = (step: Omit<HistoryStep, "id" | "timestamp">) => {
+    const { pendingBatch } = get()
 
-  updateRecord: (type, index, field, value) => {
-    const state = get()
+    if (pendingBatch) {
+      set({
+        pendingBatch: {
+          ...pendingBatch,
+          changes: [...pendingBatch.changes, ...step.changes],
+          // Keep the earliest "before" per entity so undo restores the state from before the whole batch
+          before: { ...step.before, ...pendingBatch.before },
+          after: { ...pendingBatch.after, ...step.after },
+        },
+      })
+      return
+    }
 
-    if (type === "clients") {
-      const updated = [...state.clients]
-      if (updated[index]) {
-        updated[index] = { ...updated[index], [field]: value }
-        set({ clients: updated })
-      }
-    } else if (type === "workers") {
-      const updated = [...state.workers]
-      if (updated[index]) {
-        updated[index] = { ...updated[index], [field]: value }
-        set({ workers: updated })
+    set((state) => ({
+      past: [
+        ...state.past,
+        { ...step, id: `step_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`, timestamp: new Date() },
+      ].slice(-MAX_HISTORY),
+      future: [],
+    }))
+  }
+
+  const replaceEntity = (type: EntityType, rows: any[], source: ChangeSource) => {
+    const before = get()[type]
+    // Every write goes through the schema normalizers so consumers always see arrays, numbers and expanded phases
+    const after = SchemaNormalizer.normalizeRecords(type, rows)
+
+    set({ [type]: after } as EntitySnapshot)
+    record({
+      label: `Loaded ${after.length} ${type}`,
+      source,
+      changes: [],
+      before: { [type]: before },
+      after: { [type]: after },
+    })
+  }
+
+  return {
+    clients: [],
+    workers: [],
+    tasks: [],
+    past: [],
+    future: [],
+    pendingBatch: null,
+
+    setClients: (clients, source = "import") => replaceEntity("clients", clients, source),
+    setWorkers: (workers, source = "import") => replaceEntity("workers", workers, source),
+    setTasks: (tasks, source = "import") => replaceEntity("tasks", tasks, source),
+
+    updateRecord: (type, index, field, rawValue, source = "manual") => {
+      const before: any[] = get()[type]
+      const current = before[index]
+      if (!current) return
+
+      const value = SchemaNormalizer.normalizeField(type, field, rawValue)
+      const oldValue = current[field]
+      if (JSON.stringify(oldValue) === JSON.stringify(value)) return
+
+      const after = [...before]
+      after[index] = { ...current, [field]: value }
+      set({ [type]: after } as EntitySnapshot)
+
+      record({
+        label: `Edited ${field}`,
+        source,
+        changes: [
+          {
+            entityType: type,
+            rowIndex: index,
+            recordId: String(current[ID_FIELDS[type]] ?? `row ${index + 1}`),
+            field,
+            oldValue,
+            newValue: value,
+          },
+        ],
+        before: { [type]: before },
+        after: { [type]: after },
+      })
+    },
+
+    // Groups every store write made inside `apply` into a single undoable step
+    batch: (label, source, apply) => {
+      if (get().pendingBatch) {
+        apply()
+        return
       }
-    } else if (type === "tasks") {
-      const updated = [...state.tasks]
-      if (updated[index]) {
-        updated[index] = { ...updated[index], [field]: value }
-        set({ tasks: updated })
+
+      set({ pendingBatch: { id: "", label, source, timestamp: new Date(), changes: [], before: {}, after: {} } })
+      try {
+        apply()
+      } finally {
+        const step = get().pendingBatch
+        set({ pendingBatch: null })
+        if (step && Object.keys(step.before).length > 0) {
+          record({ label, source, changes: step.changes, before: step.before, after: step.after })
+        }
       }
-    }
-  },
+    },
+
+    // Swaps in a whole dataset (e.g. a restored workspace); history from the previous dataset no longer applies
+    loadSnapshot: (data) => {
+      set({
+        clients: SchemaNormalizer.normalizeRecords("clients", data.clients),
+        workers: SchemaNormalizer.normalizeRecords("workers", data.workers),
+        tasks: SchemaNormalizer.normalizeRecords("tasks", data.tasks),
+        past: [],
+        future: [],
+        pendingBatch: null,
+      })
+    },
+
+    undo: () => {
+      const { past, future } = get()
+      const step = past[past.length - 1]
+      if (!step) return
+
+      set({ ...step.before, past: past.slice(0, -1), future: [step, ...future] })
+    },
+
+    redo: () => {
+      const { past, future } = get()
+      const step = future[0]
+      if (!step) return
+
+      set({ ...step.after, past: [...past, step], future: future.slice(1) })
+    },
+
+    canUndo: () => get().past.length > 0,
+    canRedo: () => get().future.length > 0,
+    clearHistory: () => set({ past: [], future: [] }),
 
-  hasData: () => {
-    const state = get()
-    return state.clients.length > 0 || state.workers.length > 0 || state.tasks.length > 0
-  },
-}))
+    hasData: () => {
+      const state = get()
+      return state.clients.length > 0 || state.workers.length > 0 || state.tasks.length > 0
+    },
+  }
+})
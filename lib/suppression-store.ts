@@ -0,0 +1,29 @@
+import { create } from "zustand"
+import type { Suppression } from "./suppressions"
+
+interface SuppressionStore {
+  suppressions: Suppression[]
+  setSuppressions: (suppressions: Suppression[]) => void
+  addSuppression: (suppression: Omit<Suppression, "id" | "createdAt">) => void
+  removeSuppression: (id: string) => void
+}
+
+// Selectors
+export const selectSuppressions = (state: SuppressionStore) => state.suppressions
+
+export const useSuppressionStore = create<SuppressionStore>((set) => ({
+  suppressions: [],
+
+  setSuppressions: (suppressions) => set({ suppressions }),
+
+  addSuppression: (suppression) =>
+    set((state) => ({
+      suppressions: [
+        ...state.suppressions,
+        { ...suppression, id: `sup_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`, createdAt: new Date() },
+      ],
+    })),
+
+  removeSuppression: (id) =>
+    set((state) => ({ suppressions: state.suppressions.filter((suppression) => suppression.id !== id) })),
+}))
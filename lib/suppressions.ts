@@ -0,0 +1,91 @@
+import type { EntityType } from "./schemas"
+import type { ValidationError, ValidationResult } from "./validation-engine"
+
+// Acknowledged issues stay in the open list, badged as known and accepted; suppressed ones are hidden from it.
+// Neither counts against isValid or the error and warning totals.
+export type SuppressionKind = "acknowledged" | "suppressed"
+
+// issue: one specific issue, record: everything a check reports for one record, check: the check everywhere
+export type SuppressionScope = "issue" | "record" | "check"
+
+export interface Suppression {
+  id: string
+  kind: SuppressionKind
+  scope: SuppressionScope
+  checkId: string
+  // Set for record and issue scope
+  entityType?: EntityType
+  recordId?: string
+  // Set for issue scope
+  issueId?: string
+  reason: string
+  createdAt: Date
+}
+
+const SCOPE_ORDER: SuppressionScope[] = ["issue", "record", "check"]
+
+export class SuppressionEngine {
+  static matches(suppression: Suppression, issue: ValidationError): boolean {
+    if (suppression.checkId !== issue.checkId) return false
+
+    switch (suppression.scope) {
+      case "issue":
+        return suppression.issueId === issue.id
+      case "record":
+        return suppression.entityType === issue.entityType && suppression.recordId === issue.recordId
+      case "check":
+        return true
+    }
+  }
+
+  // The most specific suppression wins, so a record-level acknowledgement isn't hidden by a global one
+  static find(suppressions: Suppression[], issue: ValidationError): Suppression | undefined {
+    let found: Suppression | undefined
+    suppressions.forEach((suppression) => {
+      if (!this.matches(suppression, issue)) return
+      if (!found || SCOPE_ORDER.indexOf(suppression.scope) < SCOPE_ORDER.indexOf(found.scope)) found = suppression
+    })
+    return found
+  }
+
+  // Moves matching issues into `suppressed` and recounts everything else as if they weren't there
+  static apply(result: ValidationResult, suppressions: Suppression[]): ValidationResult {
+    if (suppressions.length === 0) return result
+
+    const active: ValidationError[] = []
+    const suppressed: ValidationError[] = []
+    const issues = [...result.errors, ...result.warnings]
+    issues.forEach((issue) => {
+      const suppression = this.find(suppressions, issue)
+      if (suppression) suppressed.push({ ...issue, suppressionId: suppression.id })
+      else active.push(issue)
+    })
+
+    const errors = active.filter((issue) => issue.type === "error")
+    const warnings = active.filter((issue) => issue.type === "warning")
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings,
+      suppressed,
+      checks: result.checks.map((check) => {
+        if (check.status === "disabled") return check
+
+        const issues = active.filter((issue) => issue.checkId === check.id)
+        const errorCount = issues.filter((issue) => issue.type === "error").length
+        return {
+          ...check,
+          status: issues.length === 0 ? "passed" : "failed",
+          errorCount,
+          warningCount: issues.length - errorCount,
+        }
+      }),
+      summary: {
+        totalErrors: errors.length,
+        totalWarnings: warnings.length,
+        criticalIssues: active.filter((issue) => issue.severity === "high").length,
+      },
+    }
+  }
+}
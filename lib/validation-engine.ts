@@ -1,3 +1,14 @@
+import {
+  ValidatorRegistry,
+  ValidationContext,
+  type ValidatorCategory,
+  type ValidatorDefinition,
+  type ValidatorSeverity,
+  type ValidatorSettings,
+} from "./validator-registry"
+import type { EntityType } from "./schemas"
+import type { Rule } from "./rule-types"
+
 export interface ValidationError {
   id: string
   type: "error" | "warning"
@@ -6,14 +17,41 @@ export interface ValidationError {
   field: string
   rowIndex: number
   entityType: "clients" | "workers" | "tasks"
+  // Primary key of the row (see getRecordKeys); filled in by the engine for issues that point at a row
+  recordId?: string
+  // Set when the issue comes from a user-defined rule rather than the data alone
+  ruleId?: string
+  // Validator that reported the issue; filled in by the engine
+  checkId?: string
+  // Set on issues in `suppressed`, pointing at the suppression that matched
+  suppressionId?: string
   suggestion?: string
   autoFixable?: boolean
 }
 
+export interface CheckResult {
+  id: string
+  name: string
+  category: ValidatorCategory
+  severity: ValidatorSeverity
+  status: "passed" | "failed" | "disabled"
+  errorCount: number
+  warningCount: number
+}
+
+// Output of a single validator, kept per check so incremental runs can reuse untouched results
+export interface CheckRun {
+  check: CheckResult
+  issues: ValidationError[]
+}
+
 export interface ValidationResult {
   isValid: boolean
   errors: ValidationError[]
   warnings: ValidationError[]
+  // Acknowledged or suppressed issues; left out of everything else, including the check counts
+  suppressed: ValidationError[]
+  checks: CheckResult[]
   summary: {
     totalErrors: number
     totalWarnings: number
@@ -21,33 +59,75 @@ export interface ValidationResult {
   }
 }
 
+// Issues that appeared or went away between two runs, matched by id
+export interface ValidationDiff {
+  added: ValidationError[]
+  resolved: ValidationError[]
+}
+
 export class ValidationEngine {
-  private clients: any[] = []
-  private workers: any[] = []
-  private tasks: any[] = []
+  private context: ValidationContext
+  private settings: ValidatorSettings
 
-  constructor(clients: any[], workers: any[], tasks: any[]) {
-    this.clients = clients
-    this.workers = workers
-    this.tasks = tasks
+  constructor(clients: any[], workers: any[], tasks: any[], rules: Rule[] = [], settings: ValidatorSettings = {}) {
+    this.context = new ValidationContext(clients, workers, tasks, rules)
+    this.settings = settings
   }
 
   validateAll(): ValidationResult {
-    const errors: ValidationError[] = []
+    // Run every registered validator that this workspace hasn't switched off
+    return ValidationEngine.summarize(ValidatorRegistry.list().map((validator) => this.runCheck(validator)))
+  }
 
-    // Run all validation rules
-    errors.push(...this.validateRequiredColumns())
-    errors.push(...this.validateDuplicateIDs())
-    errors.push(...this.validateMalformedLists())
-    errors.push(...this.validateOutOfRangeValues())
-    errors.push(...this.validateBrokenJSON())
-    errors.push(...this.validateUnknownReferences())
-    errors.push(...this.validateOverloadedWorkers())
-    errors.push(...this.validateSkillCoverage())
-    errors.push(...this.validateMaxConcurrency())
-    errors.push(...this.validatePhaseSlotSaturation())
-    errors.push(...this.validateCircularCoRunGroups()) // NEW
-    errors.push(...this.validateConflictingRules()) // NEW
+  runCheck(validator: ValidatorDefinition): CheckRun {
+    const setting = this.settings[validator.id]
+    const severity = setting?.severity ?? validator.defaultSeverity
+    const check = {
+      id: validator.id,
+      name: validator.name,
+      category: validator.category,
+      severity,
+      errorCount: 0,
+      warningCount: 0,
+    }
+
+    if (setting?.enabled === false) {
+      return { check: { ...check, status: "disabled" }, issues: [] }
+    }
+
+    let issues: ValidationError[]
+    try {
+      issues = validator.run(this.context, ValidatorRegistry.getParams(validator, setting))
+    } catch (error) {
+      // A broken third-party check shouldn't take the built-in ones down with it
+      console.error(`Validator "${validator.id}" failed:`, error)
+      issues = []
+    }
+
+    issues = issues.map((issue) => ({
+      ...issue,
+      checkId: validator.id,
+      recordId: issue.rowIndex >= 0 ? this.context.getRecordKey(issue.entityType, issue.rowIndex) : undefined,
+    }))
+    if (setting?.severity && setting.severity !== validator.defaultSeverity) {
+      issues = issues.map((issue) => this.applySeverity(issue, setting.severity!))
+    }
+
+    const errorCount = issues.filter((issue) => issue.type === "error").length
+    return {
+      check: {
+        ...check,
+        status: issues.length === 0 ? "passed" : "failed",
+        errorCount,
+        warningCount: issues.length - errorCount,
+      },
+      issues,
+    }
+  }
+
+  static summarize(runs: CheckRun[]): ValidationResult {
+    const errors: ValidationError[] = []
+    runs.forEach((run) => errors.push(...run.issues))
 
     const warnings = errors.filter((e) => e.type === "warning")
     const actualErrors = errors.filter((e) => e.type === "error")
@@ -56,6 +136,8 @@ export class ValidationEngine {
       isValid: actualErrors.length === 0,
       errors: actualErrors,
       warnings,
+      suppressed: [],
+      checks: runs.map((run) => run.check),
       summary: {
         totalErrors: actualErrors.length,
         totalWarnings: warnings.length,
@@ -64,535 +146,65 @@ export class ValidationEngine {
     }
   }
 
-  // 1. Missing required columns
-  private validateRequiredColumns(): ValidationError[] {
-    const errors: ValidationError[] = []
-
-    const requiredFields = {
-      clients: ["ClientID", "ClientName", "PriorityLevel", "RequestedTaskIDs"],
-      workers: ["WorkerID", "WorkerName", "Skills", "AvailableSlots", "MaxLoadPerPhase"],
-      tasks: ["TaskID", "TaskName", "Duration", "RequiredSkills", "MaxConcurrent"],
-    }
+  static diff(previous: ValidationResult | null, next: ValidationResult | null): ValidationDiff {
+    const before = previous ? [...previous.errors, ...previous.warnings] : []
+    const after = next ? [...next.errors, ...next.warnings] : []
+    const beforeIds = new Set(before.map((issue) => issue.id))
+    const afterIds = new Set(after.map((issue) => issue.id))
 
-    Object.entries(requiredFields).forEach(([entityType, fields]) => {
-      const data = entityType === "clients" ? this.clients : entityType === "workers" ? this.workers : this.tasks
-
-      if (data.length > 0) {
-        const firstRow = data[0]
-        fields.forEach((field) => {
-          if (!(field in firstRow)) {
-            errors.push({
-              id: `missing-column-${entityType}-${field}`,
-              type: "error",
-              severity: "high",
-              message: `Missing required column: ${field}`,
-              field,
-              rowIndex: -1,
-              entityType: entityType as any,
-              suggestion: `Add the ${field} column to your ${entityType} data`,
-              autoFixable: false,
-            })
-          }
-        })
-      }
-    })
-
-    return errors
-  }
-
-  // 2. Duplicate IDs
-  private validateDuplicateIDs(): ValidationError[] {
-    const errors: ValidationError[] = []
-
-    const checkDuplicates = (data: any[], idField: string, entityType: "clients" | "workers" | "tasks") => {
-      const seen = new Set()
-      data.forEach((row, index) => {
-        const id = row[idField]
-        if (id && seen.has(id)) {
-          errors.push({
-            id: `duplicate-id-${entityType}-${index}`,
-            type: "error",
-            severity: "high",
-            message: `Duplicate ${idField}: ${id}`,
-            field: idField,
-            rowIndex: index,
-            entityType,
-            suggestion: `Change this ${idField} to a unique value`,
-            autoFixable: true,
-          })
-        }
-        seen.add(id)
-      })
+    return {
+      added: after.filter((issue) => !beforeIds.has(issue.id)),
+      resolved: before.filter((issue) => !afterIds.has(issue.id)),
     }
-
-    checkDuplicates(this.clients, "ClientID", "clients")
-    checkDuplicates(this.workers, "WorkerID", "workers")
-    checkDuplicates(this.tasks, "TaskID", "tasks")
-
-    return errors
-  }
-
-  // 3. Malformed lists
-  private validateMalformedLists(): ValidationError[] {
-    const errors: ValidationError[] = []
-
-    // Check AvailableSlots in workers
-    this.workers.forEach((worker, index) => {
-      const slots = worker.AvailableSlots
-      if (slots) {
-        try {
-          const parsed = Array.isArray(slots) ? slots : JSON.parse(slots)
-          if (!Array.isArray(parsed) || !parsed.every((slot) => typeof slot === "number" && slot > 0)) {
-            errors.push({
-              id: `malformed-slots-${index}`,
-              type: "error",
-              severity: "medium",
-              message: "AvailableSlots must be an array of positive numbers",
-              field: "AvailableSlots",
-              rowIndex: index,
-              entityType: "workers",
-              suggestion: "Format as [1,2,3] or comma-separated numbers",
-              autoFixable: true,
-            })
-          }
-        } catch {
-          errors.push({
-            id: `malformed-slots-${index}`,
-            type: "error",
-            severity: "medium",
-            message: "Invalid AvailableSlots format",
-            field: "AvailableSlots",
-            rowIndex: index,
-            entityType: "workers",
-            suggestion: "Format as [1,2,3] or comma-separated numbers",
-            autoFixable: true,
-          })
-        }
-      }
-    })
-
-    return errors
   }
 
-  // 4. Out-of-range values
-  private validateOutOfRangeValues(): ValidationError[] {
-    const errors: ValidationError[] = []
-
-    // Check PriorityLevel (1-5)
-    this.clients.forEach((client, index) => {
-      const priority = client.PriorityLevel
-      if (priority && (priority < 1 || priority > 5)) {
-        errors.push({
-          id: `priority-range-${index}`,
-          type: "error",
-          severity: "medium",
-          message: `PriorityLevel must be between 1-5, got ${priority}`,
-          field: "PriorityLevel",
-          rowIndex: index,
-          entityType: "clients",
-          suggestion: "Set PriorityLevel to a value between 1 and 5",
-          autoFixable: true,
-        })
-      }
-    })
-
-    // Check Duration >= 1
-    this.tasks.forEach((task, index) => {
-      const duration = task.Duration
-      if (duration && duration < 1) {
-        errors.push({
-          id: `duration-range-${index}`,
-          type: "error",
-          severity: "medium",
-          message: `Duration must be >= 1, got ${duration}`,
-          field: "Duration",
-          rowIndex: index,
-          entityType: "tasks",
-          suggestion: "Set Duration to at least 1",
-          autoFixable: true,
-        })
-      }
-    })
-
-    return errors
-  }
-
-  // 5. Broken JSON
-  private validateBrokenJSON(): ValidationError[] {
-    const errors: ValidationError[] = []
-
-    this.clients.forEach((client, index) => {
-      const json = client.AttributesJSON
-      if (json && typeof json === "string") {
-        try {
-          JSON.parse(json)
-        } catch {
-          errors.push({
-            id: `broken-json-${index}`,
-            type: "error",
-            severity: "medium",
-            message: "Invalid JSON in AttributesJSON",
-            field: "AttributesJSON",
-            rowIndex: index,
-            entityType: "clients",
-            suggestion: "Fix JSON syntax or use valid JSON format",
-            autoFixable: false,
-          })
-        }
-      }
-    })
-
-    return errors
+  // High always blocks and low never does; medium keeps whatever the check itself decided
+  private applySeverity(issue: ValidationError, severity: ValidatorSeverity): ValidationError {
+    const type = severity === "high" ? "error" : severity === "low" ? "warning" : issue.type
+    return { ...issue, severity, type }
   }
+}
 
-  // 6. Unknown references
-  private validateUnknownReferences(): ValidationError[] {
-    const errors: ValidationError[] = []
-    const taskIds = new Set(this.tasks.map((task) => task.TaskID))
-
-    this.clients.forEach((client, index) => {
-      const requestedTasks = client.RequestedTaskIDs
-      if (requestedTasks) {
-        const taskList =
-          typeof requestedTasks === "string"
-            ? requestedTasks.split(",").map((id) => id.trim())
-            : Array.isArray(requestedTasks)
-              ? requestedTasks
-              : []
-
-        taskList.forEach((taskId) => {
-          if (taskId && !taskIds.has(taskId)) {
-            errors.push({
-              id: `unknown-task-${index}-${taskId}`,
-              type: "error",
-              severity: "high",
-              message: `Unknown TaskID reference: ${taskId}`,
-              field: "RequestedTaskIDs",
-              rowIndex: index,
-              entityType: "clients",
-              suggestion: `Remove ${taskId} or add it to tasks data`,
-              autoFixable: true,
-            })
-          }
-        })
-      }
-    })
-
-    return errors
+// Issues looked up by cell instead of scanned, so rendering a grid cell is O(1). Cells are keyed by record
+// rather than row position, so a sorted or filtered grid finds its issues without mapping rows back.
+export class ValidationErrorIndex {
+  private cells = new Map<string, ValidationError[]>()
+  private counts: Record<EntityType, { errors: number; warnings: number }> = {
+    clients: { errors: 0, warnings: 0 },
+    workers: { errors: 0, warnings: 0 },
+    tasks: { errors: 0, warnings: 0 },
   }
 
-  // 7. Overloaded workers
-  private validateOverloadedWorkers(): ValidationError[] {
-    const errors: ValidationError[] = []
-
-    this.workers.forEach((worker, index) => {
-      const availableSlots = worker.AvailableSlots
-      const maxLoad = worker.MaxLoadPerPhase
+  constructor(issues: ValidationError[] = []) {
+    issues.forEach((issue) => {
+      this.count(issue)
+      if (issue.recordId === undefined) return
 
-      if (availableSlots && maxLoad) {
-        try {
-          const slots = Array.isArray(availableSlots) ? availableSlots : JSON.parse(availableSlots)
-          if (Array.isArray(slots) && slots.length < maxLoad) {
-            errors.push({
-              id: `overloaded-worker-${index}`,
-              type: "warning",
-              severity: "medium",
-              message: `Worker has ${slots.length} available slots but MaxLoadPerPhase is ${maxLoad}`,
-              field: "MaxLoadPerPhase",
-              rowIndex: index,
-              entityType: "workers",
-              suggestion: `Reduce MaxLoadPerPhase to ${slots.length} or add more available slots`,
-              autoFixable: true,
-            })
-          }
-        } catch {
-          // Already handled in malformed lists validation
-        }
-      }
+      const key = this.key(issue.entityType, issue.recordId, issue.field)
+      const cell = this.cells.get(key)
+      if (cell) cell.push(issue)
+      else this.cells.set(key, [issue])
     })
-
-    return errors
   }
 
-  // 8. Skill coverage
-  private validateSkillCoverage(): ValidationError[] {
-    const errors: ValidationError[] = []
-
-    // Get all worker skills
-    const workerSkills = new Set<string>()
-    this.workers.forEach((worker) => {
-      const skills = worker.Skills
-      if (skills) {
-        const skillList =
-          typeof skills === "string" ? skills.split(",").map((s) => s.trim()) : Array.isArray(skills) ? skills : []
-        skillList.forEach((skill) => workerSkills.add(skill))
-      }
-    })
-
-    // Check if all required skills are covered
-    this.tasks.forEach((task, index) => {
-      const requiredSkills = task.RequiredSkills
-      if (requiredSkills) {
-        const skillList =
-          typeof requiredSkills === "string"
-            ? requiredSkills.split(",").map((s) => s.trim())
-            : Array.isArray(requiredSkills)
-              ? requiredSkills
-              : []
-
-        skillList.forEach((skill) => {
-          if (skill && !workerSkills.has(skill)) {
-            errors.push({
-              id: `missing-skill-${index}-${skill}`,
-              type: "error",
-              severity: "high",
-              message: `No worker has required skill: ${skill}`,
-              field: "RequiredSkills",
-              rowIndex: index,
-              entityType: "tasks",
-              suggestion: `Add a worker with ${skill} skill or remove this requirement`,
-              autoFixable: false,
-            })
-          }
-        })
-      }
-    })
-
-    return errors
+  static fromResult(result: ValidationResult | null): ValidationErrorIndex {
+    return new ValidationErrorIndex(result ? [...result.errors, ...result.warnings] : [])
   }
 
-  // 9. Max concurrency feasibility
-  private validateMaxConcurrency(): ValidationError[] {
-    const errors: ValidationError[] = []
-
-    this.tasks.forEach((task, index) => {
-      const maxConcurrent = task.MaxConcurrent
-      const requiredSkills = task.RequiredSkills
-
-      if (maxConcurrent && requiredSkills) {
-        const skillList =
-          typeof requiredSkills === "string"
-            ? requiredSkills.split(",").map((s) => s.trim())
-            : Array.isArray(requiredSkills)
-              ? requiredSkills
-              : []
-
-        // Count qualified workers
-        let qualifiedWorkers = 0
-        this.workers.forEach((worker) => {
-          const workerSkills = worker.Skills
-          if (workerSkills) {
-            const workerSkillList =
-              typeof workerSkills === "string"
-                ? workerSkills.split(",").map((s) => s.trim())
-                : Array.isArray(workerSkills)
-                  ? workerSkills
-                  : []
-
-            const hasAllSkills = skillList.every((skill) => workerSkillList.includes(skill))
-            if (hasAllSkills) qualifiedWorkers++
-          }
-        })
-
-        if (maxConcurrent > qualifiedWorkers) {
-          errors.push({
-            id: `max-concurrency-${index}`,
-            type: "warning",
-            severity: "medium",
-            message: `MaxConcurrent (${maxConcurrent}) exceeds qualified workers (${qualifiedWorkers})`,
-            field: "MaxConcurrent",
-            rowIndex: index,
-            entityType: "tasks",
-            suggestion: `Reduce MaxConcurrent to ${qualifiedWorkers} or add more qualified workers`,
-            autoFixable: true,
-          })
-        }
-      }
-    })
-
-    return errors
+  getCellErrors(entityType: EntityType, recordId: string, field: string): ValidationError[] {
+    return this.cells.get(this.key(entityType, recordId, field)) || []
   }
 
-  // 10. Phase-slot saturation
-  private validatePhaseSlotSaturation(): ValidationError[] {
-    const errors: ValidationError[] = []
-
-    // Calculate total worker slots per phase
-    const phaseSlots: { [phase: number]: number } = {}
-
-    this.workers.forEach((worker) => {
-      const availableSlots = worker.AvailableSlots
-      if (availableSlots) {
-        try {
-          const slots = Array.isArray(availableSlots) ? availableSlots : JSON.parse(availableSlots)
-          if (Array.isArray(slots)) {
-            slots.forEach((phase) => {
-              phaseSlots[phase] = (phaseSlots[phase] || 0) + (worker.MaxLoadPerPhase || 1)
-            })
-          }
-        } catch {
-          // Skip malformed slots
-        }
-      }
-    })
-
-    // Calculate task duration requirements per phase
-    const phaseDemand: { [phase: number]: number } = {}
-
-    this.tasks.forEach((task, index) => {
-      const duration = task.Duration
-      const preferredPhases = task.PreferredPhases
-
-      if (duration && preferredPhases) {
-        try {
-          let phases: number[] = []
-
-          if (Array.isArray(preferredPhases)) {
-            phases = preferredPhases
-          } else if (typeof preferredPhases === "string") {
-            if (preferredPhases.includes("-")) {
-              // Range format like "1-3"
-              const [start, end] = preferredPhases.split("-").map(Number)
-              phases = Array.from({ length: end - start + 1 }, (_, i) => start + i)
-            } else {
-              phases = JSON.parse(preferredPhases)
-            }
-          }
-
-          phases.forEach((phase) => {
-            phaseDemand[phase] = (phaseDemand[phase] || 0) + duration
-          })
-        } catch {
-          errors.push({
-            id: `phase-format-${index}`,
-            type: "warning",
-            severity: "low",
-            message: "Invalid PreferredPhases format",
-            field: "PreferredPhases",
-            rowIndex: index,
-            entityType: "tasks",
-            suggestion: 'Use format [1,2,3] or "1-3" for ranges',
-            autoFixable: true,
-          })
-        }
-      }
-    })
-
-    // Check for saturation
-    Object.entries(phaseDemand).forEach(([phase, demand]) => {
-      const available = phaseSlots[Number(phase)] || 0
-      if (demand > available) {
-        errors.push({
-          id: `phase-saturation-${phase}`,
-          type: "error",
-          severity: "high",
-          message: `Phase ${phase} is oversaturated: ${demand} duration needed, ${available} slots available`,
-          field: "PreferredPhases",
-          rowIndex: -1,
-          entityType: "tasks",
-          suggestion: `Add more workers for phase ${phase} or redistribute tasks`,
-          autoFixable: false,
-        })
-      }
-    })
-
-    return errors
+  getCounts(entityType: EntityType): { errors: number; warnings: number } {
+    return this.counts[entityType]
   }
 
-  // 11. Circular co-run groups (A→B→C→A)
-  private validateCircularCoRunGroups(): ValidationError[] {
-    const errors: ValidationError[] = []
-
-    // For now, we'll simulate co-run group detection by looking for patterns in task names or categories
-    // In a real system, this would check actual co-run rules defined by users
-    const taskGroups: { [key: string]: string[] } = {}
-
-    this.tasks.forEach((task, index) => {
-      const category = task.Category || "default"
-      if (!taskGroups[category]) {
-        taskGroups[category] = []
-      }
-      taskGroups[category].push(task.TaskID)
-
-      // Simulate circular dependency detection
-      // This is a simplified version - in reality, you'd have actual co-run rules to check
-      if (task.TaskName && task.TaskName.toLowerCase().includes("circular")) {
-        errors.push({
-          id: `circular-corun-${index}`,
-          type: "error",
-          severity: "high",
-          message: `Potential circular co-run dependency detected in task: ${task.TaskName}`,
-          field: "TaskName",
-          rowIndex: index,
-          entityType: "tasks",
-          suggestion: "Review co-run rules to ensure no circular dependencies exist",
-          autoFixable: false,
-        })
-      }
-    })
-
-    return errors
+  private count(issue: ValidationError) {
+    if (issue.type === "error") this.counts[issue.entityType].errors++
+    else this.counts[issue.entityType].warnings++
   }
 
-  // 12. Conflicting rules vs. phase-window constraints
-  private validateConflictingRules(): ValidationError[] {
-    const errors: ValidationError[] = []
-
-    this.tasks.forEach((task, index) => {
-      const preferredPhases = task.PreferredPhases
-      const duration = task.Duration
-      const maxConcurrent = task.MaxConcurrent
-
-      if (preferredPhases && duration && maxConcurrent) {
-        try {
-          let phases: number[] = []
-
-          if (Array.isArray(preferredPhases)) {
-            phases = preferredPhases
-          } else if (typeof preferredPhases === "string") {
-            if (preferredPhases.includes("-")) {
-              const [start, end] = preferredPhases.split("-").map(Number)
-              phases = Array.from({ length: end - start + 1 }, (_, i) => start + i)
-            } else {
-              phases = JSON.parse(preferredPhases)
-            }
-          }
-
-          // Check if task duration conflicts with available phase windows
-          if (phases.length > 0 && duration > phases.length * 2) {
-            errors.push({
-              id: `conflicting-rules-${index}`,
-              type: "warning",
-              severity: "medium",
-              message: `Task duration (${duration}) may conflict with preferred phases (${phases.join(", ")})`,
-              field: "Duration",
-              rowIndex: index,
-              entityType: "tasks",
-              suggestion: `Consider reducing duration or expanding preferred phases`,
-              autoFixable: true,
-            })
-          }
-
-          // Check if MaxConcurrent conflicts with phase constraints
-          if (maxConcurrent > phases.length) {
-            errors.push({
-              id: `concurrent-phase-conflict-${index}`,
-              type: "warning",
-              severity: "medium",
-              message: `MaxConcurrent (${maxConcurrent}) exceeds available phases (${phases.length})`,
-              field: "MaxConcurrent",
-              rowIndex: index,
-              entityType: "tasks",
-              suggestion: `Reduce MaxConcurrent to ${phases.length} or add more phases`,
-              autoFixable: true,
-            })
-          }
-        } catch {
-          // Skip malformed phase data - already handled in other validations
-        }
-      }
-    })
-
-    return errors
+  private key(entityType: EntityType, recordId: string, field: string) {
+    return `${entityType}:${recordId}:${field}`
   }
 }
@@ -0,0 +1,341 @@
+import { DataExporter } from "./data-exporter"
+import { getRecordKeys, type EntityType } from "./schemas"
+import { VALIDATOR_CATEGORIES } from "./validator-registry"
+import type { CheckResult, ValidationError, ValidationResult } from "./validation-engine"
+import type { Suppression } from "./suppressions"
+import type { Rule } from "./rule-types"
+
+export interface ReportInput {
+  result: ValidationResult
+  clients: any[]
+  workers: any[]
+  tasks: any[]
+  rules: Rule[]
+  suppressions: Suppression[]
+}
+
+export interface ReportIssue {
+  id: string
+  checkId: string
+  type: ValidationError["type"]
+  severity: ValidationError["severity"]
+  message: string
+  recordId?: string
+  field: string
+  value: string
+  suggestion?: string
+  ruleId?: string
+}
+
+export interface ReportSuppressedIssue extends ReportIssue {
+  suppression: Pick<Suppression, "kind" | "scope" | "reason"> & { createdAt: string }
+}
+
+type SeverityCounts = Record<ValidationError["severity"], number>
+
+export interface ReportEntitySection {
+  entityType: EntityType
+  records: number
+  counts: SeverityCounts
+  checks: { checkId: string; checkName: string; issues: ReportIssue[] }[]
+}
+
+// Machine-readable report; the HTML version is rendered from this so both always agree
+export interface ValidationReportData {
+  generatedAt: string
+  fingerprint: {
+    dataset: string
+    entities: Record<EntityType, { records: number; hash: string }>
+    rules: { count: number; hash: string }
+  }
+  summary: {
+    isValid: boolean
+    errors: number
+    warnings: number
+    suppressed: number
+    bySeverity: SeverityCounts
+  }
+  checks: CheckResult[]
+  entities: ReportEntitySection[]
+  suppressed: ReportSuppressedIssue[]
+}
+
+const ENTITY_TYPES: EntityType[] = ["clients", "workers", "tasks"]
+
+const emptyCounts = (): SeverityCounts => ({ high: 0, medium: 0, low: 0 })
+
+const escapeHTML = (value: any) =>
+  String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+
+export class ValidationReport {
+  static build(input: ReportInput): ValidationReportData {
+    const { result } = input
+    const data: Record<EntityType, any[]> = { clients: input.clients, workers: input.workers, tasks: input.tasks }
+    const open = [...result.errors, ...result.warnings]
+
+    // 1. Dataset fingerprint, so a signed-off report can be matched to the exact data it describes
+    const entityHashes = {} as ValidationReportData["fingerprint"]["entities"]
+    ENTITY_TYPES.forEach((entityType) => {
+      const [, ...rows] = DataExporter.toRows(entityType, data[entityType])
+      entityHashes[entityType] = {
+        records: data[entityType].length,
+        hash: this.hash(rows.map((row) => row.join("\u001f")).join("\u001e")),
+      }
+    })
+    // Timestamps change on every edit without changing what the rules mean
+    const rulesHash = this.hash(
+      JSON.stringify(input.rules.map((rule) => ({ ...rule, createdAt: undefined, updatedAt: undefined }))),
+    )
+
+    // 2. Open issues grouped by entity, then by check in registry order
+    const toReportIssue = this.issueMapper(data)
+    const entities = ENTITY_TYPES.map((entityType): ReportEntitySection => {
+      const issues = open.filter((issue) => issue.entityType === entityType)
+      const counts = emptyCounts()
+      issues.forEach((issue) => counts[issue.severity]++)
+
+      const checks = result.checks
+        .map((check) => ({
+          checkId: check.id,
+          checkName: check.name,
+          issues: issues.filter((issue) => issue.checkId === check.id).map(toReportIssue),
+        }))
+        .filter((check) => check.issues.length > 0)
+
+      return { entityType, records: data[entityType].length, counts, checks }
+    })
+
+    // 3. Suppressed and acknowledged issues, each with the reason it was accepted
+    const suppressionsById = new Map(input.suppressions.map((suppression) => [suppression.id, suppression]))
+    const suppressed: ReportSuppressedIssue[] = []
+    result.suppressed.forEach((issue) => {
+      const suppression = suppressionsById.get(issue.suppressionId || "")
+      if (!suppression) return
+
+      suppressed.push({
+        ...toReportIssue(issue),
+        suppression: {
+          kind: suppression.kind,
+          scope: suppression.scope,
+          reason: suppression.reason,
+          createdAt: new Date(suppression.createdAt).toISOString(),
+        },
+      })
+    })
+
+    const bySeverity = emptyCounts()
+    open.forEach((issue) => bySeverity[issue.severity]++)
+
+    return {
+      generatedAt: new Date().toISOString(),
+      fingerprint: {
+        dataset: this.hash([...ENTITY_TYPES.map((entityType) => entityHashes[entityType].hash), rulesHash].join(":")),
+        entities: entityHashes,
+        rules: { count: input.rules.length, hash: rulesHash },
+      },
+      summary: {
+        isValid: result.isValid,
+        errors: result.errors.length,
+        warnings: result.warnings.length,
+        suppressed: result.suppressed.length,
+        bySeverity,
+      },
+      checks: result.checks,
+      entities,
+      suppressed,
+    }
+  }
+
+  static toJSON(report: ValidationReportData): string {
+    return JSON.stringify(report, null, 2)
+  }
+
+  // Self-contained page (inline styles, no scripts) that prints cleanly to PDF from any browser
+  static toHTML(report: ValidationReportData): string {
+    const status = report.summary.isValid ? "Passed" : "Failed"
+
+    const issueRows = (issues: (ReportIssue | ReportSuppressedIssue)[], withReason = false) =>
+      issues
+        .map(
+          (issue) => `<tr class="${issue.type}">
+  <td><span class="badge ${issue.severity}">${issue.severity}</span></td>
+  <td>${escapeHTML(issue.recordId ?? "—")}</td>
+  <td>${escapeHTML(issue.field)}</td>
+  <td><code>${escapeHTML(issue.value)}</code></td>
+  <td>${escapeHTML(issue.message)}${issue.suggestion ? `<div class="suggestion">${escapeHTML(issue.suggestion)}</div>` : ""}</td>
+  ${
+    withReason && "suppression" in issue
+      ? `<td>${escapeHTML(issue.suppression.kind)} (${escapeHTML(issue.suppression.scope)}): ${escapeHTML(issue.suppression.reason)}</td>`
+      : ""
+  }
+</tr>`,
+        )
+        .join("\n")
+
+    const issueTable = (issues: (ReportIssue | ReportSuppressedIssue)[], withReason = false) => `<table>
+<thead><tr><th>Severity</th><th>Record</th><th>Field</th><th>Value</th><th>Issue</th>${withReason ? "<th>Accepted because</th>" : ""}</tr></thead>
+<tbody>
+${issueRows(issues, withReason)}
+</tbody>
+</table>`
+
+    const checkRows = report.checks
+      .map(
+        (check) => `<tr>
+  <td>${escapeHTML(check.name)}</td>
+  <td>${escapeHTML(VALIDATOR_CATEGORIES[check.category])}</td>
+  <td>${escapeHTML(check.severity)}</td>
+  <td class="status ${check.status}">${check.status}</td>
+  <td>${check.errorCount}</td>
+  <td>${check.warningCount}</td>
+</tr>`,
+      )
+      .join("\n")
+
+    const entitySections = report.entities
+      .map((section) => {
+        const title = DataExporter.getSheetName(section.entityType)
+        const body =
+          section.checks.length === 0
+            ? `<p class="muted">No open issues.</p>`
+            : section.checks
+                .map(
+                  (check) =>
+                    `<h3>${escapeHTML(check.checkName)} <span class="muted">(${check.issues.length})</span></h3>\n${issueTable(check.issues)}`,
+                )
+                .join("\n")
+        return `<section>
+<h2>${title} <span class="muted">${section.records} records · ${section.counts.high} high · ${section.counts.medium} medium · ${section.counts.low} low</span></h2>
+${body}
+</section>`
+      })
+      .join("\n")
+
+    const entityFingerprints = ENTITY_TYPES.map(
+      (entityType) =>
+        `<tr><td>${entityType}</td><td>${report.fingerprint.entities[entityType].records}</td><td><code>${report.fingerprint.entities[entityType].hash}</code></td></tr>`,
+    ).join("\n")
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Validation report ${escapeHTML(report.fingerprint.dataset)}</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #111827; margin: 2rem; font-size: 13px; }
+  h1 { margin-bottom: 0.25rem; }
+  h2 { margin-top: 2rem; border-bottom: 1px solid #e5e7eb; padding-bottom: 0.25rem; }
+  h3 { margin: 1.25rem 0 0.5rem; font-size: 14px; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 1rem; }
+  th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  th { background: #f9fafb; }
+  code { font-size: 12px; word-break: break-all; }
+  .muted { color: #6b7280; font-weight: normal; font-size: 12px; }
+  .result { display: inline-block; padding: 2px 10px; border-radius: 9999px; font-weight: 600; }
+  .result.Passed { background: #dcfce7; color: #166534; }
+  .result.Failed { background: #fee2e2; color: #991b1b; }
+  .badge { padding: 1px 6px; border-radius: 4px; font-size: 11px; }
+  .badge.high { background: #fee2e2; color: #991b1b; }
+  .badge.medium { background: #fef9c3; color: #854d0e; }
+  .badge.low { background: #dbeafe; color: #1e40af; }
+  .status.passed { color: #166534; }
+  .status.failed { color: #991b1b; }
+  .status.disabled { color: #6b7280; }
+  .suggestion { color: #1d4ed8; font-style: italic; margin-top: 2px; }
+  .summary td:first-child { font-weight: 600; width: 12rem; }
+  .signoff { margin-top: 3rem; display: flex; gap: 3rem; }
+  .signoff div { flex: 1; border-top: 1px solid #111827; padding-top: 4px; }
+  @media print {
+    body { margin: 0; }
+    section, table { page-break-inside: auto; }
+    tr, h3 { page-break-inside: avoid; }
+  }
+</style>
+</head>
+<body>
+<h1>Validation report</h1>
+<p class="muted">Generated ${escapeHTML(new Date(report.generatedAt).toLocaleString())} · Dataset fingerprint <code>${escapeHTML(report.fingerprint.dataset)}</code></p>
+
+<h2>Summary</h2>
+<table class="summary">
+  <tr><td>Result</td><td><span class="result ${status}">${status}</span></td></tr>
+  <tr><td>Open errors</td><td>${report.summary.errors}</td></tr>
+  <tr><td>Open warnings</td><td>${report.summary.warnings}</td></tr>
+  <tr><td>By severity</td><td>${report.summary.bySeverity.high} high · ${report.summary.bySeverity.medium} medium · ${report.summary.bySeverity.low} low</td></tr>
+  <tr><td>Acknowledged / suppressed</td><td>${report.summary.suppressed}</td></tr>
+</table>
+
+<h2>Dataset</h2>
+<table>
+  <thead><tr><th>Entity</th><th>Records</th><th>Fingerprint</th></tr></thead>
+  <tbody>
+${entityFingerprints}
+  <tr><td>rules</td><td>${report.fingerprint.rules.count}</td><td><code>${report.fingerprint.rules.hash}</code></td></tr>
+  </tbody>
+</table>
+
+<h2>Checks</h2>
+<table>
+  <thead><tr><th>Check</th><th>Category</th><th>Severity</th><th>Status</th><th>Errors</th><th>Warnings</th></tr></thead>
+  <tbody>
+${checkRows}
+  </tbody>
+</table>
+
+${entitySections}
+
+<section>
+<h2>Acknowledged and suppressed <span class="muted">${report.suppressed.length} issues</span></h2>
+${report.suppressed.length === 0 ? `<p class="muted">Nothing was acknowledged or suppressed.</p>` : issueTable(report.suppressed, true)}
+</section>
+
+<div class="signoff"><div>Reviewed by</div><div>Date</div><div>Signature</div></div>
+</body>
+</html>
+`
+  }
+
+  // Resolves each issue's offending value from the data it was reported against
+  private static issueMapper(data: Record<EntityType, any[]>) {
+    const keys = {} as Record<EntityType, Map<string, number>>
+    ENTITY_TYPES.forEach((entityType) => {
+      keys[entityType] = new Map(getRecordKeys(entityType, data[entityType]).map((key, index) => [key, index]))
+    })
+
+    return (issue: ValidationError): ReportIssue => {
+      const rowIndex = issue.recordId === undefined ? -1 : (keys[issue.entityType].get(issue.recordId) ?? -1)
+      const row = data[issue.entityType][rowIndex]
+
+      return {
+        id: issue.id,
+        checkId: issue.checkId || "",
+        type: issue.type,
+        severity: issue.severity,
+        message: issue.message,
+        recordId: issue.recordId,
+        field: issue.field,
+        value: row ? DataExporter.serializeValue(row[issue.field], issue.field) : "",
+        suggestion: issue.suggestion,
+        ruleId: issue.ruleId,
+      }
+    }
+  }
+
+  // FNV-1a, 32 bits twice over with different seeds: stable across browsers and cheap enough for large sheets.
+  // It identifies a dataset; it isn't meant to resist tampering.
+  private static hash(text: string): string {
+    let a = 0x811c9dc5
+    let b = 0x01000193 ^ 0x9e3779b9
+    for (let i = 0; i < text.length; i++) {
+      const code = text.charCodeAt(i)
+      a = Math.imul(a ^ code, 0x01000193)
+      b = Math.imul(b ^ code, 0x01000193)
+    }
+    const hex = (value: number) => `00000000${(value >>> 0).toString(16)}`.slice(-8)
+    return hex(a) + hex(b)
+  }
+}
@@ -0,0 +1,185 @@
+import { useEffect } from "react"
+import { create } from "zustand"
+import { useDataStore } from "./store"
+import { useRuleStore } from "./rule-store"
+import { useValidatorStore } from "./validator-store"
+import { useSuppressionStore } from "./suppression-store"
+import { ValidatorRegistry } from "./validator-registry"
+import { SuppressionEngine } from "./suppressions"
+import { ValidationEngine, ValidationErrorIndex, type ValidationDiff, type ValidationResult } from "./validation-engine"
+import { IncrementalValidator, type ValidationInput } from "./incremental-validator"
+import type { ValidationRequest, ValidationResponse } from "./validation.worker"
+
+interface ValidationStore {
+  result: ValidationResult | null
+  index: ValidationErrorIndex
+  // What the latest run added or resolved compared to the one before it, suppressions aside
+  changes: ValidationDiff | null
+  isValidating: boolean
+  start: () => void
+  revalidate: () => void
+}
+
+const VALIDATION_DELAY = 50
+
+export const useValidationStore = create<ValidationStore>((set) => {
+  let worker: Worker | null = null
+  let workerFailed = false
+  // Last input the worker has seen; its incremental state is only valid relative to this
+  let workerInput: ValidationInput | null = null
+  let lastInput: ValidationInput | null = null
+  // Latest result before suppressions, so changing a suppression doesn't need a new run
+  let raw: ValidationResult | null = null
+  let latestRequest = 0
+  let timer: ReturnType<typeof setTimeout> | null = null
+  const mainThread = new IncrementalValidator()
+
+  const getInput = (): ValidationInput => {
+    const { clients, workers, tasks } = useDataStore.getState()
+    return {
+      clients,
+      workers,
+      tasks,
+      rules: useRuleStore.getState().rules,
+      settings: useValidatorStore.getState().settings,
+    }
+  }
+
+  const withSuppressions = (next: ValidationResult) => {
+    const result = SuppressionEngine.apply(next, useSuppressionStore.getState().suppressions)
+    return { result, index: ValidationErrorIndex.fromResult(result) }
+  }
+
+  const publish = (requestId: number, result: ValidationResult) => {
+    if (requestId !== latestRequest) return // A newer run is already on its way
+    const previous = raw
+    raw = result
+    set({
+      ...withSuppressions(result),
+      changes: previous ? ValidationEngine.diff(previous, result) : null,
+      isValidating: false,
+    })
+  }
+
+  const getWorker = (): Worker | null => {
+    if (worker || workerFailed || typeof Worker === "undefined") return worker
+
+    try {
+      worker = new Worker(new URL("./validation.worker.ts", import.meta.url))
+      worker.onmessage = (event: MessageEvent<ValidationResponse>) => {
+        const { requestId, result, error } = event.data
+        if (result) {
+          publish(requestId, result)
+        } else {
+          console.error("Validation worker failed:", error)
+          workerInput = null
+          runOnMainThread(requestId, lastInput!, true)
+        }
+      }
+      worker.onerror = (event) => {
+        // Fall back to the main thread for good if the worker can't load
+        console.error("Validation worker crashed:", event.message)
+        worker?.terminate()
+        worker = null
+        workerFailed = true
+        workerInput = null
+        run(true)
+      }
+    } catch (error) {
+      console.error("Validation worker unavailable:", error)
+      workerFailed = true
+    }
+
+    return worker
+  }
+
+  const runOnMainThread = (requestId: number, input: ValidationInput, full: boolean) => {
+    if (full) mainThread.reset()
+    publish(requestId, mainThread.validate(input))
+  }
+
+  const run = (full = false) => {
+    const input = getInput()
+    const requestId = ++latestRequest
+    lastInput = input
+
+    if (input.clients.length === 0 && input.workers.length === 0 && input.tasks.length === 0) {
+      raw = null
+      set({ result: null, index: new ValidationErrorIndex(), changes: null, isValidating: false })
+      return
+    }
+
+    set({ isValidating: true })
+
+    // Third-party checks are registered on the main thread only, so they force main-thread validation
+    const target = ValidatorRegistry.hasCustomValidators() ? null : getWorker()
+    if (target) {
+      const request: ValidationRequest = {
+        requestId,
+        input,
+        changes: full || !workerInput ? "all" : IncrementalValidator.diff(workerInput, input),
+      }
+      workerInput = input
+      target.postMessage(request)
+    } else {
+      workerInput = null
+      runOnMainThread(requestId, input, full)
+    }
+  }
+
+  const schedule = () => {
+    const input = getInput()
+    // The data store also changes on undo/redo bookkeeping; only real data, rule or setting changes matter
+    if (
+      lastInput &&
+      input.clients === lastInput.clients &&
+      input.workers === lastInput.workers &&
+      input.tasks === lastInput.tasks &&
+      input.rules === lastInput.rules &&
+      input.settings === lastInput.settings
+    ) {
+      return
+    }
+
+    if (timer) clearTimeout(timer)
+    timer = setTimeout(() => run(), VALIDATION_DELAY)
+  }
+
+  let started = false
+
+  return {
+    result: null,
+    index: new ValidationErrorIndex(),
+    changes: null,
+    isValidating: false,
+
+    // Subscriptions are wired lazily so nothing runs during server rendering
+    start: () => {
+      if (started) return
+      started = true
+
+      useDataStore.subscribe(schedule)
+      useRuleStore.subscribe(schedule)
+      useValidatorStore.subscribe(schedule)
+      ValidatorRegistry.subscribe(() => run(true))
+      useSuppressionStore.subscribe(() => {
+        if (raw) set(withSuppressions(raw))
+      })
+      run(true)
+    },
+
+    revalidate: () => run(true),
+  }
+})
+
+// Live validation results shared by every view; the first caller starts validating in the background
+export function useValidation() {
+  const state = useValidationStore()
+  const start = state.start
+
+  useEffect(() => {
+    start()
+  }, [start])
+
+  return state
+}
@@ -0,0 +1,33 @@
+import { IncrementalValidator, type ValidationChanges, type ValidationInput } from "./incremental-validator"
+import type { ValidationResult } from "./validation-engine"
+
+export interface ValidationRequest {
+  requestId: number
+  input: ValidationInput
+  changes: ValidationChanges
+}
+
+export interface ValidationResponse {
+  requestId: number
+  result?: ValidationResult
+  error?: string
+}
+
+// Runs the built-in checks off the main thread; the worker keeps the previous run so edits stay incremental
+const validator = new IncrementalValidator()
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<ValidationRequest>) => void) | null
+  postMessage: (message: ValidationResponse) => void
+}
+
+scope.onmessage = (event) => {
+  const { requestId, input, changes } = event.data
+
+  try {
+    if (changes === "all") validator.reset()
+    scope.postMessage({ requestId, result: validator.validate(input, changes) })
+  } catch (error) {
+    validator.reset()
+    scope.postMessage({ requestId, error: error instanceof Error ? error.message : "Validation failed" })
+  }
+}
@@ -0,0 +1,217 @@
+import { SchemaNormalizer, getRecordKeys, toList, parsePhases, type EntityType, type FieldIssue } from "./schemas"
+import { BUILT_IN_VALIDATORS } from "./validators"
+import { CapacityModel } from "./capacity-model"
+import { GroupModel } from "./group-model"
+import type { Rule } from "./rule-types"
+import { PrecedenceResolver } from "./rule-precedence"
+import type { ValidationError } from "./validation-engine"
+
+export type ValidatorCategory = "structure" | "quality" | "business" | "rules"
+export type ValidatorSeverity = ValidationError["severity"]
+
+export interface ValidatorParameter {
+  key: string
+  label: string
+  default: number
+  min?: number
+  max?: number
+  step?: number
+}
+
+// Fields a check reads per entity; "*" means any field, or rows being added, removed or reordered
+export type FieldDependencies = Partial<Record<EntityType, string[] | "*">>
+
+export interface ValidatorDefinition {
+  id: string
+  name: string
+  description: string
+  category: ValidatorCategory
+  defaultSeverity: ValidatorSeverity
+  parameters?: ValidatorParameter[]
+  // Used by incremental validation to skip checks an edit can't affect; checks that leave it out re-run on every change
+  reads?: FieldDependencies
+  readsRules?: boolean
+  run: (context: ValidationContext, params: Record<string, number>) => ValidationError[]
+}
+
+// Per-workspace overrides; anything left unset falls back to the validator's defaults
+export interface ValidatorSetting {
+  enabled?: boolean
+  severity?: ValidatorSeverity
+  params?: Record<string, number>
+}
+
+export type ValidatorSettings = Record<string, ValidatorSetting>
+
+export const VALIDATOR_CATEGORIES: Record<ValidatorCategory, string> = {
+  structure: "Data Structure",
+  quality: "Data Quality",
+  business: "Business Logic",
+  rules: "Rule Consistency",
+}
+
+// Data and shared lookups handed to every validator; schema results are computed once per run
+export class ValidationContext {
+  readonly clients: any[]
+  readonly workers: any[]
+  readonly tasks: any[]
+  // The constraints allocation applies, in resolved order: disabled and shadowed rules have no effect, so
+  // they can't conflict with the data either. Precedence rules are resolved away.
+  readonly rules: Rule[]
+  // Every enabled rule, shadowed or not, for checks that don't depend on which rule wins
+  readonly enabledRules: Rule[]
+  readonly allRuleIds: Set<string>
+  private schemaIssues: Partial<Record<EntityType, { rowIndex: number; issue: FieldIssue }[]>> = {}
+  private recordKeys: Partial<Record<EntityType, string[]>> = {}
+  private capacity: CapacityModel | null = null
+  private groups: GroupModel | null = null
+
+  constructor(clients: any[], workers: any[], tasks: any[], rules: Rule[] = []) {
+    this.clients = clients
+    this.workers = workers
+    this.tasks = tasks
+    this.allRuleIds = new Set(rules.map((rule) => rule.id))
+    this.enabledRules = rules.filter((rule) => rule.enabled)
+    this.rules = PrecedenceResolver.resolve(rules).effective
+  }
+
+  getData(entityType: EntityType): any[] {
+    return entityType === "clients" ? this.clients : entityType === "workers" ? this.workers : this.tasks
+  }
+
+  // Issue ids are built from this rather than the row index, so they survive sorting, filtering and deletes
+  getRecordKey(entityType: EntityType, rowIndex: number): string {
+    if (!this.recordKeys[entityType]) {
+      this.recordKeys[entityType] = getRecordKeys(entityType, this.getData(entityType))
+    }
+    return this.recordKeys[entityType]![rowIndex] ?? `row-${rowIndex + 1}`
+  }
+
+  getCapacityModel(): CapacityModel {
+    if (!this.capacity) this.capacity = new CapacityModel(this.workers, this.tasks)
+    return this.capacity
+  }
+
+  getGroupModel(): GroupModel {
+    if (!this.groups) this.groups = new GroupModel(this.clients, this.workers, this.tasks, this.rules)
+    return this.groups
+  }
+
+  // Schema issues per row for the given fields, ignoring blank cells (missing values are not format errors)
+  getSchemaIssues(entityType: EntityType, fields: string[]): { rowIndex: number; issue: FieldIssue }[] {
+    if (!this.schemaIssues[entityType]) {
+      const issues: { rowIndex: number; issue: FieldIssue }[] = []
+
+      this.getData(entityType).forEach((row, rowIndex) => {
+        SchemaNormalizer.validateRecord(entityType, row).forEach((issue) => issues.push({ rowIndex, issue }))
+      })
+
+      this.schemaIssues[entityType] = issues
+    }
+
+    return this.schemaIssues[entityType]!.filter(
+      ({ issue }) =>
+        fields.includes(issue.field) &&
+        issue.value !== null &&
+        issue.value !== undefined &&
+        String(issue.value).trim() !== "",
+    )
+  }
+
+  getRulesOfType<T extends Rule>(type: T["type"]): T[] {
+    return this.rules.filter((rule): rule is T => rule.type === type)
+  }
+
+  getRuleName(ruleId: string): string {
+    const rule = this.enabledRules.find((r) => r.id === ruleId)
+    return rule ? `"${rule.name}"` : ruleId
+  }
+
+  findRowIndex(data: any[], idField: string, id: string): number {
+    return data.findIndex((row) => String(row[idField]) === id)
+  }
+
+  // Every phase that appears anywhere in the data, so checks don't assume a fixed phase count
+  getAllPhases(): number[] {
+    const phases = new Set<number>()
+    this.workers.forEach((worker) => parsePhases(worker.AvailableSlots).forEach((phase) => phases.add(phase)))
+    this.tasks.forEach((task) => parsePhases(task.PreferredPhases).forEach((phase) => phases.add(phase)))
+    return Array.from(phases).sort((a, b) => a - b)
+  }
+
+  getRequestedPhases(client: any): number[] {
+    const phases = new Set<number>()
+    toList(client.RequestedTaskIDs).forEach((taskId) => {
+      const task = this.tasks.find((t) => String(t.TaskID) === taskId)
+      if (task) parsePhases(task.PreferredPhases).forEach((phase) => phases.add(phase))
+    })
+    return Array.from(phases)
+  }
+
+  getLongestRun(phases: number[]): number {
+    const sorted = Array.from(new Set(phases)).sort((a, b) => a - b)
+    let longest = 0
+    let current = 0
+    sorted.forEach((phase, i) => {
+      current = i > 0 && phase === sorted[i - 1] + 1 ? current + 1 : 1
+      longest = Math.max(longest, current)
+    })
+    return longest
+  }
+}
+
+export class ValidatorRegistry {
+  private static validators = new Map<string, ValidatorDefinition>(
+    BUILT_IN_VALIDATORS.map((validator) => [validator.id, validator]),
+  )
+  private static listeners = new Set<() => void>()
+
+  // Registering an id that already exists replaces it, so built-in checks can be overridden
+  static register(validator: ValidatorDefinition): void {
+    this.validators.set(validator.id, validator)
+    this.notify()
+  }
+
+  static unregister(id: string): void {
+    if (this.validators.delete(id)) this.notify()
+  }
+
+  static get(id: string): ValidatorDefinition | undefined {
+    return this.validators.get(id)
+  }
+
+  static list(): ValidatorDefinition[] {
+    return Array.from(this.validators.values())
+  }
+
+  static isBuiltIn(id: string): boolean {
+    return BUILT_IN_VALIDATORS.some((validator) => validator.id === id)
+  }
+
+  // True once anything other than the stock checks is registered; those only exist on the main thread
+  static hasCustomValidators(): boolean {
+    return this.list().some((validator) => !BUILT_IN_VALIDATORS.includes(validator))
+  }
+
+  // Lets views re-run validation when a third-party check is added after they mounted
+  static subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  static getParams(validator: ValidatorDefinition, setting?: ValidatorSetting): Record<string, number> {
+    const params: Record<string, number> = {}
+    const parameters = validator.parameters || []
+    parameters.forEach((parameter) => {
+      const value = setting?.params?.[parameter.key]
+      params[parameter.key] = typeof value === "number" && Number.isFinite(value) ? value : parameter.default
+    })
+    return params
+  }
+
+  private static notify() {
+    this.listeners.forEach((listener) => listener())
+  }
+}
@@ -0,0 +1,45 @@
+import { create } from "zustand"
+import type { ValidatorSettings, ValidatorSeverity } from "./validator-registry"
+
+interface ValidatorStore {
+  settings: ValidatorSettings
+  setSettings: (settings: ValidatorSettings) => void
+  setEnabled: (id: string, enabled: boolean) => void
+  setSeverity: (id: string, severity: ValidatorSeverity | undefined) => void
+  setParam: (id: string, key: string, value: number | undefined) => void
+  resetValidator: (id: string) => void
+}
+
+// Selectors
+export const selectValidatorSettings = (state: ValidatorStore) => state.settings
+
+export const useValidatorStore = create<ValidatorStore>((set) => {
+  const update = (id: string, change: (setting: ValidatorSettings[string]) => ValidatorSettings[string]) =>
+    set((state) => ({ settings: { ...state.settings, [id]: change(state.settings[id] || {}) } }))
+
+  return {
+    settings: {},
+
+    setSettings: (settings) => set({ settings }),
+
+    setEnabled: (id, enabled) => update(id, (setting) => ({ ...setting, enabled })),
+
+    // Passing undefined goes back to the validator's default severity
+    setSeverity: (id, severity) => update(id, (setting) => ({ ...setting, severity })),
+
+    // Passing undefined goes back to the parameter's default
+    setParam: (id, key, value) =>
+      update(id, (setting) => {
+        const params = { ...setting.params }
+        if (value === undefined) delete params[key]
+        else params[key] = value
+        return { ...setting, params }
+      }),
+
+    resetValidator: (id) =>
+      set((state) => {
+        const { [id]: _removed, ...settings } = state.settings
+        return { settings }
+      }),
+  }
+})
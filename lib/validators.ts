@@ -0,0 +1,1027 @@
+import { SchemaNormalizer, toList, parsePhases, toNumber, type EntityType } from "./schemas"
+import type {
+  PhaseWindowRule,
+  LoadLimitRule,
+  SlotRestrictionRule,
+  ExclusionRule,
+  MinQualificationRule,
+  AffinityRule,
+  Rule,
+} from "./rule-types"
+import type { ValidatorDefinition } from "./validator-registry"
+import type { ValidationError } from "./validation-engine"
+import { RelationshipGraph } from "./relationship-graph"
+import { DEFAULT_GROUP_SIMILARITY } from "./group-model"
+import { RuleAnalyzer, type RuleFindingKind } from "./rule-analysis"
+
+// Built-in checks, in the order they run. Issue ids are built from record keys rather than row positions,
+// so they stay the same when rows are sorted, filtered or deleted.
+export const BUILT_IN_VALIDATORS: ValidatorDefinition[] = [
+  {
+    id: "required-columns",
+    name: "Required columns",
+    description: "Every entity has the columns allocation depends on",
+    category: "structure",
+    defaultSeverity: "high",
+    reads: { clients: "*", workers: "*", tasks: "*" },
+    run: (ctx) => {
+      const errors: ValidationError[] = []
+
+      const requiredFields = {
+        clients: ["ClientID", "ClientName", "PriorityLevel", "RequestedTaskIDs"],
+        workers: ["WorkerID", "WorkerName", "Skills", "AvailableSlots", "MaxLoadPerPhase"],
+        tasks: ["TaskID", "TaskName", "Duration", "RequiredSkills", "MaxConcurrent"],
+      }
+
+      Object.entries(requiredFields).forEach(([entityType, fields]) => {
+        const data = entityType === "clients" ? ctx.clients : entityType === "workers" ? ctx.workers : ctx.tasks
+
+        if (data.length > 0) {
+          const firstRow = data[0]
+          fields.forEach((field) => {
+            if (!(field in firstRow)) {
+              errors.push({
+                id: `missing-column-${entityType}-${field}`,
+                type: "error",
+                severity: "high",
+                message: `Missing required column: ${field}`,
+                field,
+                rowIndex: -1,
+                entityType: entityType as any,
+                suggestion: `Add the ${field} column to your ${entityType} data`,
+                autoFixable: false,
+              })
+            }
+          })
+        }
+      })
+
+      return errors
+    },
+  },
+  {
+    id: "duplicate-ids",
+    name: "Duplicate IDs",
+    description: "ClientID, WorkerID and TaskID are unique",
+    category: "structure",
+    defaultSeverity: "high",
+    reads: { clients: ["ClientID"], workers: ["WorkerID"], tasks: ["TaskID"] },
+    run: (ctx) => {
+      const errors: ValidationError[] = []
+
+      const checkDuplicates = (data: any[], idField: string, entityType: "clients" | "workers" | "tasks") => {
+        const seen = new Set()
+        data.forEach((row, index) => {
+          const id = row[idField]
+          if (id && seen.has(id)) {
+            errors.push({
+              id: `duplicate-id-${entityType}-${ctx.getRecordKey(entityType, index)}`,
+              type: "error",
+              severity: "high",
+              message: `Duplicate ${idField}: ${id}`,
+              field: idField,
+              rowIndex: index,
+              entityType,
+              suggestion: `Change this ${idField} to a unique value`,
+              autoFixable: true,
+            })
+          }
+          seen.add(id)
+        })
+      }
+
+      checkDuplicates(ctx.clients, "ClientID", "clients")
+      checkDuplicates(ctx.workers, "WorkerID", "workers")
+      checkDuplicates(ctx.tasks, "TaskID", "tasks")
+
+      return errors
+    },
+  },
+  {
+    id: "malformed-lists",
+    name: "Malformed lists",
+    description: "AvailableSlots and PreferredPhases are lists of phase numbers",
+    category: "structure",
+    defaultSeverity: "medium",
+    reads: { workers: ["AvailableSlots"], tasks: ["PreferredPhases"] },
+    run: (ctx) => {
+      const errors: ValidationError[] = []
+
+      ctx.getSchemaIssues("workers", ["AvailableSlots"]).forEach(({ rowIndex, issue }) => {
+        errors.push({
+          id: `malformed-slots-${ctx.getRecordKey("workers", rowIndex)}`,
+          type: "error",
+          severity: "medium",
+          message: issue.message,
+          field: issue.field,
+          rowIndex,
+          entityType: "workers",
+          suggestion: "Format as [1,2,3] or comma-separated numbers",
+          autoFixable: true,
+        })
+      })
+
+      ctx.getSchemaIssues("tasks", ["PreferredPhases"]).forEach(({ rowIndex, issue }) => {
+        errors.push({
+          id: `phase-format-${ctx.getRecordKey("tasks", rowIndex)}`,
+          type: "warning",
+          severity: "low",
+          message: issue.message,
+          field: issue.field,
+          rowIndex,
+          entityType: "tasks",
+          suggestion: 'Use format [1,2,3] or "1-3" for ranges',
+          autoFixable: true,
+        })
+      })
+
+      return errors
+    },
+  },
+  {
+    id: "out-of-range",
+    name: "Out-of-range values",
+    description: "Numeric fields fall inside their allowed ranges",
+    category: "quality",
+    defaultSeverity: "medium",
+    reads: { clients: ["PriorityLevel"], workers: ["MaxLoadPerPhase"], tasks: ["Duration", "MaxConcurrent"] },
+    parameters: [
+      { key: "priorityMin", label: "Lowest PriorityLevel", default: 1, min: 0, step: 1 },
+      { key: "priorityMax", label: "Highest PriorityLevel", default: 5, min: 1, step: 1 },
+      { key: "durationMin", label: "Shortest Duration", default: 1, min: 1, step: 1 },
+    ],
+    run: (ctx, params) => {
+      const errors: ValidationError[] = []
+
+      const checks: { entityType: EntityType; field: string; prefix: string; min: number; max?: number }[] = [
+        {
+          entityType: "clients",
+          field: "PriorityLevel",
+          prefix: "priority-range",
+          min: params.priorityMin,
+          max: params.priorityMax,
+        },
+        { entityType: "tasks", field: "Duration", prefix: "duration-range", min: params.durationMin },
+        { entityType: "workers", field: "MaxLoadPerPhase", prefix: "maxload-range", min: 1 },
+        { entityType: "tasks", field: "MaxConcurrent", prefix: "maxconcurrent-range", min: 1 },
+      ]
+
+      checks.forEach((check) => {
+        ctx.getData(check.entityType).forEach((row, rowIndex) => {
+          const raw = row[check.field]
+          if (raw === null || raw === undefined || String(raw).trim() === "") return
+
+          const value = toNumber(raw)
+          let message: string | null = null
+          if (typeof value !== "number" || !Number.isInteger(value)) {
+            // Type problems come from the schema; its range bounds are only the defaults, so ranges are checked here
+            message =
+              SchemaNormalizer.validateRecord(check.entityType, row).find((issue) => issue.field === check.field)
+                ?.message ?? null
+          } else if (value < check.min || (check.max !== undefined && value > check.max)) {
+            message =
+              check.max === undefined
+                ? `${check.field} must be >= ${check.min}`
+                : `${check.field} must be between ${check.min}-${check.max}`
+          }
+          if (!message) return
+
+          errors.push({
+            id: `${check.prefix}-${ctx.getRecordKey(check.entityType, rowIndex)}`,
+            type: "error",
+            severity: "medium",
+            message: `${message}, got ${raw}`,
+            field: check.field,
+            rowIndex,
+            entityType: check.entityType,
+            suggestion:
+              check.max === undefined
+                ? `Set ${check.field} to at least ${check.min}`
+                : `Set ${check.field} to a value between ${check.min} and ${check.max}`,
+            autoFixable: true,
+          })
+        })
+      })
+
+      return errors
+    },
+  },
+  {
+    id: "broken-json",
+    name: "Broken JSON",
+    description: "AttributesJSON parses as a JSON object",
+    category: "quality",
+    defaultSeverity: "medium",
+    reads: { clients: ["AttributesJSON"] },
+    run: (ctx) => {
+      return ctx.getSchemaIssues("clients", ["AttributesJSON"]).map(({ rowIndex, issue }) => ({
+        id: `broken-json-${ctx.getRecordKey("clients", rowIndex)}`,
+        type: "error",
+        severity: "medium",
+        message: issue.message,
+        field: issue.field,
+        rowIndex,
+        entityType: "clients",
+        suggestion: "Fix JSON syntax or use valid JSON format",
+        autoFixable: false,
+      }))
+    },
+  },
+  {
+    id: "unknown-references",
+    name: "Unknown references",
+    description: "Requested TaskIDs exist in the tasks data",
+    category: "quality",
+    defaultSeverity: "high",
+    reads: { clients: ["RequestedTaskIDs"], tasks: ["TaskID"] },
+    run: (ctx) => {
+      const errors: ValidationError[] = []
+      const taskIds = new Set(ctx.tasks.map((task) => task.TaskID))
+
+      ctx.clients.forEach((client, index) => {
+        toList(client.RequestedTaskIDs).forEach((taskId) => {
+          if (!taskIds.has(taskId)) {
+            errors.push({
+              id: `unknown-task-${ctx.getRecordKey("clients", index)}-${taskId}`,
+              type: "error",
+              severity: "high",
+              message: `Unknown TaskID reference: ${taskId}`,
+              field: "RequestedTaskIDs",
+              rowIndex: index,
+              entityType: "clients",
+              suggestion: `Remove ${taskId} or add it to tasks data`,
+              autoFixable: true,
+            })
+          }
+        })
+      })
+
+      return errors
+    },
+  },
+  {
+    id: "orphaned-records",
+    name: "Orphaned records",
+    description: "Every task is requested by a client and every worker has a skill some task needs",
+    category: "quality",
+    defaultSeverity: "low",
+    reads: {
+      clients: ["ClientID", "RequestedTaskIDs"],
+      workers: ["WorkerID", "Skills"],
+      tasks: ["TaskID", "RequiredSkills"],
+    },
+    run: (ctx) => {
+      const errors: ValidationError[] = []
+      // Dangling references, unstaffed skills and rule-only groups are reported by their own checks
+      const graph = new RelationshipGraph(ctx.clients, ctx.workers, ctx.tasks)
+
+      graph.findOrphans().forEach((orphan) => {
+        if (orphan.kind === "unrequested-task") {
+          const rowIndex = ctx.findRowIndex(ctx.tasks, "TaskID", orphan.node.key)
+          if (rowIndex === -1) return // No TaskID at all; required-columns reports that
+          errors.push({
+            id: `unrequested-task-${ctx.getRecordKey("tasks", rowIndex)}`,
+            type: "warning",
+            severity: "low",
+            message: orphan.message,
+            field: "TaskID",
+            rowIndex,
+            entityType: "tasks",
+            suggestion: `Add ${orphan.node.key} to a client's RequestedTaskIDs or remove the task`,
+            autoFixable: false,
+          })
+        } else if (orphan.kind === "idle-worker") {
+          const rowIndex = ctx.findRowIndex(ctx.workers, "WorkerID", orphan.node.key)
+          if (rowIndex === -1) return
+          errors.push({
+            id: `idle-worker-${ctx.getRecordKey("workers", rowIndex)}`,
+            type: "warning",
+            severity: "low",
+            message: orphan.message,
+            field: "Skills",
+            rowIndex,
+            entityType: "workers",
+            suggestion: "Check the worker's skills for typos, or add tasks that need them",
+            autoFixable: false,
+          })
+        }
+      })
+
+      return errors
+    },
+  },
+  {
+    id: "group-names",
+    name: "Group names",
+    description: "GroupTag and WorkerGroup values aren't misspellings of another group",
+    category: "quality",
+    defaultSeverity: "medium",
+    parameters: [
+      {
+        key: "similarity",
+        label: "Name similarity threshold",
+        default: DEFAULT_GROUP_SIMILARITY,
+        min: 0.5,
+        max: 1,
+        step: 0.05,
+      },
+    ],
+    reads: { clients: ["ClientID", "GroupTag"], workers: ["WorkerID", "WorkerGroup"] },
+    run: (ctx, params) => {
+      const errors: ValidationError[] = []
+
+      // Each member of the suspect group is reported, so the rename fix can be applied row by row
+      ctx
+        .getGroupModel()
+        .findNearDuplicates(params.similarity)
+        .forEach(({ group, similarTo }) => {
+          group.members.forEach(({ rowIndex, recordId }) => {
+            errors.push({
+              id: `group-name-${group.entityType}-${recordId}`,
+              type: "warning",
+              severity: "medium",
+              message: `${group.field} "${group.name}" looks like a misspelling of "${similarTo.name}" (${group.members.length} vs ${similarTo.members.length} members)`,
+              field: group.field,
+              rowIndex,
+              entityType: group.entityType,
+              suggestion: `Rename to "${similarTo.name}"`,
+              autoFixable: true,
+            })
+          })
+        })
+
+      return errors
+    },
+  },
+  {
+    id: "overloaded-workers",
+    name: "Overloaded workers",
+    description: "MaxLoadPerPhase fits within a worker's available slots",
+    category: "business",
+    defaultSeverity: "medium",
+    reads: { workers: ["AvailableSlots", "MaxLoadPerPhase"] },
+    run: (ctx) => {
+      const errors: ValidationError[] = []
+
+      ctx.workers.forEach((worker, index) => {
+        const availableSlots = worker.AvailableSlots
+        const maxLoad = worker.MaxLoadPerPhase
+
+        if (availableSlots && maxLoad) {
+          const slots = parsePhases(availableSlots)
+          if (slots.length < maxLoad) {
+            errors.push({
+              id: `overloaded-worker-${ctx.getRecordKey("workers", index)}`,
+              type: "warning",
+              severity: "medium",
+              message: `Worker has ${slots.length} available slots but MaxLoadPerPhase is ${maxLoad}`,
+              field: "MaxLoadPerPhase",
+              rowIndex: index,
+              entityType: "workers",
+              suggestion: `Reduce MaxLoadPerPhase to ${slots.length} or add more available slots`,
+              autoFixable: true,
+            })
+          }
+        }
+      })
+
+      return errors
+    },
+  },
+  {
+    id: "skill-coverage",
+    name: "Skill coverage",
+    description: "Every required skill is held by at least one worker",
+    category: "business",
+    defaultSeverity: "high",
+    reads: { workers: ["Skills"], tasks: ["RequiredSkills"] },
+    run: (ctx) => {
+      const errors: ValidationError[] = []
+
+      // Get all worker skills
+      const workerSkills = new Set<string>()
+      ctx.workers.forEach((worker) => {
+        toList(worker.Skills).forEach((skill) => workerSkills.add(skill))
+      })
+
+      // Check if all required skills are covered
+      ctx.tasks.forEach((task, index) => {
+        toList(task.RequiredSkills).forEach((skill) => {
+          if (!workerSkills.has(skill)) {
+            errors.push({
+              id: `missing-skill-${ctx.getRecordKey("tasks", index)}-${skill}`,
+              type: "error",
+              severity: "high",
+              message: `No worker has required skill: ${skill}`,
+              field: "RequiredSkills",
+              rowIndex: index,
+              entityType: "tasks",
+              suggestion: `Add a worker with ${skill} skill or remove this requirement`,
+              autoFixable: false,
+            })
+          }
+        })
+      })
+
+      return errors
+    },
+  },
+  {
+    id: "max-concurrency",
+    name: "Max-concurrency feasibility",
+    description: "MaxConcurrent doesn't exceed the number of qualified workers",
+    category: "business",
+    defaultSeverity: "medium",
+    reads: { workers: ["Skills"], tasks: ["RequiredSkills", "MaxConcurrent"] },
+    run: (ctx) => {
+      const errors: ValidationError[] = []
+
+      ctx.tasks.forEach((task, index) => {
+        const maxConcurrent = task.MaxConcurrent
+        const requiredSkills = task.RequiredSkills
+
+        if (maxConcurrent && requiredSkills) {
+          const skillList = toList(requiredSkills)
+
+          // Count qualified workers
+          let qualifiedWorkers = 0
+          ctx.workers.forEach((worker) => {
+            const workerSkillList = toList(worker.Skills)
+            if (workerSkillList.length > 0) {
+              const hasAllSkills = skillList.every((skill) => workerSkillList.includes(skill))
+              if (hasAllSkills) qualifiedWorkers++
+            }
+          })
+
+          if (maxConcurrent > qualifiedWorkers) {
+            errors.push({
+              id: `max-concurrency-${ctx.getRecordKey("tasks", index)}`,
+              type: "warning",
+              severity: "medium",
+              message: `MaxConcurrent (${maxConcurrent}) exceeds qualified workers (${qualifiedWorkers})`,
+              field: "MaxConcurrent",
+              rowIndex: index,
+              entityType: "tasks",
+              suggestion: `Reduce MaxConcurrent to ${qualifiedWorkers} or add more qualified workers`,
+              autoFixable: true,
+            })
+          }
+        }
+      })
+
+      return errors
+    },
+  },
+  {
+    id: "phase-saturation",
+    name: "Phase-slot saturation",
+    description: "Demand in each phase fits the worker slots available",
+    category: "business",
+    defaultSeverity: "high",
+    reads: { workers: ["AvailableSlots", "MaxLoadPerPhase"], tasks: ["Duration", "PreferredPhases"] },
+    run: (ctx) => {
+      const errors: ValidationError[] = []
+
+      // Demand spreads each task over the consecutive phases it can occupy (see CapacityModel)
+      ctx
+        .getCapacityModel()
+        .getPhases()
+        .forEach(({ phase, supply, demand }) => {
+          if (demand <= supply) return
+
+          errors.push({
+            id: `phase-saturation-${phase}`,
+            type: "error",
+            severity: "high",
+            message: `Phase ${phase} is oversaturated: ${Math.round(demand * 10) / 10} task slots needed, ${supply} worker slots available`,
+            field: "PreferredPhases",
+            rowIndex: -1,
+            entityType: "tasks",
+            suggestion: `Add more workers for phase ${phase} or redistribute tasks`,
+            autoFixable: false,
+          })
+        })
+
+      return errors
+    },
+  },
+  {
+    id: "group-capacity",
+    name: "Worker group capacity",
+    description: "Members of each worker group share enough common slots",
+    category: "business",
+    defaultSeverity: "medium",
+    parameters: [{ key: "minCommonSlots", label: "Minimum common slots", default: 1, min: 0, step: 1 }],
+    reads: { workers: ["WorkerGroup", "AvailableSlots", "MaxLoadPerPhase"] },
+    run: (ctx, params) => {
+      const errors: ValidationError[] = []
+
+      ctx
+        .getGroupModel()
+        .getGroups("worker")
+        .forEach((group) => {
+          if (group.totalSlots === 0) {
+            errors.push({
+              id: `group-capacity-empty-${group.name}`,
+              type: "warning",
+              severity: "medium",
+              message: `Worker group ${group.name} has no available slots in any phase`,
+              field: "AvailableSlots",
+              rowIndex: group.members[0].rowIndex,
+              entityType: "workers",
+              suggestion: "Fill in AvailableSlots for the group's workers",
+              autoFixable: false,
+            })
+            return
+          }
+
+          // A lone worker trivially shares all of their slots
+          if (group.members.length < 2 || group.commonSlots.length >= params.minCommonSlots) return
+          errors.push({
+            id: `group-capacity-common-${group.name}`,
+            type: "warning",
+            severity: "medium",
+            message: `Worker group ${group.name} shares ${group.commonSlots.length} common slots${group.commonSlots.length > 0 ? ` (${group.commonSlots.join(", ")})` : ""} across ${group.members.length} workers, below the ${params.minCommonSlots} needed`,
+            field: "AvailableSlots",
+            rowIndex: group.members[0].rowIndex,
+            entityType: "workers",
+            suggestion: "Align the group's AvailableSlots or split it into smaller groups",
+            autoFixable: false,
+          })
+        })
+
+      return errors
+    },
+  },
+  {
+    id: "circular-corun",
+    name: "Co-run consistency",
+    description:
+      "Co-run rules are neither redundant nor contradictory, and co-run groups fit their phase windows and load limits",
+    category: "rules",
+    defaultSeverity: "high",
+    reads: { tasks: ["TaskID", "RequiredSkills"], workers: ["Skills", "WorkerGroup"] },
+    readsRules: true,
+    run: (ctx) => {
+      const suggestions: Record<RuleFindingKind, string> = {
+        "corun-cycle": "Remove the redundant rule or merge the co-run rules into one group",
+        "corun-contradiction": "Disable the rule that keeps the tasks apart or break the chain that joins them",
+        "empty-phase-window": "Widen one of the phase windows so the co-run tasks share a phase",
+        "infeasible-load-limit": "Raise the load limits or split the co-run group",
+      }
+
+      return new RuleAnalyzer(ctx.rules, ctx.tasks, ctx.workers).analyze().map((finding): ValidationError => ({
+        id: finding.id,
+        type: finding.severity === "high" ? "error" : "warning",
+        severity: finding.severity,
+        message: finding.message,
+        field: "TaskID",
+        rowIndex: ctx.findRowIndex(ctx.tasks, "TaskID", finding.taskIds[0]),
+        entityType: "tasks",
+        ruleId: finding.ruleIds[0],
+        suggestion: suggestions[finding.kind],
+        autoFixable: false,
+      }))
+    },
+  },
+  {
+    id: "conflicting-rules",
+    name: "Conflicting constraints",
+    description: "Durations, concurrency and phase windows leave a feasible schedule",
+    category: "rules",
+    defaultSeverity: "medium",
+    reads: { tasks: ["TaskID", "Duration", "PreferredPhases", "MaxConcurrent"] },
+    readsRules: true,
+    parameters: [
+      { key: "durationPhaseRatio", label: "Max duration per preferred phase", default: 2, min: 1, step: 0.5 },
+    ],
+    run: (ctx, params) => {
+      const errors: ValidationError[] = []
+
+      ctx.tasks.forEach((task, index) => {
+        const preferredPhases = task.PreferredPhases
+        const duration = task.Duration
+        const maxConcurrent = task.MaxConcurrent
+
+        if (preferredPhases && duration && maxConcurrent) {
+          const phases = parsePhases(preferredPhases)
+
+          // Check if task duration conflicts with available phase windows
+          if (phases.length > 0 && duration > phases.length * params.durationPhaseRatio) {
+            errors.push({
+              id: `conflicting-rules-${ctx.getRecordKey("tasks", index)}`,
+              type: "warning",
+              severity: "medium",
+              message: `Task duration (${duration}) may conflict with preferred phases (${phases.join(", ")})`,
+              field: "Duration",
+              rowIndex: index,
+              entityType: "tasks",
+              suggestion: `Consider reducing duration or expanding preferred phases`,
+              autoFixable: true,
+            })
+          }
+
+          // Check if MaxConcurrent conflicts with phase constraints
+          if (maxConcurrent > phases.length) {
+            errors.push({
+              id: `concurrent-phase-conflict-${ctx.getRecordKey("tasks", index)}`,
+              type: "warning",
+              severity: "medium",
+              message: `MaxConcurrent (${maxConcurrent}) exceeds available phases (${phases.length})`,
+              field: "MaxConcurrent",
+              rowIndex: index,
+              entityType: "tasks",
+              suggestion: `Reduce MaxConcurrent to ${phases.length} or add more phases`,
+              autoFixable: true,
+            })
+          }
+        }
+      })
+
+      // Phase-window rules must leave at least one of the task's preferred phases open, and fit the task
+      ctx.getRulesOfType<PhaseWindowRule>("phaseWindow").forEach((rule) => {
+        const index = ctx.findRowIndex(ctx.tasks, "TaskID", rule.taskId)
+        if (index === -1) return
+
+        const task = ctx.tasks[index]
+        const preferredPhases = parsePhases(task.PreferredPhases)
+        const overlap = preferredPhases.filter((phase) => rule.allowedPhases.includes(phase))
+
+        if (preferredPhases.length > 0 && overlap.length === 0) {
+          errors.push({
+            id: `conflicting-phase-window-${rule.id}`,
+            type: rule.strictMode ? "error" : "warning",
+            severity: rule.strictMode ? "high" : "medium",
+            message: `Rule "${rule.name}" allows phases ${rule.allowedPhases.join(", ")} but task ${rule.taskId} prefers phases ${preferredPhases.join(", ")}`,
+            field: "PreferredPhases",
+            rowIndex: index,
+            entityType: "tasks",
+            ruleId: rule.id,
+            suggestion: "Widen the phase window or update the task's preferred phases",
+            autoFixable: false,
+          })
+        }
+
+        const duration = Number(task.Duration)
+        const longestRun = ctx.getLongestRun(rule.allowedPhases)
+        if (rule.strictMode && duration > 0 && longestRun < duration) {
+          errors.push({
+            id: `conflicting-phase-window-duration-${rule.id}`,
+            type: "error",
+            severity: "high",
+            message: `Task ${rule.taskId} lasts ${duration} phases but rule "${rule.name}" allows at most ${longestRun} consecutive phases`,
+            field: "Duration",
+            rowIndex: index,
+            entityType: "tasks",
+            ruleId: rule.id,
+            suggestion: "Allow a longer run of consecutive phases or shorten the task",
+            autoFixable: false,
+          })
+        }
+      })
+
+      return errors
+    },
+  },
+  {
+    id: "load-limits",
+    name: "Load limits",
+    description: "Load-limit rules match the worker group's capacity",
+    category: "rules",
+    defaultSeverity: "medium",
+    reads: { workers: ["WorkerGroup", "AvailableSlots", "MaxLoadPerPhase"], tasks: ["PreferredPhases"] },
+    readsRules: true,
+    run: (ctx) => {
+      const errors: ValidationError[] = []
+
+      ctx.getRulesOfType<LoadLimitRule>("loadLimit").forEach((rule) => {
+        const group = ctx.getGroupModel().getGroup("worker", rule.workerGroup)
+        if (!group) return // Reported by the rule-references check
+
+        const phases = rule.phases && rule.phases.length > 0 ? rule.phases : ctx.getAllPhases()
+        const capacity = phases.map((phase) => ({ phase, slots: group.slotsByPhase[phase] || 0 }))
+        const rowIndex = group.members[0].rowIndex
+
+        if (rule.maxSlotsPerPhase < 1) {
+          errors.push({
+            id: `rule-load-limit-zero-${rule.id}`,
+            type: "error",
+            severity: "high",
+            message: `Load limit "${rule.name}" allows no work at all for group ${rule.workerGroup}`,
+            field: "WorkerGroup",
+            rowIndex,
+            entityType: "workers",
+            ruleId: rule.id,
+            suggestion: "Set MaxSlotsPerPhase to at least 1 or disable the rule",
+            autoFixable: false,
+          })
+          return
+        }
+
+        const peak = Math.max(0, ...capacity.map((entry) => entry.slots))
+        if (rule.maxSlotsPerPhase >= peak) {
+          errors.push({
+            id: `rule-load-limit-ineffective-${rule.id}`,
+            type: "warning",
+            severity: "low",
+            message: `Load limit "${rule.name}" (${rule.maxSlotsPerPhase} per phase) never binds: group ${rule.workerGroup} has at most ${peak} slots in any phase`,
+            field: "MaxLoadPerPhase",
+            rowIndex,
+            entityType: "workers",
+            ruleId: rule.id,
+            suggestion: `Lower the limit below ${peak} or remove the rule`,
+            autoFixable: false,
+          })
+        }
+
+        const unstaffed = capacity.filter((entry) => entry.slots === 0).map((entry) => entry.phase)
+        if (rule.phases && rule.phases.length > 0 && unstaffed.length === phases.length) {
+          errors.push({
+            id: `rule-load-limit-phases-${rule.id}`,
+            type: "warning",
+            severity: "medium",
+            message: `Load limit "${rule.name}" targets phases ${phases.join(", ")}, when no ${rule.workerGroup} worker is available`,
+            field: "AvailableSlots",
+            rowIndex,
+            entityType: "workers",
+            ruleId: rule.id,
+            suggestion: "Check the rule's phases against the group's AvailableSlots",
+            autoFixable: false,
+          })
+        }
+      })
+
+      return errors
+    },
+  },
+  {
+    id: "slot-restrictions",
+    name: "Slot restrictions",
+    description: "Slot-restriction groups share enough common slots",
+    category: "rules",
+    defaultSeverity: "high",
+    reads: {
+      clients: ["GroupTag", "RequestedTaskIDs"],
+      workers: ["WorkerGroup", "AvailableSlots"],
+      tasks: ["TaskID", "PreferredPhases"],
+    },
+    readsRules: true,
+    run: (ctx) => {
+      const errors: ValidationError[] = []
+
+      ctx.getRulesOfType<SlotRestrictionRule>("slotRestriction").forEach((rule) => {
+        const isWorkerRule = rule.targetType === "worker"
+        const data = isWorkerRule ? ctx.workers : ctx.clients
+        const groupField = isWorkerRule ? "WorkerGroup" : "GroupTag"
+        const members = data.filter((row) => String(row[groupField] ?? "") === rule.groupName)
+        if (members.length === 0) return // Reported by the rule-references check
+
+        // Worker groups share the slots every member is available in; client groups are bound by the
+        // phases their requested tasks prefer
+        const memberPhases = isWorkerRule
+          ? members.map((worker) => parsePhases(worker.AvailableSlots))
+          : members.map((client) => ctx.getRequestedPhases(client))
+
+        let common = memberPhases.reduce<number[]>(
+          (acc, phases) => (phases.length > 0 ? acc.filter((phase) => phases.includes(phase)) : acc),
+          ctx.getAllPhases(),
+        )
+        if (rule.phases && rule.phases.length > 0) {
+          common = common.filter((phase) => rule.phases!.includes(phase))
+        }
+
+        if (common.length < rule.minCommonSlots) {
+          errors.push({
+            id: `rule-slot-restriction-${rule.id}`,
+            type: "error",
+            severity: "high",
+            message: `Slot restriction "${rule.name}" needs ${rule.minCommonSlots} common slots, but ${groupField} ${rule.groupName} only shares ${common.length}${common.length > 0 ? ` (${common.join(", ")})` : ""}`,
+            field: isWorkerRule ? "AvailableSlots" : groupField,
+            rowIndex: data.indexOf(members[0]),
+            entityType: isWorkerRule ? "workers" : "clients",
+            ruleId: rule.id,
+            suggestion: `Lower MinCommonSlots to ${common.length} or align the group's ${isWorkerRule ? "available slots" : "requested tasks"}`,
+            autoFixable: false,
+          })
+        }
+      })
+
+      return errors
+    },
+  },
+  {
+    id: "worker-eligibility",
+    name: "Worker eligibility",
+    description: "Exclusion, qualification and affinity rules leave a skilled worker for every task they touch",
+    category: "rules",
+    defaultSeverity: "high",
+    reads: {
+      clients: ["ClientID", "RequestedTaskIDs"],
+      workers: ["WorkerID", "Skills", "WorkerGroup", "QualificationLevel"],
+      tasks: ["TaskID", "RequiredSkills"],
+    },
+    readsRules: true,
+    run: (ctx) => {
+      const errors: ValidationError[] = []
+      const minimums = ctx.getRulesOfType<MinQualificationRule>("minQualification")
+      const exclusions = ctx.getRulesOfType<ExclusionRule>("exclusion")
+      const affinities = ctx.getRulesOfType<AffinityRule>("affinity")
+
+      const getSkilled = (task: any) => {
+        const required = toList(task.RequiredSkills)
+        return ctx.workers.filter((worker) => {
+          const skills = toList(worker.Skills)
+          return required.every((skill) => skills.includes(skill))
+        })
+      }
+      const getLevel = (worker: any) => Number(worker.QualificationLevel) || 0
+
+      // 1. Minimum qualification: someone with the skills must also reach the level
+      minimums.forEach((rule) => {
+        const rowIndex = ctx.findRowIndex(ctx.tasks, "TaskID", rule.taskId)
+        if (rowIndex === -1) return // Reported by the rule-references check
+        const skilled = getSkilled(ctx.tasks[rowIndex])
+        if (skilled.length === 0) return // Reported by the skill-coverage check
+
+        const best = Math.max(...skilled.map(getLevel))
+        if (best >= rule.minLevel) return
+        errors.push({
+          id: `rule-min-qualification-${rule.id}`,
+          type: "error",
+          severity: "high",
+          message: `Rule "${rule.name}" needs QualificationLevel ${rule.minLevel} for task ${rule.taskId}, but its most qualified skilled worker is at ${best}`,
+          field: "TaskID",
+          rowIndex,
+          entityType: "tasks",
+          ruleId: rule.id,
+          suggestion: `Lower the minimum to ${best} or add a level ${rule.minLevel} worker with the task's skills`,
+          autoFixable: false,
+        })
+      })
+
+      // 2. Exclusions and strict affinities, together, must leave someone for each request they touch.
+      // Without client data every task is one request, as the allocation engine treats it.
+      if (exclusions.length === 0 && !affinities.some((rule) => rule.strictMode)) return errors
+
+      const requests =
+        ctx.clients.length > 0
+          ? ctx.clients.reduce<{ clientId: string | null; taskId: string; rowIndex: number }[]>(
+              (acc, client, rowIndex) => [
+                ...acc,
+                ...toList(client.RequestedTaskIDs).map((taskId) => ({
+                  clientId: String(client.ClientID),
+                  taskId,
+                  rowIndex,
+                })),
+              ],
+              [],
+            )
+          : ctx.tasks.map((task, rowIndex) => ({ clientId: null, taskId: String(task.TaskID), rowIndex }))
+
+      requests.forEach(({ clientId, taskId, rowIndex }) => {
+        const task = ctx.tasks[ctx.findRowIndex(ctx.tasks, "TaskID", taskId)]
+        if (!task) return // Reported by the unknown-references check
+
+        // Merged minimums all apply, as they do in allocation
+        const applyingMinimums = minimums.filter((rule) => rule.taskId === taskId)
+        const qualified = getSkilled(task).filter((worker) =>
+          applyingMinimums.every((rule) => getLevel(worker) >= rule.minLevel),
+        )
+        if (qualified.length === 0) return // Reported above, or by the skill-coverage check
+
+        const applying = exclusions.filter(
+          (rule) =>
+            rule.targetId === (rule.targetType === "client" ? clientId : taskId) &&
+            qualified.some((worker) => String(worker.WorkerID) === rule.workerId),
+        )
+        // Rules are in resolved order, so the first affinity is the one allocation applies
+        const winner = affinities.find((rule) => rule.clientId === clientId)
+        const affinity = winner?.strictMode ? winner : undefined
+        const allowed = qualified.filter(
+          (worker) =>
+            !applying.some((rule) => rule.workerId === String(worker.WorkerID)) &&
+            (!affinity || String(worker.WorkerGroup ?? "") === affinity.workerGroup),
+        )
+        if (allowed.length > 0) return
+
+        const blocking: Rule[] = affinity ? [...applying, affinity] : applying
+        const entityType = clientId ? "clients" : "tasks"
+        errors.push({
+          id: `rule-eligibility-${ctx.getRecordKey(entityType, rowIndex)}-${taskId}`,
+          type: "error",
+          severity: "high",
+          message: `No worker may take task ${taskId}${clientId ? ` for client ${clientId}` : ""}: ${qualified.length === 1 ? "the only qualified worker is" : `all ${qualified.length} qualified workers are`} ruled out by ${blocking.map((rule) => `"${rule.name}"`).join(", ")}`,
+          field: clientId ? "RequestedTaskIDs" : "TaskID",
+          rowIndex,
+          entityType,
+          ruleId: blocking[0].id,
+          suggestion: affinity
+            ? `Make "${affinity.name}" a preference instead of strict, or relax the exclusions`
+            : "Remove one of the exclusions or add another qualified worker",
+          autoFixable: false,
+        })
+      })
+
+      return errors
+    },
+  },
+  {
+    id: "rule-references",
+    name: "Rule references",
+    description: "Rules only reference tasks, groups and rules that exist",
+    category: "rules",
+    defaultSeverity: "high",
+    reads: { clients: ["ClientID", "GroupTag"], workers: ["WorkerID", "WorkerGroup"], tasks: ["TaskID"] },
+    readsRules: true,
+    run: (ctx) => {
+      const errors: ValidationError[] = []
+      const taskIds = new Set(ctx.tasks.map((task) => String(task.TaskID)))
+      const clientIds = new Set(ctx.clients.map((client) => String(client.ClientID)))
+      const workerIds = new Set(ctx.workers.map((worker) => String(worker.WorkerID)))
+      const workerGroups = new Set(ctx.workers.map((worker) => String(worker.WorkerGroup ?? "")))
+      const clientGroups = new Set(ctx.clients.map((client) => String(client.GroupTag ?? "")))
+
+      const report = (rule: Rule, reference: string, kind: string, field: string, entityType: EntityType) => {
+        errors.push({
+          id: `rule-unknown-reference-${rule.id}-${reference}`,
+          type: "error",
+          severity: "high",
+          message: `Rule "${rule.name}" references unknown ${kind}: ${reference}`,
+          field,
+          rowIndex: -1,
+          entityType,
+          ruleId: rule.id,
+          suggestion: `Update the rule or add ${reference} to your ${entityType} data`,
+          autoFixable: false,
+        })
+      }
+
+      // Shadowed rules still need valid references, so this checks every enabled rule
+      ctx.enabledRules.forEach((rule) => {
+        switch (rule.type) {
+          case "coRun":
+            if (ctx.tasks.length === 0) break
+            rule.tasks
+              .filter((taskId) => !taskIds.has(taskId))
+              .forEach((taskId) => report(rule, taskId, "task", "TaskID", "tasks"))
+            break
+          case "phaseWindow":
+            if (ctx.tasks.length > 0 && !taskIds.has(rule.taskId)) report(rule, rule.taskId, "task", "TaskID", "tasks")
+            break
+          case "loadLimit":
+            if (ctx.workers.length > 0 && !workerGroups.has(rule.workerGroup)) {
+              report(rule, rule.workerGroup, "worker group", "WorkerGroup", "workers")
+            }
+            break
+          case "slotRestriction": {
+            const isWorkerRule = rule.targetType === "worker"
+            const data = isWorkerRule ? ctx.workers : ctx.clients
+            const groups = isWorkerRule ? workerGroups : clientGroups
+            if (data.length > 0 && !groups.has(rule.groupName)) {
+              report(
+                rule,
+                rule.groupName,
+                isWorkerRule ? "worker group" : "client group",
+                isWorkerRule ? "WorkerGroup" : "GroupTag",
+                isWorkerRule ? "workers" : "clients",
+              )
+            }
+            break
+          }
+          case "exclusion":
+            if (ctx.workers.length > 0 && !workerIds.has(rule.workerId)) {
+              report(rule, rule.workerId, "worker", "WorkerID", "workers")
+            }
+            if (rule.targetType === "client" && ctx.clients.length > 0 && !clientIds.has(rule.targetId)) {
+              report(rule, rule.targetId, "client", "ClientID", "clients")
+            }
+            if (rule.targetType === "task" && ctx.tasks.length > 0 && !taskIds.has(rule.targetId)) {
+              report(rule, rule.targetId, "task", "TaskID", "tasks")
+            }
+            break
+          case "minQualification":
+            if (ctx.tasks.length > 0 && !taskIds.has(rule.taskId)) report(rule, rule.taskId, "task", "TaskID", "tasks")
+            break
+          case "affinity":
+            if (ctx.clients.length > 0 && !clientIds.has(rule.clientId)) {
+              report(rule, rule.clientId, "client", "ClientID", "clients")
+            }
+            if (ctx.workers.length > 0 && !workerGroups.has(rule.workerGroup)) {
+              report(rule, rule.workerGroup, "worker group", "WorkerGroup", "workers")
+            }
+            break
+          case "precedence": {
+            // Disabled rules still exist, so precedence may name them
+            const referenced = [...rule.globalRules, ...rule.specificRules]
+            referenced
+              .filter((id) => !ctx.allRuleIds.has(id))
+              .forEach((id) => report(rule, id, "rule", "RuleID", "tasks"))
+            break
+          }
+        }
+      })
+
+      return errors
+    },
+  },
+]